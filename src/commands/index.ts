@@ -1,6 +1,17 @@
+import { Notice } from 'obsidian';
 import type DailyAIAssistantPlugin from '../main';
 import { FLOW_CANVAS_VIEW_TYPE } from '../views/FlowCanvasView';
 import type { FlowCanvasView } from '../views/FlowCanvasView';
+import { isProcessorNode } from '../utils/nodeRole';
+import { GroupSuggestModal, ProcessorSuggestModal, RunModeSuggestModal, StageSuggestModal } from '../ui/ProcessorSuggestModal';
+import { extractStage, getGroupLabel, getGroups, getStageFileName, insertStage } from '../utils/canvasGroups';
+import { WorkflowRunReporter } from '../ui/WorkflowRunReporter';
+import type { WorkflowRunOptions } from '../types/workflow';
+
+/**
+ * Shown when a workflow command is used on a canvas without processors
+ */
+const NO_PROCESSORS_MESSAGE = 'No AI processing nodes found. Create one from the canvas context menu.';
 
 /**
  * Registers all available commands for the AI Canvas Workflows plugin.
@@ -51,6 +62,140 @@ export function registerCommands(plugin: DailyAIAssistantPlugin) {
 		}
 	});
 
+	plugin.addCommand({
+		id: 'run-ai-group',
+		name: 'Run AI Group in Canvas',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					runAIGroup(plugin, activeFile);
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'save-ai-group-as-stage',
+		name: 'Save AI Group as Stage',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					chooseGroupToSave(plugin, activeFile);
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'insert-ai-stage',
+		name: 'Insert AI Stage into Canvas',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					chooseStageToInsert(plugin, activeFile);
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'process-all-ai-nodes',
+		name: 'Process All AI Nodes in Canvas',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					processAllAINodes(plugin, activeFile);
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'toggle-watch-canvas-inputs',
+		name: 'Toggle Watching Inputs of Canvas',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					toggleWatchInputs(plugin, activeFile);
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'refresh-all-ai-nodes',
+		name: 'Process All AI Nodes in Canvas Ignoring Cache',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					processAllAINodes(plugin, activeFile, { refresh: true });
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'process-stale-ai-nodes',
+		name: 'Process Changed AI Nodes in Canvas',
+		checkCallback: (checking: boolean) => {
+			const activeFile = plugin.app.workspace.getActiveFile();
+			if (activeFile && activeFile.extension === 'canvas') {
+				if (!checking) {
+					processAllAINodes(plugin, activeFile, { onlyStale: true });
+				}
+				return true;
+			}
+			return false;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'clear-result-cache',
+		name: 'Clear Cached AI Results',
+		callback: async () => {
+			try {
+				await plugin.resultCache.clear();
+				new Notice('Cached AI results cleared');
+			} catch (error) {
+				console.error('Error clearing result cache:', error);
+				new Notice(`Could not clear the cache: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+	});
+
+	plugin.addCommand({
+		id: 'cancel-running-workflow',
+		name: 'Cancel Running Workflow',
+		checkCallback: (checking: boolean) => {
+			if (plugin.runManager.getRuns().length === 0) {
+				return false;
+			}
+			if (!checking) {
+				const cancelled = plugin.runManager.cancel();
+				new Notice(`Cancelling ${cancelled} running request(s)...`);
+			}
+			return true;
+		}
+	});
+
 	plugin.addCommand({
 		id: 'open-canvas-in-flow-view',
 		name: 'Open Canvas in Flow View',
@@ -122,47 +267,215 @@ async function addDefaultAssistantToCanvas(plugin: DailyAIAssistantPlugin, file:
 }
 
 /**
- * Processes an AI node in the currently active canvas
+ * Asks the user which processor of the active canvas to run, and how.
+ * A canvas with a single processor skips straight to choosing the run mode.
  */
 async function processAINode(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile): Promise<void> {
-	const { aiProcessingService, canvasService, app } = plugin;
+	const { canvasService, app } = plugin;
 
 	try {
-		// Get all nodes from the canvas
 		const canvasData = await canvasService.readCanvas(file);
-
-		// Find AI processing nodes (nodes with "AI Processing Node" in their content)
-		const aiProcessingNodes = canvasData.nodes?.filter(node => {
-			if (node.type !== 'text') return false;
-			const textNode = node as import('../types/jsoncanvas').JSONCanvasTextNode;
-			return textNode.text.includes('**AI Processing Node**');
-		});
+		const aiProcessingNodes = canvasData.nodes?.filter(isProcessorNode);
 
 		if (!aiProcessingNodes || aiProcessingNodes.length === 0) {
-			app.vault.adapter.write(
-				'temp-notice.txt',
-				'No AI processing nodes found. Create one using the canvas editor.'
-			);
+			new Notice(NO_PROCESSORS_MESSAGE);
 			return;
 		}
 
-		// If there's only one, process it. Otherwise, ask the user to select
 		if (aiProcessingNodes.length === 1) {
-			await aiProcessingService.processAINode(file, aiProcessingNodes[0].id);
-			console.log('Processed AI node:', aiProcessingNodes[0].id);
-		} else {
-			// For simplicity, process all AI processing nodes
-			for (const node of aiProcessingNodes) {
-				try {
-					await aiProcessingService.processAINode(file, node.id);
-					console.log('Processed AI node:', node.id);
-				} catch (error) {
-					console.error(`Error processing node ${node.id}:`, error);
-				}
-			}
+			chooseRunMode(plugin, file, aiProcessingNodes[0].id);
+			return;
 		}
+
+		// Otherwise, ask the user to select
+		new ProcessorSuggestModal(app, aiProcessingNodes, (processor) => {
+			chooseRunMode(plugin, file, processor.id);
+		}).open();
 	} catch (error) {
 		console.error('Error processing AI nodes:', error);
+		new Notice(`Could not read the canvas: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Asks the user which group of the active canvas to run, then runs the processors inside it
+ */
+async function runAIGroup(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile): Promise<void> {
+	try {
+		const canvasData = await plugin.canvasService.readCanvas(file);
+		const groups = getGroups(canvasData);
+
+		if (groups.length === 0) {
+			new Notice('This canvas has no groups. Group nodes together to run them as a stage.');
+			return;
+		}
+
+		new GroupSuggestModal(plugin.app, groups, (group) => {
+			runWorkflow(plugin, file, { groupId: group.id });
+		}).open();
+	} catch (error) {
+		console.error('Error reading canvas groups:', error);
+		new Notice(`Could not read the canvas: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Asks the user which group of the active canvas to save as a stage, then saves it
+ */
+async function chooseGroupToSave(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile): Promise<void> {
+	try {
+		const groups = getGroups(await plugin.canvasService.readCanvas(file));
+
+		if (groups.length === 0) {
+			new Notice('This canvas has no groups. Group nodes together to save them as a stage.');
+			return;
+		}
+
+		new GroupSuggestModal(plugin.app, groups, (group) => {
+			saveGroupAsStage(plugin, file, group.id);
+		}, 'Choose a group to save as a stage...').open();
+	} catch (error) {
+		console.error('Error reading canvas groups:', error);
+		new Notice(`Could not read the canvas: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Saves a group with its nodes and the edges between them into the stages folder,
+ * named after the group, so other canvases can insert it
+ *
+ * @param {DailyAIAssistantPlugin} plugin - The plugin instance
+ * @param {TFile} file - The canvas file containing the group
+ * @param {string} groupId - ID of the group node to save
+ */
+export async function saveGroupAsStage(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile, groupId: string): Promise<void> {
+	try {
+		const data = await plugin.canvasService.readCanvas(file);
+		const group = getGroups(data).find(node => node.id === groupId);
+		if (!group) {
+			throw new Error(`Group ${groupId} not found`);
+		}
+
+		const stage = await plugin.canvasService.saveStage(plugin.settings.stagesFolder, getStageFileName(group), extractStage(data, groupId));
+		new Notice(`Saved "${getGroupLabel(group)}" as stage ${stage.path}`);
+	} catch (error) {
+		console.error('Error saving stage:', error);
+		new Notice(`Could not save the stage: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Asks the user which saved stage to insert, then adds a copy of it next to the nodes of the canvas
+ */
+function chooseStageToInsert(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile): void {
+	const stages = plugin.canvasService.getStages(plugin.settings.stagesFolder);
+
+	if (stages.length === 0) {
+		new Notice(`No stages found in ${plugin.settings.stagesFolder}. Save a group as a stage first.`);
+		return;
+	}
+
+	new StageSuggestModal(plugin.app, stages, async (stageFile) => {
+		try {
+			const stage = await plugin.canvasService.readCanvas(stageFile);
+			const data = await plugin.canvasService.readCanvas(file);
+			const createId = () => `stage-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+			await plugin.canvasService.writeCanvas(file, insertStage(data, stage, createId));
+			new Notice(`Inserted stage "${stageFile.basename}"`);
+		} catch (error) {
+			console.error('Error inserting stage:', error);
+			new Notice(`Could not insert the stage: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}).open();
+}
+
+/**
+ * Processes all AI nodes in the currently active canvas, in dependency order.
+ * With `refresh`, every processor is requested again instead of reusing cached results;
+ * with `onlyStale`, only processors whose inputs changed and their dependents run.
+ */
+async function processAllAINodes(
+	plugin: DailyAIAssistantPlugin,
+	file: import('obsidian').TFile,
+	options: WorkflowStartOptions = {}
+): Promise<void> {
+	const { canvasService } = plugin;
+
+	try {
+		const canvasData = await canvasService.readCanvas(file);
+
+		if (!canvasData.nodes?.some(isProcessorNode)) {
+			new Notice(NO_PROCESSORS_MESSAGE);
+			return;
+		}
+	} catch (error) {
+		console.error('Error processing AI nodes:', error);
+		new Notice(`Could not read the canvas: ${error instanceof Error ? error.message : String(error)}`);
+		return;
+	}
+
+	await runWorkflow(plugin, file, options);
+}
+
+/**
+ * Turns automatic re-runs of a canvas on or off
+ */
+async function toggleWatchInputs(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile): Promise<void> {
+	const watched = !plugin.inputWatcher.isWatched(file);
+	await plugin.inputWatcher.setWatched(file, watched);
+	new Notice(watched
+		? `Watching the inputs of ${file.basename}: it re-runs when a linked note changes`
+		: `Stopped watching the inputs of ${file.basename}`);
+}
+
+/**
+ * Asks how a processor should run, then runs it
+ *
+ * @param {DailyAIAssistantPlugin} plugin - The plugin instance
+ * @param {TFile} file - The canvas file containing the processor
+ * @param {string} processorId - ID of the processor node to run
+ */
+export function chooseRunMode(plugin: DailyAIAssistantPlugin, file: import('obsidian').TFile, processorId: string): void {
+	new RunModeSuggestModal(plugin.app, (mode) => {
+		runWorkflow(plugin, file, { target: { processorId, mode } });
+	}).open();
+}
+
+/**
+ * Options for starting a workflow run from a command or menu
+ */
+type WorkflowStartOptions = Pick<WorkflowRunOptions, 'target' | 'refresh' | 'onlyStale' | 'processorIds' | 'groupId'>;
+
+/**
+ * Runs the processors of a canvas, optionally only those related to one processor
+ * or those whose inputs changed, reporting progress and failures with notices.
+ * The run is registered with the run manager so it can be cancelled.
+ *
+ * @param {DailyAIAssistantPlugin} plugin - The plugin instance
+ * @param {TFile} file - The canvas file to run
+ * @param {WorkflowStartOptions} [options] - Which processors to run, and whether to bypass the cache
+ */
+export async function runWorkflow(
+	plugin: DailyAIAssistantPlugin,
+	file: import('obsidian').TFile,
+	options: WorkflowStartOptions = {}
+): Promise<void> {
+	const reporter = new WorkflowRunReporter(plugin.app);
+	const run = plugin.runManager.start(file.basename, file.path);
+
+	try {
+		// Run processors after the processors they depend on
+		const summary = await plugin.workflowExecutor.execute(file, {
+			...options,
+			onProgress: reporter.onProgress,
+			signal: run.signal
+		});
+		reporter.finish(summary);
+	} catch (error) {
+		reporter.fail(error);
+	} finally {
+		plugin.runManager.finish(run);
 	}
 }
 
@@ -2,6 +2,8 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Notice, TFile } from 'obsidian';
 import { useApp } from '../hooks/useApp';
 import { PERSONALITY_PROMPTS, type Message } from '../types';
+import type { ActiveRun } from '../services/RunManager';
+import { isAbortError } from '../providers/http';
 
 /**
  * Props for the AIAssistantView component.
@@ -65,6 +67,8 @@ export const AIAssistantView = ({ onClear }: AIAssistantViewProps) => {
 	const [showContextControls, setShowContextControls] = useState(false);
 	const conversationRef = useRef<HTMLDivElement>(null);
 	const inputRef = useRef<HTMLTextAreaElement>(null);
+	// Request in progress, registered with the run manager so it can be stopped
+	const runRef = useRef<ActiveRun | null>(null);
 
 	const aiService = useMemo(() => plugin.aiService, [plugin]);
 
@@ -236,12 +240,21 @@ export const AIAssistantView = ({ onClear }: AIAssistantViewProps) => {
 			content: greetingContent
 		};
 
+		const run = plugin.runManager.start('Chat greeting');
+		runRef.current = run;
+
 		try {
-			const greeting = await aiService.callLMStudio([greetingPrompt]);
+			const greeting = await aiService.streamChat([greetingPrompt], (_token, content) => {
+				setChatHistory([{ role: 'assistant', content }]);
+			}, { signal: run.signal });
 			setChatHistory([{ role: 'assistant', content: greeting }]);
 		} catch (error: any) {
-			console.error('Failed to get greeting:', error);
+			if (!isAbortError(error)) {
+				console.error('Failed to get greeting:', error);
+			}
 		} finally {
+			plugin.runManager.finish(run);
+			runRef.current = null;
 			setIsLoading(false);
 		}
 	}, [contextData, contextFiles, plugin.settings.personality, aiService]);
@@ -390,6 +403,9 @@ export const AIAssistantView = ({ onClear }: AIAssistantViewProps) => {
 		const thinkingMessage: Message = { role: 'system', content: '🤔 Mă gândesc...' };
 		setChatHistory([...newHistory, thinkingMessage]);
 
+		const run = plugin.runManager.start('Chat response');
+		runRef.current = run;
+
 		try {
 			// Create messages with context
 			const personalityPrompt = PERSONALITY_PROMPTS[plugin.settings.personality];
@@ -435,24 +451,42 @@ export const AIAssistantView = ({ onClear }: AIAssistantViewProps) => {
 			// Add conversation history (excluding system messages)
 			contextualHistory.push(...newHistory.filter(m => m.role !== 'system'));
 
-			const response = await aiService.callLMStudio(contextualHistory);
+			// Replace the thinking message with the response and let it grow as tokens arrive
+			const showResponse = (content: string) => {
+				setChatHistory(prev => {
+					const withoutThinking = prev.filter(m => m.content !== '🤔 Mă gândesc...');
+					const last = withoutThinking[withoutThinking.length - 1];
+					const withoutPartial = last?.role === 'assistant'
+						? withoutThinking.slice(0, -1)
+						: withoutThinking;
+					return [...withoutPartial, { role: 'assistant', content }];
+				});
+			};
 
-			// Remove thinking message and add response
-			setChatHistory(prev => {
-				const withoutThinking = prev.filter(m => m.content !== '🤔 Mă gândesc...');
-				return [...withoutThinking, { role: 'assistant', content: response }];
-			});
+			const response = await aiService.streamChat(contextualHistory, (_token, content) => {
+				showResponse(content);
+			}, { signal: run.signal });
+			showResponse(response);
 		} catch (error: any) {
-			// Remove thinking message and add error
+			// Remove thinking message and add error, keeping what was received before a stop
+			const notice = isAbortError(error) ? '⏹️ Răspuns oprit' : 'Eroare: ' + error.message;
 			setChatHistory(prev => {
 				const withoutThinking = prev.filter(m => m.content !== '🤔 Mă gândesc...');
-				return [...withoutThinking, { role: 'system', content: 'Eroare: ' + error.message }];
+				return [...withoutThinking, { role: 'system', content: notice }];
 			});
 		} finally {
+			plugin.runManager.finish(run);
+			runRef.current = null;
 			setIsLoading(false);
 		}
 	}, [inputValue, chatHistory, aiService, contextData, plugin.settings.personality]);
 
+	const stopResponse = useCallback(() => {
+		if (runRef.current) {
+			plugin.runManager.cancelRun(runRef.current);
+		}
+	}, [plugin]);
+
 	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
 		if (e.key === 'Enter' && !e.shiftKey) {
 			e.preventDefault();
@@ -610,13 +644,22 @@ export const AIAssistantView = ({ onClear }: AIAssistantViewProps) => {
 					disabled={isLoading}
 				/>
 				<div className="ai-button-container">
-					<button
-						className="ai-btn-send"
-						onClick={sendMessage}
-						disabled={isLoading || !inputValue.trim()}
-					>
-						Trimite
-					</button>
+					{isLoading ? (
+						<button
+							className="ai-btn-send"
+							onClick={stopResponse}
+						>
+							Oprește
+						</button>
+					) : (
+						<button
+							className="ai-btn-send"
+							onClick={sendMessage}
+							disabled={!inputValue.trim()}
+						>
+							Trimite
+						</button>
+					)}
 					<button
 						className="ai-btn-clear"
 						onClick={clearConversation}
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { Node } from '@xyflow/react';
+import { FlowCanvas } from './FlowCanvas';
+
+const processor: Node = {
+	id: 'p1',
+	type: 'processor',
+	position: { x: 0, y: 0 },
+	width: 300,
+	height: 200,
+	data: { text: '# ⚙️ AI Processor\n\n> **Summary**\n\n**Instructions:**\nSummarize the input' },
+};
+
+const output: Node = {
+	id: 'o1',
+	type: 'output',
+	position: { x: 400, y: 0 },
+	width: 300,
+	height: 200,
+	data: { text: '# Result\n\nDone' },
+};
+
+const group: Node = {
+	id: 'g1',
+	type: 'group',
+	position: { x: -50, y: -50 },
+	width: 1000,
+	height: 400,
+	data: { label: 'Summaries' },
+};
+
+describe('FlowCanvas', () => {
+	beforeAll(() => {
+		// React Flow measures nodes and the viewport, which jsdom does not implement
+		globalThis.ResizeObserver = class {
+			observe() {}
+			unobserve() {}
+			disconnect() {}
+		};
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterAll(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should run a processor card through the view', async () => {
+		const onRunProcessor = vi.fn().mockResolvedValue(undefined);
+		render(<FlowCanvas initialNodes={[processor]} initialEdges={[]} onRunProcessor={onRunProcessor} />);
+
+		await userEvent.click(await screen.findByRole('button', { name: 'Run' }));
+
+		expect(onRunProcessor).toHaveBeenCalledWith('p1', 'single');
+	});
+
+	it('should report the text of an edited card as a node change', async () => {
+		const onNodesChange = vi.fn();
+		render(<FlowCanvas initialNodes={[processor]} initialEdges={[]} onNodesChange={onNodesChange} />);
+
+		const field = await screen.findByDisplayValue('Summarize the input');
+		await userEvent.clear(field);
+		await userEvent.type(field, 'Translate');
+		await userEvent.tab();
+
+		await waitFor(() => expect(onNodesChange).toHaveBeenCalled());
+		const nodes: Node[] = onNodesChange.mock.calls[onNodesChange.mock.calls.length - 1][0];
+		expect((nodes[0].data as { text: string }).text).toContain('**Instructions:**\nTranslate');
+	});
+
+	it('should render output markdown as text without a renderer and mark stale outputs', async () => {
+		const { container } = render(
+			<FlowCanvas initialNodes={[output]} initialEdges={[]} staleNodeIds={new Set(['o1'])} />
+		);
+
+		expect(await screen.findByText('Done')).toBeInTheDocument();
+		expect(container.querySelector('.flow-output-node')).toHaveClass('is-stale');
+	});
+
+	it('should hide the members of a group when it collapses and keep its size for saving', async () => {
+		const onNodesChange = vi.fn();
+		const { container } = render(
+			<FlowCanvas initialNodes={[group, processor, output]} initialEdges={[]} onNodesChange={onNodesChange} />
+		);
+
+		await userEvent.click(await screen.findByRole('button', { name: 'Collapse group' }));
+
+		expect(await screen.findByRole('button', { name: 'Expand group' })).toBeInTheDocument();
+		expect(container.querySelector('.flow-processor-node')).not.toBeInTheDocument();
+		const nodes: Node[] = onNodesChange.mock.calls[onNodesChange.mock.calls.length - 1][0];
+		expect(nodes[0]).toMatchObject({ height: 400, data: { label: 'Summaries', collapsed: true } });
+	});
+});
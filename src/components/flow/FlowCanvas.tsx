@@ -20,8 +20,15 @@ import {
 	EdgeTypes,
 } from '@xyflow/react';
 import { TextNode } from '../nodes/TextNode';
+import { AgentNode } from '../nodes/AgentNode';
+import { ProcessorNode } from '../nodes/ProcessorNode';
+import { OutputNode } from '../nodes/OutputNode';
+import { GroupNode } from '../nodes/GroupNode';
+import { FlowCanvasContext, FlowCanvasActions } from '../../context/FlowCanvasContext';
+import type { WorkflowRunMode } from '../../types/workflow';
 import { CanvasControls } from './CanvasControls';
 import { CanvasCardMenu } from './CanvasCardMenu';
+import { collapseGroups } from './collapsedGroups';
 
 /**
  * Props for FlowCanvas component
@@ -52,6 +59,26 @@ export type FlowCanvasProps = {
 	 */
 	onSwitchToCanvas?: () => void;
 
+	/**
+	 * Callback to run a processor node
+	 */
+	onRunProcessor?: (nodeId: string, mode: WorkflowRunMode) => Promise<void>;
+
+	/**
+	 * Callback to cancel the workflow runs of this canvas
+	 */
+	onCancelRuns?: () => void;
+
+	/**
+	 * Callback to render markdown into an element
+	 */
+	onRenderMarkdown?: (markdown: string, el: HTMLElement) => void;
+
+	/**
+	 * IDs of output nodes whose content no longer matches their inputs
+	 */
+	staleNodeIds?: ReadonlySet<string>;
+
 	/**
 	 * Whether the canvas is read-only
 	 */
@@ -67,6 +94,10 @@ function FlowCanvasInternal({
 	onNodesChange,
 	onEdgesChange,
 	onSwitchToCanvas,
+	onRunProcessor,
+	onCancelRuns,
+	onRenderMarkdown,
+	staleNodeIds,
 	readOnly = false,
 }: FlowCanvasProps) {
 	// Use React Flow's built-in state management
@@ -102,6 +133,12 @@ function FlowCanvasInternal({
 		[setEdges]
 	);
 
+	// Latest state, read once a change has been applied
+	const nodesRef = React.useRef(nodes);
+	const edgesRef = React.useRef(edges);
+	nodesRef.current = nodes;
+	edgesRef.current = edges;
+
 	// Notify parent when nodes change
 	const handleNodesChange = useCallback(
 		(changes: unknown) => {
@@ -109,11 +146,11 @@ function FlowCanvasInternal({
 			if (onNodesChange) {
 				// Use a small delay to ensure state has updated
 				setTimeout(() => {
-					onNodesChange(nodes);
+					onNodesChange(nodesRef.current);
 				}, 0);
 			}
 		},
-		[onNodesChangeInternal, onNodesChange, nodes]
+		[onNodesChangeInternal, onNodesChange]
 	);
 
 	// Notify parent when edges change
@@ -123,17 +160,73 @@ function FlowCanvasInternal({
 			if (onEdgesChange) {
 				// Use a small delay to ensure state has updated
 				setTimeout(() => {
-					onEdgesChange(edges);
+					onEdgesChange(edgesRef.current);
 				}, 0);
 			}
 		},
-		[onEdgesChangeInternal, onEdgesChange, edges]
+		[onEdgesChangeInternal, onEdgesChange]
 	);
 
+	// Collapse a group to its header, or expand it again
+	const toggleGroup = useCallback(
+		(nodeId: string) => {
+			const updated = nodes.map((node) => {
+				if (node.id !== nodeId) return node;
+
+				const data = { ...node.data };
+				if (data.collapsed) delete data.collapsed;
+				else data.collapsed = true;
+				return { ...node, data };
+			});
+			setNodes(updated);
+			onNodesChange?.(updated);
+		},
+		[nodes, setNodes, onNodesChange]
+	);
+
+	// Members of collapsed groups are hidden when rendered, but kept as they are when saved
+	const displayed = useMemo(() => collapseGroups(nodes, edges), [nodes, edges]);
+
+	// Replace the text of a node edited inside its card
+	const updateNodeText = useCallback(
+		(nodeId: string, text: string) => {
+			const updated = nodes.map((node) =>
+				node.id === nodeId ? { ...node, data: { ...node.data, text } } : node
+			);
+			setNodes(updated);
+			onNodesChange?.(updated);
+		},
+		[nodes, setNodes, onNodesChange]
+	);
+
+	// Actions available to node components
+	const actions: FlowCanvasActions = useMemo(() => ({
+		runProcessor: async (nodeId: string, mode: WorkflowRunMode) => {
+			await onRunProcessor?.(nodeId, mode);
+		},
+		cancelRuns: () => {
+			onCancelRuns?.();
+		},
+		updateNodeText,
+		renderMarkdown: (markdown: string, el: HTMLElement) => {
+			if (onRenderMarkdown) {
+				onRenderMarkdown(markdown, el);
+			} else {
+				el.textContent = markdown;
+			}
+		},
+		isStale: (nodeId: string) => staleNodeIds?.has(nodeId) ?? false,
+		toggleGroup,
+	}), [onRunProcessor, onCancelRuns, updateNodeText, onRenderMarkdown, staleNodeIds, toggleGroup]);
+
 	// Custom node types
 	const nodeTypes: NodeTypes = useMemo(() => {
 		const types = {
 			text: TextNode,
+			agent: AgentNode,
+			processor: ProcessorNode,
+			output: OutputNode,
+			group: GroupNode,
 		};
 		console.log('[FlowCanvas] Node types registered:', types);
 		return types;
@@ -159,59 +252,61 @@ function FlowCanvasInternal({
 	}, []);
 
 	return (
-		<div style={{ width: '100%', height: '100%', position: 'relative' }}>
-			<ReactFlow
-				nodes={nodes}
-				edges={edges}
-				onNodesChange={handleNodesChange}
-				onEdgesChange={handleEdgesChange}
-				onConnect={onConnect}
-				nodeTypes={nodeTypes}
-				edgeTypes={edgeTypes}
-				fitView
-				attributionPosition="bottom-right"
-				nodesDraggable={true}
-				nodesConnectable={true}
-				nodesFocusable={true}
-				edgesFocusable={true}
-				elementsSelectable={true}
-				selectNodesOnDrag={false}
-				panOnDrag={[1, 2]}
-				defaultEdgeOptions={{
-					type: 'default',
-					animated: false,
-					style: { stroke: 'var(--interactive-accent)', strokeWidth: 2 },
-				}}
-				style={{
-					background: 'var(--background-primary)',
-				}}
-			>
-				{/* Background pattern */}
-				<Background
-					color="var(--background-modifier-border)"
-					gap={16}
-					size={1}
-				/>
-
-				{/* Mini map for navigation */}
-				<MiniMap
-					nodeColor={(node) => {
-						// Use node color if available, otherwise use default
-						const color = (node.data as { color?: string }).color;
-						return color ? getColorValue(color) : 'var(--interactive-accent)';
+		<FlowCanvasContext.Provider value={actions}>
+			<div style={{ width: '100%', height: '100%', position: 'relative' }}>
+				<ReactFlow
+					nodes={displayed.nodes}
+					edges={displayed.edges}
+					onNodesChange={handleNodesChange}
+					onEdgesChange={handleEdgesChange}
+					onConnect={onConnect}
+					nodeTypes={nodeTypes}
+					edgeTypes={edgeTypes}
+					fitView
+					attributionPosition="bottom-right"
+					nodesDraggable={true}
+					nodesConnectable={true}
+					nodesFocusable={true}
+					edgesFocusable={true}
+					elementsSelectable={true}
+					selectNodesOnDrag={false}
+					panOnDrag={[1, 2]}
+					defaultEdgeOptions={{
+						type: 'default',
+						animated: false,
+						style: { stroke: 'var(--interactive-accent)', strokeWidth: 2 },
 					}}
 					style={{
-						backgroundColor: 'var(--background-primary-alt)',
+						background: 'var(--background-primary)',
 					}}
-				/>
-			</ReactFlow>
+				>
+					{/* Background pattern */}
+					<Background
+						color="var(--background-modifier-border)"
+						gap={16}
+						size={1}
+					/>
+
+					{/* Mini map for navigation */}
+					<MiniMap
+						nodeColor={(node) => {
+							// Use node color if available, otherwise use default
+							const color = (node.data as { color?: string }).color;
+							return color ? getColorValue(color) : 'var(--interactive-accent)';
+						}}
+						style={{
+							backgroundColor: 'var(--background-primary-alt)',
+						}}
+					/>
+				</ReactFlow>
 
-			{/* Custom canvas controls matching Obsidian's design */}
-			<CanvasControls />
+				{/* Custom canvas controls matching Obsidian's design */}
+				<CanvasControls />
 
-			{/* Custom canvas card menu matching Obsidian's design */}
-			<CanvasCardMenu onSwitchToCanvas={onSwitchToCanvas} />
-		</div>
+				{/* Custom canvas card menu matching Obsidian's design */}
+				<CanvasCardMenu onSwitchToCanvas={onSwitchToCanvas} />
+			</div>
+		</FlowCanvasContext.Provider>
 	);
 };
 
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData } from '../../types/jsoncanvas';
+import { FlowCanvasConverter } from '../../services/FlowCanvasConverter';
+import { collapseGroups, COLLAPSED_GROUP_HEIGHT } from './collapsedGroups';
+
+// outer contains inner and a; inner contains b; c is outside both
+const createCanvas = (collapsed: string[]): JSONCanvasData => ({
+	nodes: [
+		{ id: 'outer', type: 'group', label: 'Stage', x: 0, y: 0, width: 1000, height: 600, collapsed: collapsed.includes('outer') },
+		{ id: 'inner', type: 'group', x: 400, y: 50, width: 400, height: 400, collapsed: collapsed.includes('inner') },
+		{ id: 'a', type: 'text', text: 'a', x: 50, y: 50, width: 100, height: 100 },
+		{ id: 'b', type: 'text', text: 'b', x: 450, y: 100, width: 100, height: 100 },
+		{ id: 'c', type: 'text', text: 'c', x: 1200, y: 0, width: 100, height: 100 },
+	] as JSONCanvasData['nodes'],
+	edges: [
+		{ id: 'c-a', fromNode: 'c', toNode: 'a' },
+		{ id: 'a-b', fromNode: 'a', toNode: 'b' },
+		{ id: 'b-c', fromNode: 'b', toNode: 'c' },
+	],
+});
+
+const collapse = (collapsed: string[]) => {
+	const { nodes, edges } = FlowCanvasConverter.fromJSONCanvas(createCanvas(collapsed));
+	return { saved: nodes, ...collapseGroups(nodes, edges) };
+};
+
+describe('collapseGroups', () => {
+	it('should leave canvases without collapsed groups alone', () => {
+		const { nodes, edges } = FlowCanvasConverter.fromJSONCanvas(createCanvas([]));
+
+		expect(collapseGroups(nodes, edges)).toEqual({ nodes, edges });
+	});
+
+	it('should hide the members of a collapsed group and shrink it to its header', () => {
+		const { nodes, saved } = collapse(['inner']);
+		const byId = new Map(nodes.map(node => [node.id, node]));
+
+		expect(nodes.filter(node => node.hidden).map(node => node.id)).toEqual(['b']);
+		expect(byId.get('inner')).toMatchObject({ height: COLLAPSED_GROUP_HEIGHT, draggable: false });
+		expect(saved.find(node => node.id === 'inner')?.height).toBe(400);
+	});
+
+	it('should route edges of hidden members to the collapsed group', () => {
+		const { edges } = collapse(['inner']);
+
+		expect(edges.map(edge => [edge.id, edge.source, edge.target, edge.hidden ?? false])).toEqual([
+			['c-a', 'c', 'a', false],
+			['a-b', 'a', 'inner', false],
+			['b-c', 'inner', 'c', false],
+		]);
+	});
+
+	it('should show nested collapsed groups through the outermost one', () => {
+		const { nodes, edges } = collapse(['outer', 'inner']);
+
+		expect(nodes.filter(node => node.hidden).map(node => node.id)).toEqual(['inner', 'a', 'b']);
+		expect(edges.map(edge => [edge.id, edge.source, edge.target, edge.hidden ?? false])).toEqual([
+			['c-a', 'c', 'outer', false],
+			['a-b', 'a', 'b', true],
+			['b-c', 'outer', 'c', false],
+		]);
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * Display of collapsed groups in the Flow Canvas
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { FlowCanvasConverter } from '../../services/FlowCanvasConverter';
+import { getGroupMembers } from '../../utils/canvasGroups';
+
+/**
+ * Height of a collapsed group, which only shows its header
+ */
+export const COLLAPSED_GROUP_HEIGHT = 44;
+
+/**
+ * Hides the members of collapsed groups. Collapsed groups shrink to their header and
+ * cannot be dragged, since their hidden members would stay behind and drop out of them;
+ * edges to hidden members end at the outermost collapsed group around them instead.
+ * Only the rendered copies change, so saving the canvas keeps every group's size and members.
+ *
+ * @param {Node[]} nodes - The nodes as they are saved
+ * @param {Edge[]} edges - The edges as they are saved
+ * @returns The nodes and edges to render
+ */
+export const collapseGroups = (nodes: Node[], edges: Edge[]): { nodes: Node[]; edges: Edge[] } => {
+	const collapsed = nodes.filter(node => node.type === 'group' && node.data.collapsed === true);
+	if (collapsed.length === 0) return { nodes, edges };
+
+	// Membership follows the bounds saved in the canvas
+	const data = FlowCanvasConverter.toJSONCanvas(nodes, []);
+	const members = new Map(collapsed.map(group => [group.id, getGroupMembers(data, group.id)] as [string, Set<string>]));
+
+	// Maps every hidden node to the collapsed group shown in its place
+	const shownAs = new Map<string, string>();
+	for (const group of collapsed) {
+		const nested = collapsed.some(other => members.get(other.id)!.has(group.id));
+		if (nested) continue;
+		members.get(group.id)!.forEach(id => shownAs.set(id, group.id));
+	}
+
+	return {
+		nodes: nodes.map(node => {
+			if (shownAs.has(node.id)) return { ...node, hidden: true };
+			if (members.has(node.id)) return { ...node, height: COLLAPSED_GROUP_HEIGHT, draggable: false };
+			return node;
+		}),
+		edges: edges.map(edge => {
+			const source = shownAs.get(edge.source) ?? edge.source;
+			const target = shownAs.get(edge.target) ?? edge.target;
+			if (source === edge.source && target === edge.target) return edge;
+
+			// Edges between members of the same collapsed group have nowhere to go
+			return source === target ? { ...edge, hidden: true } : { ...edge, source, target };
+		}),
+	};
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ReactFlowProvider, NodeProps } from '@xyflow/react';
+import { AgentNode, AgentFlowNode } from './AgentNode';
+import { formatAgentNodeText } from '../../utils/nodeContent';
+
+const renderAgent = (text: string) => {
+	const props = { id: 'a1', type: 'agent', data: { text }, selected: true } as NodeProps<AgentFlowNode>;
+
+	return render(
+		<ReactFlowProvider>
+			<AgentNode {...props} />
+		</ReactFlowProvider>
+	);
+};
+
+describe('AgentNode', () => {
+	it('should show the name, role, personality and system prompt', () => {
+		const { container } = renderAgent(formatAgentNodeText({
+			name: 'Critic',
+			role: 'reviewer',
+			personality: 'concise',
+			systemPrompt: 'Point out every weak argument.'
+		}));
+
+		expect(screen.getByText('Critic')).toBeInTheDocument();
+		expect(screen.getByText('reviewer · concise')).toBeInTheDocument();
+		expect(screen.getByText('Point out every weak argument.')).toBeInTheDocument();
+		expect(container.querySelector('.flow-agent-node')).toHaveClass('is-selected');
+	});
+
+	it('should leave out a missing role and prompt', () => {
+		const { container } = renderAgent('# 🤖 AI Agent\n\n> **Planner**');
+
+		expect(screen.getByText('Planner')).toBeInTheDocument();
+		expect(container.querySelector('.flow-agent-node-role')).toBeNull();
+		expect(container.querySelector('.flow-agent-node-prompt')).toBeNull();
+	});
+});
@@ -0,0 +1,45 @@
+/**
+ * AgentNode Component
+ * Card renderer for AI agent nodes in the Flow Canvas
+ */
+
+import * as React from 'react';
+import { Position, Node, NodeProps } from '@xyflow/react';
+import { Handle } from './NodeHandle';
+import { parseAgentNodeText } from '../../utils/nodeContent';
+
+export type AgentNodeData = {
+	text: string;
+	color?: string;
+};
+
+export type AgentFlowNode = Node<AgentNodeData, 'agent'>;
+
+/**
+ * Shows an agent's name, role, personality and system prompt.
+ * Agents only lend their persona to processors, so the card has an outgoing handle only.
+ */
+const AgentNodeComponent = ({ data, selected }: NodeProps<AgentFlowNode>) => {
+	const { name, role, personality, systemPrompt } = parseAgentNodeText(data.text);
+
+	return (
+		<div className={`flow-workflow-node flow-agent-node${selected ? ' is-selected' : ''}`}>
+			<div className="flow-workflow-node-header">
+				<span className="flow-workflow-node-icon">🤖</span>
+				<span className="flow-workflow-node-title">{name}</span>
+			</div>
+
+			{role && (
+				<div className="flow-agent-node-role">{personality ? `${role} · ${personality}` : role}</div>
+			)}
+
+			{systemPrompt && (
+				<div className="flow-agent-node-prompt">{systemPrompt}</div>
+			)}
+
+			<Handle type="source" position={Position.Right} />
+		</div>
+	);
+};
+
+export { AgentNodeComponent as AgentNode };
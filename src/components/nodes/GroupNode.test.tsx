@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReactFlowProvider, NodeProps } from '@xyflow/react';
+import { GroupNode, GroupFlowNode, GroupNodeData } from './GroupNode';
+import { FlowCanvasContext, FlowCanvasActions } from '../../context/FlowCanvasContext';
+
+const createActions = (): FlowCanvasActions => ({
+	runProcessor: vi.fn().mockResolvedValue(undefined),
+	cancelRuns: vi.fn(),
+	updateNodeText: vi.fn(),
+	renderMarkdown: vi.fn(),
+	isStale: () => false,
+	toggleGroup: vi.fn(),
+});
+
+const renderGroup = (actions: FlowCanvasActions, data: GroupNodeData) => {
+	const props = { id: 'g1', type: 'group', data, selected: false } as NodeProps<GroupFlowNode>;
+
+	return render(
+		<ReactFlowProvider>
+			<FlowCanvasContext.Provider value={actions}>
+				<GroupNode {...props} />
+			</FlowCanvasContext.Provider>
+		</ReactFlowProvider>
+	);
+};
+
+describe('GroupNode', () => {
+	it('should show the label and collapse the group', async () => {
+		const actions = createActions();
+		renderGroup(actions, { label: 'Research' });
+
+		expect(screen.getByText('Research')).toBeInTheDocument();
+		await userEvent.click(screen.getByRole('button', { name: 'Collapse group' }));
+
+		expect(actions.toggleGroup).toHaveBeenCalledWith('g1');
+	});
+
+	it('should offer to expand a collapsed group', () => {
+		const { container } = renderGroup(createActions(), { collapsed: true });
+
+		expect(screen.getByText('Group')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Expand group' })).toHaveAttribute('aria-expanded', 'false');
+		expect(container.querySelector('.flow-group-node')).toHaveClass('is-collapsed');
+	});
+});
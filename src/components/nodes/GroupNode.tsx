@@ -0,0 +1,50 @@
+/**
+ * GroupNode Component
+ * Frame renderer for group nodes in the Flow Canvas
+ */
+
+import * as React from 'react';
+import { Position, Node, NodeProps } from '@xyflow/react';
+import { Handle } from './NodeHandle';
+import { useFlowCanvasActions } from '../../hooks/useFlowCanvasActions';
+
+export type GroupNodeData = {
+	label?: string;
+	color?: string;
+	/** Set while the group's members are hidden */
+	collapsed?: boolean;
+};
+
+export type GroupFlowNode = Node<GroupNodeData, 'group'>;
+
+/**
+ * Shows a group as a labelled frame around its members, with a button
+ * that collapses it to its header and expands it again.
+ * Edges attached to the group connect to the stage it stands for.
+ */
+const GroupNodeComponent = ({ id, data, selected }: NodeProps<GroupFlowNode>) => {
+	const { toggleGroup } = useFlowCanvasActions();
+	const collapsed = data.collapsed === true;
+
+	return (
+		<div className={`flow-group-node${selected ? ' is-selected' : ''}${collapsed ? ' is-collapsed' : ''}`}>
+			<Handle type="target" position={Position.Left} />
+
+			<div className="flow-group-node-header">
+				<button
+					className="flow-group-node-toggle clickable-icon nodrag"
+					aria-label={collapsed ? 'Expand group' : 'Collapse group'}
+					aria-expanded={!collapsed}
+					onClick={() => toggleGroup(id)}
+				>
+					{collapsed ? '▸' : '▾'}
+				</button>
+				<span className="flow-group-node-label">{data.label?.trim() || 'Group'}</span>
+			</div>
+
+			<Handle type="source" position={Position.Right} />
+		</div>
+	);
+};
+
+export { GroupNodeComponent as GroupNode };
@@ -0,0 +1,13 @@
+/**
+ * NodeHandle
+ * Connection handle of React Flow, for the node card components
+ */
+
+import * as ReactFlow from '@xyflow/react';
+
+/**
+ * React Flow exports a type and a component both named `Handle`; a named import
+ * resolves to the type only in this TypeScript version, so the component is read
+ * from the namespace instead
+ */
+export const { Handle } = ReactFlow;
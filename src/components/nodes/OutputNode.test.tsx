@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ReactFlowProvider, NodeProps } from '@xyflow/react';
+import { OutputNode, OutputFlowNode, OutputNodeData } from './OutputNode';
+import { FlowCanvasContext, FlowCanvasActions } from '../../context/FlowCanvasContext';
+
+const createActions = (overrides: Partial<FlowCanvasActions> = {}): FlowCanvasActions => ({
+	runProcessor: vi.fn().mockResolvedValue(undefined),
+	cancelRuns: vi.fn(),
+	updateNodeText: vi.fn(),
+	renderMarkdown: vi.fn((markdown: string, el: HTMLElement) => { el.textContent = markdown; }),
+	isStale: () => false,
+	toggleGroup: vi.fn(),
+	...overrides,
+});
+
+const renderOutput = (actions: FlowCanvasActions, data: OutputNodeData) => {
+	const props = { id: 'o1', type: 'output', data, selected: false } as NodeProps<OutputFlowNode>;
+
+	return render(
+		<ReactFlowProvider>
+			<FlowCanvasContext.Provider value={actions}>
+				<OutputNode {...props} />
+			</FlowCanvasContext.Provider>
+		</ReactFlowProvider>
+	);
+};
+
+describe('OutputNode', () => {
+	it('should render the body below the title with the view renderer', () => {
+		const actions = createActions();
+		renderOutput(actions, { text: '# 📤 Output\n\n> **Weekly Summary**\n\nAll tasks done.' });
+
+		expect(screen.getByText('Weekly Summary')).toBeInTheDocument();
+		expect(actions.renderMarkdown).toHaveBeenCalledWith('All tasks done.', expect.any(HTMLElement));
+		expect(screen.getByText('All tasks done.')).toBeInTheDocument();
+	});
+
+	it('should say when it was not run yet', () => {
+		renderOutput(createActions(), { text: '# Result' });
+
+		expect(screen.getByText('Not run yet')).toBeInTheDocument();
+		expect(screen.queryByText('Stale')).not.toBeInTheDocument();
+	});
+
+	it('should mark cached and stale results', () => {
+		const { container } = renderOutput(
+			createActions({ isStale: (id) => id === 'o1' }),
+			{ text: '# Result\n\nDone', lastRunAt: '2024-01-15T10:00:00.000Z', cachedAt: '2024-01-14T09:00:00.000Z' }
+		);
+
+		expect(screen.getByText('From cache')).toBeInTheDocument();
+		expect(screen.getByText('Stale')).toBeInTheDocument();
+		expect(container.querySelector('.flow-output-node')).toHaveClass('is-stale');
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * OutputNode Component
+ * Card renderer for output nodes in the Flow Canvas
+ */
+
+import * as React from 'react';
+import { useEffect, useRef } from 'react';
+import { Position, Node, NodeProps } from '@xyflow/react';
+import { Handle } from './NodeHandle';
+import { parseOutputNodeText } from '../../utils/nodeContent';
+import { useFlowCanvasActions } from '../../hooks/useFlowCanvasActions';
+
+export type OutputNodeData = {
+	text: string;
+	color?: string;
+	/** ISO timestamp written by CanvasService.updateOutputNode */
+	lastRunAt?: string;
+	/** ISO timestamp of the original run when the content came from the result cache */
+	cachedAt?: string;
+};
+
+export type OutputFlowNode = Node<OutputNodeData, 'output'>;
+
+/**
+ * Shows the rendered markdown a processor wrote into the node,
+ * together with the time of the last run, whether it came from the cache
+ * and whether its inputs changed since.
+ */
+const OutputNodeComponent = ({ id, data, selected }: NodeProps<OutputFlowNode>) => {
+	const { renderMarkdown, isStale } = useFlowCanvasActions();
+	const { title, body } = parseOutputNodeText(data.text);
+	const contentRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		if (contentRef.current) {
+			renderMarkdown(body, contentRef.current);
+		}
+	}, [body, renderMarkdown]);
+
+	const lastRun = data.lastRunAt ? new Date(data.lastRunAt) : null;
+	const cachedAt = data.cachedAt ? new Date(data.cachedAt) : null;
+	const stale = isStale(id);
+
+	return (
+		<div className={`flow-workflow-node flow-output-node${selected ? ' is-selected' : ''}${stale ? ' is-stale' : ''}`}>
+			<Handle type="target" position={Position.Left} />
+
+			<div className="flow-workflow-node-header">
+				<span className="flow-workflow-node-icon">📤</span>
+				<span className="flow-workflow-node-title">{title}</span>
+			</div>
+
+			<div ref={contentRef} className="flow-output-node-content markdown-rendered nowheel" />
+
+			<div className="flow-output-node-footer">
+				{lastRun ? `Last run ${lastRun.toLocaleString()}` : 'Not run yet'}
+				{cachedAt && (
+					<span className="flow-output-node-cached" title={`Generated ${cachedAt.toLocaleString()}`}>
+						From cache
+					</span>
+				)}
+				{stale && (
+					<span className="flow-output-node-stale" title="The inputs changed since this output was generated">
+						Stale
+					</span>
+				)}
+			</div>
+
+			<Handle type="source" position={Position.Right} />
+		</div>
+	);
+};
+
+export { OutputNodeComponent as OutputNode };
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReactFlowProvider, NodeProps } from '@xyflow/react';
+import { ProcessorNode, ProcessorFlowNode } from './ProcessorNode';
+import { FlowCanvasContext, FlowCanvasActions } from '../../context/FlowCanvasContext';
+
+const TEXT = '# ⚙️ AI Processor\n\n> **Summary**\n\n**Instructions:**\nSummarize the input\n\n---\n*Run from the menu*';
+
+const createActions = (overrides: Partial<FlowCanvasActions> = {}): FlowCanvasActions => ({
+	runProcessor: vi.fn().mockResolvedValue(undefined),
+	cancelRuns: vi.fn(),
+	updateNodeText: vi.fn(),
+	renderMarkdown: vi.fn(),
+	isStale: () => false,
+	toggleGroup: vi.fn(),
+	...overrides,
+});
+
+const renderProcessor = (actions: FlowCanvasActions, text = TEXT) => {
+	const props = { id: 'p1', type: 'processor', data: { text }, selected: false } as NodeProps<ProcessorFlowNode>;
+
+	return render(
+		<ReactFlowProvider>
+			<FlowCanvasContext.Provider value={actions}>
+				<ProcessorNode {...props} />
+			</FlowCanvasContext.Provider>
+		</ReactFlowProvider>
+	);
+};
+
+describe('ProcessorNode', () => {
+	it('should show the title and the instruction', () => {
+		renderProcessor(createActions());
+
+		expect(screen.getByText('Summary')).toBeInTheDocument();
+		expect(screen.getByRole('textbox')).toHaveValue('Summarize the input');
+	});
+
+	it('should save an edited instruction when the field loses focus', async () => {
+		const actions = createActions();
+		renderProcessor(actions);
+
+		const field = screen.getByRole('textbox');
+		await userEvent.clear(field);
+		await userEvent.type(field, 'List the tasks');
+		await userEvent.tab();
+
+		expect(actions.updateNodeText).toHaveBeenCalledWith('p1', expect.stringContaining('**Instructions:**\nList the tasks\n'));
+	});
+
+	it('should not save an unchanged instruction', async () => {
+		const actions = createActions();
+		renderProcessor(actions);
+
+		await userEvent.click(screen.getByRole('textbox'));
+		await userEvent.tab();
+
+		expect(actions.updateNodeText).not.toHaveBeenCalled();
+	});
+
+	it('should run the processor in the chosen mode', async () => {
+		const actions = createActions();
+		renderProcessor(actions);
+
+		await userEvent.selectOptions(screen.getByRole('combobox'), 'downstream');
+		await userEvent.click(screen.getByRole('button', { name: 'Run' }));
+
+		expect(actions.runProcessor).toHaveBeenCalledWith('p1', 'downstream');
+	});
+
+	it('should offer to stop while running and return to Run afterwards', async () => {
+		let finish: () => void = () => {};
+		const actions = createActions({
+			runProcessor: vi.fn(() => new Promise<void>(resolve => { finish = resolve; })),
+		});
+		renderProcessor(actions);
+
+		await userEvent.click(screen.getByRole('button', { name: 'Run' }));
+		await userEvent.click(screen.getByRole('button', { name: 'Stop' }));
+
+		expect(actions.cancelRuns).toHaveBeenCalled();
+		expect(screen.getByRole('combobox')).toBeDisabled();
+
+		finish();
+		await waitFor(() => expect(screen.getByRole('button', { name: 'Run' })).toBeInTheDocument());
+	});
+});
@@ -0,0 +1,100 @@
+/**
+ * ProcessorNode Component
+ * Card renderer for AI processing nodes in the Flow Canvas
+ */
+
+import * as React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { Position, Node, NodeProps } from '@xyflow/react';
+import { Handle } from './NodeHandle';
+import { parseProcessorNodeText, replaceProcessorInstruction } from '../../utils/nodeContent';
+import { useFlowCanvasActions } from '../../hooks/useFlowCanvasActions';
+import { WORKFLOW_RUN_MODE_LABELS, WorkflowRunMode } from '../../types/workflow';
+
+export type ProcessorNodeData = {
+	text: string;
+	color?: string;
+};
+
+export type ProcessorFlowNode = Node<ProcessorNodeData, 'processor'>;
+
+/**
+ * Shows a processor's instruction in an editable field with a button to run it,
+ * alone or together with the processors upstream or downstream of it.
+ * While running, the button stops the run instead.
+ * Inputs connect on the left, outputs on the right.
+ */
+const ProcessorNodeComponent = ({ id, data, selected }: NodeProps<ProcessorFlowNode>) => {
+	const { runProcessor, cancelRuns, updateNodeText } = useFlowCanvasActions();
+	const { title, instruction } = parseProcessorNodeText(data.text);
+	const [draft, setDraft] = useState(instruction);
+	const [isRunning, setIsRunning] = useState(false);
+	const [runMode, setRunMode] = useState<WorkflowRunMode>('single');
+
+	// Follow changes made outside the card, e.g. in the native canvas
+	useEffect(() => {
+		setDraft(instruction);
+	}, [instruction]);
+
+	const handleBlur = useCallback(() => {
+		if (draft !== instruction) {
+			updateNodeText(id, replaceProcessorInstruction(data.text, draft));
+		}
+	}, [draft, instruction, id, data.text, updateNodeText]);
+
+	const handleRun = useCallback(async () => {
+		setIsRunning(true);
+		try {
+			await runProcessor(id, runMode);
+		} finally {
+			setIsRunning(false);
+		}
+	}, [id, runMode, runProcessor]);
+
+	return (
+		<div className={`flow-workflow-node flow-processor-node${selected ? ' is-selected' : ''}`}>
+			<Handle type="target" position={Position.Left} />
+
+			<div className="flow-workflow-node-header">
+				<span className="flow-workflow-node-icon">⚙️</span>
+				<span className="flow-workflow-node-title">{title}</span>
+			</div>
+
+			{/* nodrag/nowheel let the user select text and scroll without moving the canvas */}
+			<textarea
+				className="flow-processor-node-instruction nodrag nowheel"
+				value={draft}
+				placeholder="Describe what this processor should do..."
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={handleBlur}
+			/>
+
+			<div className="flow-processor-node-actions">
+				<select
+					className="dropdown nodrag"
+					value={runMode}
+					onChange={(e) => setRunMode(e.target.value as WorkflowRunMode)}
+					disabled={isRunning}
+				>
+					{(Object.keys(WORKFLOW_RUN_MODE_LABELS) as WorkflowRunMode[]).map((mode) => (
+						<option key={mode} value={mode}>{WORKFLOW_RUN_MODE_LABELS[mode]}</option>
+					))}
+				</select>
+
+				{isRunning ? (
+					<button className="flow-processor-node-run nodrag mod-warning" onClick={cancelRuns}>
+						Stop
+					</button>
+				) : (
+					<button className="flow-processor-node-run nodrag mod-cta" onClick={handleRun}>
+						Run
+					</button>
+				)}
+			</div>
+
+			<Handle type="source" position={Position.Right} />
+		</div>
+	);
+};
+
+export { ProcessorNodeComponent as ProcessorNode };
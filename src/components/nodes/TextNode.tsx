@@ -4,17 +4,20 @@
  */
 
 import * as React from 'react';
-import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Position, Node, NodeProps } from '@xyflow/react';
+import { Handle } from './NodeHandle';
 
 export type TextNodeData = {
 	text: string;
 	color?: string;
 };
 
+export type TextFlowNode = Node<TextNodeData, 'text'>;
+
 /**
  * Custom text node component for Flow Canvas
  */
-const TextNodeComponent = (props: NodeProps<TextNodeData>) => {
+const TextNodeComponent = (props: NodeProps<TextFlowNode>) => {
 	const { data, selected } = props;
 	const color = data.color || '4'; // Default to green
 
@@ -13,7 +13,7 @@ describe('AgentProvider', () => {
 
   beforeEach(() => {
     mockAIService = {
-      callLMStudio: vi.fn().mockResolvedValue('Mock response')
+      chat: vi.fn().mockResolvedValue('Mock response')
     } as unknown as AIService;
     agentService = new AgentService(mockAIService);
   });
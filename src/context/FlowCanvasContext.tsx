@@ -0,0 +1,30 @@
+import { createContext } from 'react';
+import type { WorkflowRunMode } from '../types/workflow';
+
+/**
+ * Actions that Flow Canvas node components can trigger in the surrounding view.
+ *
+ * @interface FlowCanvasActions
+ * @property {(nodeId: string, mode: WorkflowRunMode) => Promise<void>} runProcessor - Runs a processor node and refreshes the canvas
+ * @property {() => void} cancelRuns - Cancels the workflow runs of the canvas
+ * @property {(nodeId: string, text: string) => void} updateNodeText - Replaces the markdown of a text node
+ * @property {(markdown: string, el: HTMLElement) => void} renderMarkdown - Renders markdown into an element with Obsidian's renderer
+ * @property {(nodeId: string) => boolean} isStale - Whether an output node was written by a processor whose inputs changed since
+ * @property {(nodeId: string) => void} toggleGroup - Collapses a group node to its header, or expands it again
+ */
+export interface FlowCanvasActions {
+	runProcessor: (nodeId: string, mode: WorkflowRunMode) => Promise<void>;
+	cancelRuns: () => void;
+	updateNodeText: (nodeId: string, text: string) => void;
+	renderMarkdown: (markdown: string, el: HTMLElement) => void;
+	isStale: (nodeId: string) => boolean;
+	toggleGroup: (nodeId: string) => void;
+}
+
+/**
+ * React Context that gives node components access to view-level actions.
+ * Node data is saved to the canvas file, so callbacks are shared through context instead.
+ *
+ * @const {React.Context<FlowCanvasActions | undefined>}
+ */
+export const FlowCanvasContext = createContext<FlowCanvasActions | undefined>(undefined);
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { useFlowCanvasActions } from './useFlowCanvasActions';
+import { FlowCanvasContext, FlowCanvasActions } from '../context/FlowCanvasContext';
+
+describe('useFlowCanvasActions', () => {
+	it('should return the actions of the surrounding view', async () => {
+		const actions: FlowCanvasActions = {
+			runProcessor: vi.fn().mockResolvedValue(undefined),
+			cancelRuns: vi.fn(),
+			updateNodeText: vi.fn(),
+			renderMarkdown: vi.fn(),
+			isStale: () => true,
+			toggleGroup: vi.fn(),
+		};
+		const wrapper = ({ children }: { children: ReactNode }) => (
+			<FlowCanvasContext.Provider value={actions}>{children}</FlowCanvasContext.Provider>
+		);
+
+		const { result } = renderHook(() => useFlowCanvasActions(), { wrapper });
+		await result.current.runProcessor('p1', 'upstream');
+
+		expect(result.current).toBe(actions);
+		expect(actions.runProcessor).toHaveBeenCalledWith('p1', 'upstream');
+	});
+
+	it('should throw outside of a FlowCanvasContext.Provider', () => {
+		// React logs the error thrown during render
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		expect(() => renderHook(() => useFlowCanvasActions()))
+			.toThrow('useFlowCanvasActions must be used within FlowCanvasContext.Provider');
+
+		consoleError.mockRestore();
+	});
+});
@@ -0,0 +1,21 @@
+import { useContext } from 'react';
+import { FlowCanvasContext, FlowCanvasActions } from '../context/FlowCanvasContext';
+
+/**
+ * Custom React hook for accessing Flow Canvas view actions from node components.
+ * Must be used within a FlowCanvasContext.Provider component.
+ *
+ * @hook
+ * @returns {FlowCanvasActions} Actions provided by the Flow Canvas view
+ * @throws {Error} If used outside of FlowCanvasContext.Provider
+ * @example
+ * const { runProcessor } = useFlowCanvasActions();
+ * await runProcessor(id);
+ */
+export const useFlowCanvasActions = (): FlowCanvasActions => {
+	const context = useContext(FlowCanvasContext);
+	if (!context) {
+		throw new Error('useFlowCanvasActions must be used within FlowCanvasContext.Provider');
+	}
+	return context;
+};
@@ -3,7 +3,14 @@ import { DEFAULT_SETTINGS, type DailyAIAssistantSettings } from './types';
 import { AIService } from './services/AIService';
 import { CanvasService } from './services/CanvasService';
 import { AIProcessingService } from './services/AIProcessingService';
+import { WorkflowExecutor } from './services/WorkflowExecutor';
+import { RunManager } from './services/RunManager';
+import { ResultCache } from './services/ResultCache';
+import { InputWatcher } from './services/InputWatcher';
+import { NoteOutputService } from './services/NoteOutputService';
+import { PromptTemplateService } from './services/PromptTemplateService';
 import { DailyAIAssistantSettingTab } from './ui/SettingsTab';
+import { NoteDiffModal } from './ui/NoteDiffModal';
 import { registerCommands } from './commands';
 import { CanvasPatcher } from './patchers/CanvasPatcher';
 import { FlowCanvasView, FLOW_CANVAS_VIEW_TYPE, CANVAS_FILE_EXTENSION } from './views/FlowCanvasView';
@@ -28,6 +35,16 @@ export default class DailyAIAssistantPlugin extends Plugin {
 	canvasService: CanvasService;
 	/** Service instance for AI processing workflows on canvas */
 	aiProcessingService: AIProcessingService;
+	/** Executor that runs all processors of a canvas in dependency order */
+	workflowExecutor: WorkflowExecutor;
+	/** Tracks in-flight workflow runs and chat requests so they can be cancelled */
+	runManager: RunManager;
+	/** Cached processor results, stored in the plugin's data folder */
+	resultCache: ResultCache;
+	/** Writes processor results into notes connected as outputs, after a diff preview */
+	noteOutputService: NoteOutputService;
+	/** Re-runs watched canvases when the notes they read change */
+	inputWatcher: InputWatcher;
 	/** Patcher for adding canvas context menu support */
 	canvasPatcher: CanvasPatcher;
 
@@ -42,7 +59,33 @@ export default class DailyAIAssistantPlugin extends Plugin {
 		await this.loadSettings();
 		this.aiService = new AIService(this.app, this.settings);
 		this.canvasService = new CanvasService(this.app);
-		this.aiProcessingService = new AIProcessingService(this.canvasService, this.aiService);
+		this.resultCache = new ResultCache(this.app.vault.adapter, `${this.getDataDir()}/cache`);
+		this.noteOutputService = new NoteOutputService(
+			this.app,
+			(file, before, after) => new NoteDiffModal(this.app, file, before, after).confirm()
+		);
+		this.aiProcessingService = new AIProcessingService(
+			this.canvasService,
+			this.aiService,
+			new PromptTemplateService(this.app, this.settings),
+			this.resultCache,
+			this.noteOutputService
+		);
+		this.workflowExecutor = new WorkflowExecutor(this.canvasService, this.aiProcessingService);
+		this.runManager = new RunManager();
+		this.inputWatcher = new InputWatcher(this);
+		this.inputWatcher.start();
+
+		// Show which canvases re-run automatically
+		const watchStatusEl = this.addStatusBarItem();
+		const updateWatchStatus = () => {
+			const watched = this.inputWatcher.getWatched();
+			watchStatusEl.setText(`👁 ${watched.length} watched canvas${watched.length === 1 ? '' : 'es'}`);
+			watchStatusEl.setAttr('aria-label', `Re-run when their notes change:\n${watched.join('\n')}`);
+			watchStatusEl.toggle(watched.length > 0);
+		};
+		updateWatchStatus();
+		this.register(this.inputWatcher.onChange(updateWatchStatus));
 
 		// Register Flow Canvas view
 		this.registerView(
@@ -97,6 +140,16 @@ export default class DailyAIAssistantPlugin extends Plugin {
 							});
 					});
 
+					menu.addItem((item) => {
+						const watched = this.inputWatcher.isWatched(file);
+						item
+							.setTitle(watched ? 'Stop Watching Inputs' : 'Watch Inputs')
+							.setIcon(watched ? 'eye-off' : 'eye')
+							.onClick(async () => {
+								await this.inputWatcher.setWatched(file, !watched);
+							});
+					});
+
 					menu.addItem((item) => {
 						item
 							.setTitle('Add Output Node')
@@ -120,6 +173,10 @@ export default class DailyAIAssistantPlugin extends Plugin {
 	}
 
 	onunload(): void {
+		// Stop requests that are still running, and runs waiting for edits to settle
+		this.runManager?.cancel();
+		this.inputWatcher?.stop();
+
 		// Clean up canvas patcher
 		if (this.canvasPatcher) {
 			this.canvasPatcher.destroy();
@@ -141,6 +198,13 @@ export default class DailyAIAssistantPlugin extends Plugin {
 		};
 	}
 
+	/**
+	 * Gets the plugin's folder inside the vault configuration folder, where its data is stored
+	 */
+	private getDataDir(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
 	/**
 	 * Loads plugin settings from Obsidian's data storage.
 	 * Merges saved settings with defaults to ensure all properties exist.
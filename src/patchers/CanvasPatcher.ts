@@ -3,8 +3,21 @@
  * Uses DOM manipulation to inject menu items when canvas menus appear
  */
 
-import { setIcon } from 'obsidian';
+import { Notice, TFile, debounce, setIcon } from 'obsidian';
 import type DailyAIAssistantPlugin from '../main';
+import type { CanvasNode, CanvasView } from '../types/obsidian-canvas';
+import type { JSONCanvasNode } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+import { isProcessorNode } from '../utils/nodeRole';
+import { findStaleOutputs, findStaleProcessors } from '../utils/staleness';
+import { findGroupOfNode } from '../utils/canvasGroups';
+import { chooseRunMode, runWorkflow, saveGroupAsStage } from '../commands';
+import { NoteOutputModeSuggestModal } from '../ui/ProcessorSuggestModal';
+
+/**
+ * Delay after the last canvas change before stale markers are refreshed
+ */
+const STALE_REFRESH_DELAY_MS = 500;
 
 export class CanvasPatcher {
 	private plugin: DailyAIAssistantPlugin;
@@ -59,9 +72,45 @@ export class CanvasPatcher {
 			subtree: true,
 		});
 
+		// Flag stale output nodes whenever a canvas is saved or opened
+		const refreshStaleMarkers = debounce(() => this.markStaleNodes(), STALE_REFRESH_DELAY_MS, true);
+		this.plugin.registerEvent(this.plugin.app.vault.on('modify', (file) => {
+			if (file instanceof TFile && file.extension === 'canvas') {
+				refreshStaleMarkers();
+			}
+		}));
+		this.plugin.registerEvent(this.plugin.app.workspace.on('layout-change', refreshStaleMarkers));
+
 		console.log('[AI Canvas] Canvas menu patcher initialized');
 	}
 
+	/**
+	 * Adds the `is-ai-stale` class to the output nodes of open canvases whose
+	 * processor inputs changed since they were written, and removes it from the others.
+	 * Nodes on a branch whose edge condition did not match get the `is-ai-skipped` class.
+	 */
+	private async markStaleNodes(): Promise<void> {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType('canvas')) {
+			const view = leaf.view as unknown as CanvasView;
+			if (!view.file || !view.canvas) continue;
+
+			try {
+				const data = await this.plugin.canvasService.readCanvas(view.file);
+				const stale = findStaleOutputs(data, await findStaleProcessors(data, path => this.plugin.canvasService.getNoteVersion(path)));
+				const skipped = new Set((data.nodes || [])
+					.filter(node => (node as JSONCanvasNode & WorkflowNodeProperties).skipped)
+					.map(node => node.id));
+
+				view.canvas.nodes.forEach((node, id) => {
+					node.nodeEl.toggleClass('is-ai-stale', stale.has(id));
+					node.nodeEl.toggleClass('is-ai-skipped', skipped.has(id) && !stale.has(id));
+				});
+			} catch (error) {
+				console.error('[AI Canvas] Error marking stale nodes:', error);
+			}
+		}
+	}
+
 	private handleMenuAppeared(menuEl: HTMLElement): void {
 		// Check if we're on a canvas view
 		const activeView = this.plugin.app.workspace.getActiveViewOfType(
@@ -106,6 +155,81 @@ export class CanvasPatcher {
 	}
 
 	private addNodeMenuItems(menuEl: HTMLElement): void {
+		// Run the selected processor
+		this.addMenuItem(menuEl, 'play', 'Run this node', async () => {
+			const activeFile = this.plugin.app.workspace.getActiveFile();
+			if (!activeFile || activeFile.extension !== 'canvas') return;
+
+			const nodeId = this.getSelectedNodeId();
+			const data = await this.plugin.canvasService.readCanvas(activeFile);
+			const node = data.nodes?.find((n) => n.id === nodeId);
+
+			if (!node || !isProcessorNode(node)) {
+				new Notice('Select an AI processing node to run');
+				return;
+			}
+
+			chooseRunMode(this.plugin, activeFile, node.id);
+		});
+
+		// Run the selected group, or the group containing the selected node
+		this.addMenuItem(menuEl, 'play-circle', 'Run group', async () => {
+			const activeFile = this.plugin.app.workspace.getActiveFile();
+			if (!activeFile || activeFile.extension !== 'canvas') return;
+
+			const nodeId = this.getSelectedNodeId();
+			const data = await this.plugin.canvasService.readCanvas(activeFile);
+			const group = nodeId ? findGroupOfNode(data, nodeId) : null;
+
+			if (!group) {
+				new Notice('Select a group, or a node inside a group, to run');
+				return;
+			}
+
+			runWorkflow(this.plugin, activeFile, { groupId: group.id });
+		});
+
+		// Save the selected group, or the group containing the selected node, for reuse
+		this.addMenuItem(menuEl, 'package-plus', 'Save group as stage', async () => {
+			const activeFile = this.plugin.app.workspace.getActiveFile();
+			if (!activeFile || activeFile.extension !== 'canvas') return;
+
+			const nodeId = this.getSelectedNodeId();
+			const data = await this.plugin.canvasService.readCanvas(activeFile);
+			const group = nodeId ? findGroupOfNode(data, nodeId) : null;
+
+			if (!group) {
+				new Notice('Select a group, or a node inside a group, to save as a stage');
+				return;
+			}
+
+			saveGroupAsStage(this.plugin, activeFile, group.id);
+		});
+
+		// Choose how results are written into the selected note
+		this.addMenuItem(menuEl, 'file-pen-line', 'Set note output mode', async () => {
+			const activeFile = this.plugin.app.workspace.getActiveFile();
+			if (!activeFile || activeFile.extension !== 'canvas') return;
+
+			const nodeId = this.getSelectedNodeId();
+			const data = await this.plugin.canvasService.readCanvas(activeFile);
+			const node = data.nodes?.find((n) => n.id === nodeId);
+
+			if (!node || node.type !== 'file') {
+				new Notice('Select a note to choose how results are written into it');
+				return;
+			}
+
+			new NoteOutputModeSuggestModal(this.plugin.app, async (mode) => {
+				try {
+					await this.plugin.canvasService.setNoteOutputMode(activeFile, node.id, mode);
+				} catch (error) {
+					console.error('[AI Canvas] Error setting note output mode:', error);
+					new Notice(`Could not set the output mode: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			}).open();
+		});
+
 		// Convert to AI Agent
 		this.addMenuItem(menuEl, 'user', 'Convert to AI Agent', async () => {
 			const activeFile = this.plugin.app.workspace.getActiveFile();
@@ -171,6 +295,19 @@ export class CanvasPatcher {
 		});
 	}
 
+	/**
+	 * Gets the ID of the single node selected in the active canvas, if any
+	 */
+	private getSelectedNodeId(): string | null {
+		const view = this.plugin.app.workspace.getMostRecentLeaf()?.view as unknown as CanvasView | undefined;
+		if (!view || view.getViewType() !== 'canvas') return null;
+
+		const selection = Array.from(view.canvas.selection);
+		if (selection.length !== 1 || !('nodeEl' in selection[0])) return null;
+
+		return (selection[0] as CanvasNode).id;
+	}
+
 	private addMenuItem(
 		menuEl: HTMLElement,
 		icon: string,
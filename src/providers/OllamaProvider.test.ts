@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { requestUrl } from 'obsidian';
+import { OllamaProvider } from './OllamaProvider';
+import { ProviderResponseError } from './http';
+import type { JsonSchema } from '../utils/jsonSchema';
+
+vi.mock('obsidian', () => ({ requestUrl: vi.fn() }));
+
+const options = { model: 'llama3.2', temperature: 0.5, maxTokens: 300 };
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+/**
+ * Builds a streamed response body that arrives in the given chunks
+ */
+const streamOf = (chunks: string[]) => new ReadableStream<Uint8Array>({
+	start(controller) {
+		chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+		controller.close();
+	}
+});
+
+describe('OllamaProvider', () => {
+	const fetchMock = vi.fn();
+	const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434/', apiKey: 'secret' });
+
+	beforeEach(() => {
+		fetchMock.mockReset();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should send the chat body with sampling options and the schema as format', async () => {
+		fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: { content: '{"ok":true}' } })));
+		const jsonSchema: JsonSchema = { type: 'object' };
+
+		const content = await provider.chat(messages, { ...options, jsonSchema });
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('http://localhost:11434/api/chat');
+		expect(init.headers.Authorization).toBe('Bearer secret');
+		expect(JSON.parse(init.body)).toEqual({
+			model: 'llama3.2',
+			messages,
+			stream: false,
+			format: jsonSchema,
+			options: { temperature: 0.5, num_predict: 300 }
+		});
+		expect(content).toBe('{"ok":true}');
+	});
+
+	it('should stream tokens from lines split across chunks, including a final line without newline', async () => {
+		fetchMock.mockResolvedValue(new Response(streamOf([
+			'{"message":{"content":"Hel"}}\n{"message":{"con',
+			'tent":"lo"}}\n',
+			'{"message":{"content":"!"},"done":true}'
+		])));
+		const onToken = vi.fn();
+
+		const content = await provider.stream(messages, options, onToken);
+
+		expect(content).toBe('Hello!');
+		expect(onToken.mock.calls).toEqual([['Hel', 'Hel'], ['lo', 'Hello'], ['!', 'Hello!']]);
+	});
+
+	it('should throw errors the server reports in the stream', async () => {
+		fetchMock.mockResolvedValue(new Response(streamOf(['{"error":"model not found"}\n'])));
+
+		await expect(provider.stream(messages, options, vi.fn())).rejects.toThrow('Ollama error: model not found');
+	});
+
+	it('should name the backend and keep the content received before a malformed line', async () => {
+		fetchMock.mockResolvedValue(new Response(streamOf(['{"message":{"content":"Partial"}}\n<html>Bad Gateway</html>\n'])));
+
+		const error = await provider.stream(messages, options, vi.fn()).catch(caught => caught);
+
+		expect(error).toBeInstanceOf(ProviderResponseError);
+		expect(error.message).toContain('Ollama sent a stream line that is not JSON: <html>');
+		expect(error.content).toBe('Partial');
+	});
+
+	it('should pass the abort signal to fetch and rethrow the abort', async () => {
+		const controller = new AbortController();
+		fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+			init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+		}));
+
+		const request = provider.chat(messages, { ...options, signal: controller.signal });
+		controller.abort();
+
+		await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+	});
+
+	it('should list the names of the installed models', async () => {
+		vi.mocked(requestUrl).mockResolvedValue({ json: { models: [{ name: 'llama3.2' }, { name: 'qwen2.5' }] } } as never);
+
+		expect(await provider.listModels()).toEqual(['llama3.2', 'qwen2.5']);
+		expect(requestUrl).toHaveBeenCalledWith(expect.objectContaining({ url: 'http://localhost:11434/api/tags', method: 'GET' }));
+	});
+});
@@ -0,0 +1,123 @@
+import { requestUrl } from 'obsidian';
+import type { Message } from '../types';
+import type {
+	LLMProvider,
+	ProviderId,
+	ProviderConnection,
+	ChatRequestOptions,
+	TokenCallback
+} from '../types/provider';
+import { parseNDJSONLines } from '../utils/ndjson';
+import { buildHeaders, trimBaseUrl, postJson, postForStream, readTextStream, ProviderResponseError } from './http';
+
+/**
+ * Response of an `/api/chat` request without streaming
+ */
+interface OllamaChatResponse {
+	message?: { content?: string };
+}
+
+/**
+ * One line of a streamed `/api/chat` response
+ */
+interface OllamaStreamChunk extends OllamaChatResponse {
+	error?: string;
+}
+
+/**
+ * Provider for Ollama's native `/api/chat` endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+	readonly id: ProviderId = 'ollama';
+	private baseUrl: string;
+	private apiKey?: string;
+
+	/**
+	 * @param {ProviderConnection} connection - Server URL without the `/api` prefix, e.g. 'http://localhost:11434'
+	 */
+	constructor(connection: ProviderConnection) {
+		this.baseUrl = trimBaseUrl(connection.baseUrl);
+		this.apiKey = connection.apiKey;
+	}
+
+	async chat(messages: Message[], options: ChatRequestOptions): Promise<string> {
+		const response = await postJson(
+			`${this.baseUrl}/api/chat`,
+			buildHeaders(this.apiKey),
+			this.buildBody(messages, options, false),
+			options.signal
+		) as OllamaChatResponse;
+
+		return response.message?.content || '';
+	}
+
+	async stream(messages: Message[], options: ChatRequestOptions, onToken: TokenCallback): Promise<string> {
+		const body = await postForStream(
+			`${this.baseUrl}/api/chat`,
+			buildHeaders(this.apiKey),
+			this.buildBody(messages, options, true),
+			options.signal
+		);
+
+		let buffer = '';
+		let content = '';
+
+		const handleLines = (lines: string[]) => {
+			for (const line of lines) {
+				let chunk: OllamaStreamChunk;
+				try {
+					chunk = JSON.parse(line);
+				} catch {
+					throw new ProviderResponseError(`Ollama sent a stream line that is not JSON: ${line.slice(0, 200)}`, 'Ollama', content);
+				}
+				if (chunk.error) {
+					throw new Error(`Ollama error: ${chunk.error}`);
+				}
+
+				const token = chunk.message?.content ?? '';
+				if (token) {
+					content += token;
+					onToken(token, content);
+				}
+			}
+		};
+
+		await readTextStream(body, (text) => {
+			const parsed = parseNDJSONLines(buffer + text);
+			buffer = parsed.rest;
+			handleLines(parsed.lines);
+		});
+
+		// The final object may not be followed by a newline
+		handleLines(parseNDJSONLines(`${buffer}\n`).lines);
+
+		return content;
+	}
+
+	async listModels(): Promise<string[]> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/api/tags`,
+			method: 'GET',
+			headers: buildHeaders(this.apiKey)
+		});
+
+		return (response.json.models || []).map((model: { name: string }) => model.name);
+	}
+
+	/**
+	 * Builds the request body for the chat endpoint.
+	 * A schema is sent as the `format`, which constrains the reply to matching JSON.
+	 */
+	private buildBody(messages: Message[], options: ChatRequestOptions, stream: boolean) {
+		return {
+			model: options.model,
+			messages,
+			stream,
+			...(options.jsonSchema && { format: options.jsonSchema }),
+			options: {
+				temperature: options.temperature,
+				num_predict: options.maxTokens
+			}
+		};
+	}
+}
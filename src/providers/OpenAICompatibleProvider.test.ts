@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { requestUrl } from 'obsidian';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { HttpError } from './http';
+import type { JsonSchema } from '../utils/jsonSchema';
+
+vi.mock('obsidian', () => ({ requestUrl: vi.fn() }));
+
+const options = { model: 'qwen2.5-7b-instruct', temperature: 0.7, maxTokens: 500 };
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+/**
+ * Builds a streamed response body that arrives in the given chunks
+ */
+const streamOf = (chunks: string[]) => new ReadableStream<Uint8Array>({
+	start(controller) {
+		chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+		controller.close();
+	}
+});
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+describe('OpenAICompatibleProvider', () => {
+	const fetchMock = vi.fn();
+	const provider = new OpenAICompatibleProvider('lmstudio', { baseUrl: 'http://localhost:1234/v1/' });
+
+	beforeEach(() => {
+		fetchMock.mockReset();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should send the chat body with the schema as a json_schema response format', async () => {
+		fetchMock.mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: 'Hi there' } }] })));
+		const jsonSchema: JsonSchema = { type: 'object' };
+
+		const content = await provider.chat(messages, { ...options, jsonSchema });
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('http://localhost:1234/v1/chat/completions');
+		expect(init.headers.Authorization).toBeUndefined();
+		expect(JSON.parse(init.body)).toEqual({
+			model: 'qwen2.5-7b-instruct',
+			messages,
+			temperature: 0.7,
+			max_tokens: 500,
+			stream: false,
+			response_format: { type: 'json_schema', json_schema: { name: 'result', schema: jsonSchema } }
+		});
+		expect(content).toBe('Hi there');
+	});
+
+	it('should return an empty answer when the response has no choices', async () => {
+		fetchMock.mockResolvedValue(new Response(JSON.stringify({})));
+
+		expect(await provider.chat(messages, options)).toBe('');
+	});
+
+	it('should stream tokens from events split across chunks, including a final event without blank line', async () => {
+		fetchMock.mockResolvedValue(new Response(streamOf([
+			`${delta('Hel')}\n\n${delta('l').slice(0, 10)}`,
+			`${delta('l').slice(10)}\n\n`,
+			delta('o')
+		])));
+		const onToken = vi.fn();
+
+		const content = await provider.stream(messages, options, onToken);
+
+		expect(content).toBe('Hello');
+		expect(onToken).toHaveBeenCalledTimes(3);
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+	});
+
+	it('should stop at the done marker', async () => {
+		fetchMock.mockResolvedValue(new Response(streamOf([`${delta('Done')}\n\ndata: [DONE]\n\n`])));
+
+		expect(await provider.stream(messages, options, vi.fn())).toBe('Done');
+	});
+
+	it('should throw an HttpError with the status and body of a failed request', async () => {
+		fetchMock.mockResolvedValue(new Response('model not loaded', { status: 503 }));
+
+		const error = await provider.chat(messages, options).catch(caught => caught);
+
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error.status).toBe(503);
+		expect(error.body).toBe('model not loaded');
+	});
+
+	it('should pass the abort signal to fetch and rethrow the abort', async () => {
+		const controller = new AbortController();
+		fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+			init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+		}));
+
+		const request = provider.stream(messages, { ...options, signal: controller.signal }, vi.fn());
+		controller.abort();
+
+		await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+	});
+
+	it('should list the model IDs the server reports', async () => {
+		vi.mocked(requestUrl).mockResolvedValue({ json: { data: [{ id: 'qwen2.5-7b-instruct' }, { id: 'llama-3.2-3b' }] } } as never);
+
+		expect(await provider.listModels()).toEqual(['qwen2.5-7b-instruct', 'llama-3.2-3b']);
+		expect(requestUrl).toHaveBeenCalledWith(expect.objectContaining({ url: 'http://localhost:1234/v1/models', method: 'GET' }));
+	});
+});
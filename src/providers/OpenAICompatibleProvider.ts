@@ -0,0 +1,114 @@
+import { requestUrl } from 'obsidian';
+import type { Message } from '../types';
+import type {
+	LLMProvider,
+	ProviderId,
+	ProviderConnection,
+	ChatRequestOptions,
+	TokenCallback
+} from '../types/provider';
+import { parseSSEEvents, extractDeltaContent, SSE_DONE } from '../utils/sse';
+import { buildHeaders, trimBaseUrl, postJson, postForStream, readTextStream } from './http';
+
+/**
+ * Response of a chat completions request without streaming
+ */
+interface ChatCompletionResponse {
+	choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Provider for servers that implement the OpenAI chat completions API,
+ * such as LM Studio, the llama.cpp server, vLLM or LocalAI
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly id: ProviderId;
+	private baseUrl: string;
+	private apiKey?: string;
+
+	/**
+	 * @param {ProviderId} id - Identifier of the backend this instance represents
+	 * @param {ProviderConnection} connection - Server URL (including the `/v1` prefix) and API key
+	 */
+	constructor(id: ProviderId, connection: ProviderConnection) {
+		this.id = id;
+		this.baseUrl = trimBaseUrl(connection.baseUrl);
+		this.apiKey = connection.apiKey;
+	}
+
+	async chat(messages: Message[], options: ChatRequestOptions): Promise<string> {
+		const response = await postJson(
+			`${this.baseUrl}/chat/completions`,
+			buildHeaders(this.apiKey),
+			this.buildBody(messages, options, false),
+			options.signal
+		) as ChatCompletionResponse;
+
+		return response.choices?.[0]?.message?.content || '';
+	}
+
+	async stream(messages: Message[], options: ChatRequestOptions, onToken: TokenCallback): Promise<string> {
+		const body = await postForStream(
+			`${this.baseUrl}/chat/completions`,
+			buildHeaders(this.apiKey),
+			this.buildBody(messages, options, true),
+			options.signal
+		);
+
+		let buffer = '';
+		let content = '';
+
+		const handleEvents = (events: string[]) => {
+			for (const data of events) {
+				if (data === SSE_DONE) continue;
+
+				const token = extractDeltaContent(data);
+				if (token) {
+					content += token;
+					onToken(token, content);
+				}
+			}
+		};
+
+		await readTextStream(body, (text) => {
+			const parsed = parseSSEEvents(buffer + text);
+			buffer = parsed.rest;
+			handleEvents(parsed.events);
+		});
+
+		// Some servers do not end the final event with a blank line
+		handleEvents(parseSSEEvents(`${buffer}\n\n`).events);
+
+		return content;
+	}
+
+	async listModels(): Promise<string[]> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/models`,
+			method: 'GET',
+			headers: buildHeaders(this.apiKey)
+		});
+
+		return (response.json.data || []).map((model: { id: string }) => model.id);
+	}
+
+	/**
+	 * Builds the request body for the chat completions endpoint.
+	 * A schema is sent as a `json_schema` response format, which LM Studio and the llama.cpp server enforce.
+	 */
+	private buildBody(messages: Message[], options: ChatRequestOptions, stream: boolean) {
+		return {
+			model: options.model,
+			messages,
+			temperature: options.temperature,
+			max_tokens: options.maxTokens,
+			stream,
+			...(options.jsonSchema && {
+				response_format: {
+					type: 'json_schema',
+					json_schema: { name: 'result', schema: options.jsonSchema }
+				}
+			})
+		};
+	}
+}
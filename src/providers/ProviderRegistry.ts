@@ -0,0 +1,89 @@
+import type { LLMProvider, ProviderConnection, ProviderDefinition, ProviderId } from '../types/provider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OllamaProvider } from './OllamaProvider';
+
+/**
+ * Registry of the LLM backends that can be selected in settings.
+ * Adding a backend only requires registering a new definition here.
+ */
+export class ProviderRegistry {
+	private definitions: Map<ProviderId, ProviderDefinition> = new Map();
+
+	/**
+	 * Registers a backend definition
+	 * @throws {Error} If a backend with the same ID is already registered
+	 */
+	register(definition: ProviderDefinition): void {
+		if (this.definitions.has(definition.id)) {
+			throw new Error(`Provider with ID ${definition.id} already exists`);
+		}
+		this.definitions.set(definition.id, definition);
+	}
+
+	/**
+	 * Gets a backend definition by ID
+	 */
+	get(id: ProviderId): ProviderDefinition | undefined {
+		return this.definitions.get(id);
+	}
+
+	/**
+	 * Gets all registered backend definitions, in registration order
+	 */
+	getAll(): ProviderDefinition[] {
+		return Array.from(this.definitions.values());
+	}
+
+	/**
+	 * Creates a provider instance for a registered backend
+	 * @throws {Error} If the backend is not registered
+	 */
+	create(id: ProviderId, connection: ProviderConnection): LLMProvider {
+		const definition = this.definitions.get(id);
+
+		if (!definition) {
+			throw new Error(`Provider with ID ${id} not found`);
+		}
+
+		return definition.create(connection);
+	}
+}
+
+/**
+ * Creates a registry containing all built-in backends
+ *
+ * @returns {ProviderRegistry} Registry with LM Studio, Ollama, llama.cpp and generic OpenAI-compatible backends
+ */
+export const createDefaultProviderRegistry = (): ProviderRegistry => {
+	const registry = new ProviderRegistry();
+
+	registry.register({
+		id: 'lmstudio',
+		name: 'LM Studio',
+		defaultUrl: 'http://localhost:1234/v1',
+		create: (connection) => new OpenAICompatibleProvider('lmstudio', connection)
+	});
+
+	registry.register({
+		id: 'ollama',
+		name: 'Ollama',
+		defaultUrl: 'http://localhost:11434',
+		create: (connection) => new OllamaProvider(connection)
+	});
+
+	registry.register({
+		id: 'llamacpp',
+		name: 'llama.cpp server',
+		defaultUrl: 'http://localhost:8080/v1',
+		create: (connection) => new OpenAICompatibleProvider('llamacpp', connection)
+	});
+
+	registry.register({
+		id: 'openai-compatible',
+		name: 'Other OpenAI-compatible server',
+		defaultUrl: 'http://localhost:8000/v1',
+		create: (connection) => new OpenAICompatibleProvider('openai-compatible', connection)
+	});
+
+	return registry;
+};
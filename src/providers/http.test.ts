@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { buildHeaders, trimBaseUrl, isAbortError } from './http';
+
+describe('http', () => {
+	it('should add a bearer token only when an API key is set', () => {
+		expect(buildHeaders()).toEqual({ 'Content-Type': 'application/json' });
+		expect(buildHeaders('secret').Authorization).toBe('Bearer secret');
+	});
+
+	it('should remove trailing slashes from base URLs', () => {
+		expect(trimBaseUrl('http://localhost:1234/v1//')).toBe('http://localhost:1234/v1');
+	});
+
+	it('should recognise the error thrown by an aborted fetch', () => {
+		expect(isAbortError(new DOMException('The user aborted a request.', 'AbortError'))).toBe(true);
+		expect(isAbortError(new Error('Request failed'))).toBe(false);
+		expect(isAbortError(null)).toBe(false);
+	});
+});
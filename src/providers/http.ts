@@ -0,0 +1,154 @@
+/**
+ * HTTP helpers shared by the LLM providers
+ */
+
+/**
+ * Builds JSON request headers, adding a bearer token when an API key is set
+ *
+ * @param {string} [apiKey] - Optional API key
+ * @returns {Record<string, string>} Request headers
+ */
+export const buildHeaders = (apiKey?: string): Record<string, string> => {
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (apiKey) {
+		headers['Authorization'] = `Bearer ${apiKey}`;
+	}
+	return headers;
+};
+
+/**
+ * Removes trailing slashes so paths can be appended to a base URL
+ */
+export const trimBaseUrl = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Error for a response with an error status, keeping the status and body
+ * so callers can decide whether the request is worth retrying
+ */
+export class HttpError extends Error {
+	/**
+	 * @param {string} message - Human-readable error message
+	 * @param {number} status - HTTP status code of the response
+	 * @param {string} body - Response body, which often explains the error
+	 */
+	constructor(message: string, readonly status: number, readonly body: string) {
+		super(message);
+		this.name = 'HttpError';
+	}
+}
+
+/**
+ * Error for a response body the provider cannot read, such as a truncated stream
+ * or an error page from a proxy, keeping the content streamed before it
+ */
+export class ProviderResponseError extends Error {
+	/**
+	 * @param {string} message - Human-readable error message, naming the backend
+	 * @param {string} provider - Name of the backend that sent the response
+	 * @param {string} content - Content received before the unreadable part
+	 */
+	constructor(message: string, readonly provider: string, readonly content: string) {
+		super(message);
+		this.name = 'ProviderResponseError';
+	}
+}
+
+/**
+ * Checks whether an error was thrown because a request was aborted
+ *
+ * @param {unknown} error - The caught error
+ * @returns {boolean} True for the `AbortError` fetch throws on an aborted signal
+ */
+export const isAbortError = (error: unknown): boolean => {
+	return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+/**
+ * POSTs a JSON body with fetch.
+ * Chat requests use fetch rather than Obsidian's requestUrl,
+ * because requestUrl buffers the whole response and cannot be aborted.
+ *
+ * @throws {HttpError} If the server responds with an error status
+ * @throws {Error} An `AbortError` if aborted
+ */
+const post = async (
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<Response> => {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers,
+		body: JSON.stringify(body),
+		signal
+	});
+
+	if (!response.ok) {
+		const body = await response.text().catch(() => '');
+		const detail = body ? `: ${body.slice(0, 300)}` : '';
+		throw new HttpError(`Request to ${url} failed with status ${response.status}${detail}`, response.status, body);
+	}
+
+	return response;
+};
+
+/**
+ * POSTs a JSON body and parses the JSON response, which callers narrow to the shape they expect
+ *
+ * @throws {Error} If the server responds with an error status, or an `AbortError` if aborted
+ */
+export const postJson = async (
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<unknown> => {
+	const response = await post(url, headers, body, signal);
+	return response.json();
+};
+
+/**
+ * POSTs a JSON body and returns the response body as a stream
+ *
+ * @throws {Error} If the server responds with an error status, or an `AbortError` if aborted
+ */
+export const postForStream = async (
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> => {
+	const response = await post(url, headers, body, signal);
+
+	if (!response.body) {
+		throw new Error(`Request to ${url} returned no body`);
+	}
+
+	return response.body;
+};
+
+/**
+ * Reads a byte stream to the end, decoding it as UTF-8 text chunk by chunk
+ *
+ * @param {ReadableStream<Uint8Array>} body - The response body
+ * @param {(text: string) => void} onText - Called with every decoded chunk
+ */
+export const readTextStream = async (
+	body: ReadableStream<Uint8Array>,
+	onText: (text: string) => void
+): Promise<void> => {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		onText(decoder.decode(value, { stream: true }));
+	}
+
+	const remaining = decoder.decode();
+	if (remaining) {
+		onText(remaining);
+	}
+};
@@ -1,7 +1,102 @@
 import { TFile } from 'obsidian';
 import { CanvasService } from './CanvasService';
 import { AIService } from './AIService';
-import { JSONCanvasTextNode, JSONCanvasNode } from '../types/jsoncanvas';
+import { ResultCache } from './ResultCache';
+import { NoteOutputService } from './NoteOutputService';
+import { PromptTemplateService } from './PromptTemplateService';
+import { JSONCanvasData, JSONCanvasTextNode, JSONCanvasNode, JSONCanvasFileNode, JSONCanvasEdge } from '../types/jsoncanvas';
+import { getNodeRole, isProcessorNode } from '../utils/nodeRole';
+import { parseAgentNodeText, parseProcessorNodeText } from '../utils/nodeContent';
+import { isAbortError } from '../providers/http';
+import { parseAgentSettings, parseProcessorMode, parseProcessorSchema, parseProcessorSettings } from '../utils/processorConfig';
+import { getCacheKey, sha256 } from '../utils/cacheKey';
+import { getInputHash, getInputHashAfterRun } from '../utils/staleness';
+import { getInputTitle, TemplateInput } from '../utils/promptTemplate';
+import { JsonSchema, validateJson } from '../utils/jsonSchema';
+import { formatStructuredOutput, parseJsonReply } from '../utils/structuredOutput';
+import { mapWithConcurrency, splitMapItems } from '../utils/mapProcessor';
+import { chunkTexts, estimateTokens, formatIntermediateResults } from '../utils/reduceProcessor';
+import { getConditionalEdges, selectBranches } from '../utils/edgeConditions';
+import { getWorkflowEdges, isLoopEdge } from '../utils/workflowGraph';
+import { formatIterationHistory } from '../utils/workflowLoops';
+import { formatPerspectives, getPerspectiveInstruction } from '../utils/perspectives';
+import { PERSONALITY_PROMPTS, type Message } from '../types';
+import type { AgentPersona, EdgeCondition, MapSettings, ProcessorDefinition, ProcessorResult, ProcessorSettings, ReduceSettings, WorkflowNodeProperties } from '../types/workflow';
+
+/**
+ * Minimum time between canvas writes while a response is streaming in
+ */
+const STREAM_WRITE_INTERVAL_MS = 500;
+
+/**
+ * Appended to outputs whose processor was cancelled while writing them
+ */
+const CANCELLED_CALLOUT = '> [!warning] Cancelled\n> The run was cancelled before this output was complete.';
+
+/**
+ * How often a structured processor is asked for a reply that matches its schema before it fails
+ */
+const MAX_SCHEMA_ATTEMPTS = 3;
+
+/**
+ * System prompt of processor requests without an agent
+ */
+const SYSTEM_PROMPT = 'You are a helpful AI assistant that processes information according to instructions.';
+
+/**
+ * Title of the input that holds a loop target's result from the previous iteration
+ */
+const PREVIOUS_RESULT_TITLE = 'Previous result';
+
+/**
+ * Fewest estimated tokens a reduce request must have left for its inputs
+ */
+const MIN_CHUNK_INPUT_TOKENS = 200;
+
+/**
+ * An edge leaving a processor that only carries its result if the condition matches
+ */
+interface OutputBranch {
+	edge: JSONCanvasEdge;
+	condition: EdgeCondition;
+	/** The node the edge leads to, unless it is a processor */
+	node?: JSONCanvasNode;
+}
+
+/**
+ * Everything about a processor run that its requests and output writes need
+ */
+interface ProcessorRun {
+	file: TFile;
+	processorId: string;
+	/** The canvas as it was when the run started */
+	data: JSONCanvasData;
+	/** Versions of the input notes when the run started */
+	noteVersions: Map<string, number | undefined>;
+	/** Nodes the processor writes into, without downstream processors and conditional branches */
+	outputNodes: JSONCanvasNode[];
+	/** Conditional edges, whose nodes are only written once the result is complete */
+	branches: OutputBranch[];
+	schema?: JsonSchema;
+	/** System prompt of the connected agent, or the default one */
+	systemPrompt: string;
+	/** Model settings with the model pinned */
+	settings: Required<ProcessorSettings>;
+	signal?: AbortSignal;
+	/** Send new requests even if cached results exist */
+	refresh: boolean;
+}
+
+/**
+ * Result of a single request, sent or reused from the cache
+ */
+interface RequestResult {
+	content: string;
+	/** Cache key of the request, if results are cached */
+	cacheKey?: string;
+	/** Time of the original run, if the result came from the cache */
+	cachedAt?: string;
+}
 
 /**
  * Service for processing AI nodes in canvas workflows
@@ -9,13 +104,50 @@ import { JSONCanvasTextNode, JSONCanvasNode } from '../types/jsoncanvas';
 export class AIProcessingService {
 	constructor(
 		private canvasService: CanvasService,
-		private aiService: AIService
+		private aiService: AIService,
+		private promptTemplateService: PromptTemplateService,
+		private resultCache?: ResultCache,
+		private noteOutputService?: NoteOutputService
 	) {}
 
 	/**
-	 * Processes an AI node by taking its inputs, running them through AI, and updating outputs
+	 * Processes an AI node by taking its inputs, running them through AI, and updating outputs.
+	 * The instruction is rendered as a template first; inputs it does not place
+	 * with `{{input.<title>}}` or `{{inputs}}` are appended after it.
+	 * Processors that declare a schema reply with JSON, which is validated and
+	 * rendered as a table or list in the output nodes.
+	 * Inputs that are themselves processors are read from `upstreamResults`, or from the
+	 * cached result of their last run if they are not part of this run.
+	 * Processors connected as outputs are left untouched, and notes connected
+	 * as outputs are only written once the result is complete.
+	 * Outputs behind an edge labelled with a condition, such as `if: positive` or `else`,
+	 * only receive the complete result if it matches; the others are marked as skipped.
+	 * Processors looping back into this one are read from `upstreamResults` only, and once
+	 * the loop repeats, this processor's own result of the previous iteration is added as an input.
+	 * When the instruction, inputs and model settings match an earlier run,
+	 * the cached result is written instead of sending a new request.
+	 * Every successful run is recorded on the processor node for stale detection.
+	 * Processors declaring `mode: map` run once per input, list item or section instead,
+	 * and processors declaring `mode: reduce` condense inputs too large for one request in chunks.
+	 * An agent node connected as an input is not read as one; it supplies the system prompt
+	 * and model settings instead, which the processor's own settings override. With several
+	 * agents connected, each agent gives its perspective first and the processor combines them.
+	 *
+	 * @param file - The canvas file
+	 * @param processingNodeId - ID of the processor node to run
+	 * @param upstreamResults - Results of processors that already ran, keyed by processor ID
+	 * @param signal - Aborts the request; the partial output is then marked as cancelled
+	 * @param refresh - Send a new request even if a cached result exists
+	 * @returns The AI result, as JSON for structured processors, whether it came from the cache and which edges it skipped
+	 * @throws {Error} If the node is not connected, a template value, agent setting or edge condition is invalid or the request fails, or an `AbortError` if aborted
 	 */
-	async processAINode(file: TFile, processingNodeId: string): Promise<void> {
+	async processAINode(
+		file: TFile,
+		processingNodeId: string,
+		upstreamResults: Map<string, string> = new Map(),
+		signal?: AbortSignal,
+		refresh = false
+	): Promise<ProcessorResult> {
 		// Get the processing node content to understand what to do
 		const processingNodeContent = await this.canvasService.getNodeContent(file, processingNodeId);
 
@@ -31,59 +163,681 @@ export class AIProcessingService {
 		}
 
 		// Get output nodes
-		const outputNodes = await this.canvasService.getOutputNodes(file, processingNodeId);
+		const connectedNodes = await this.canvasService.getOutputNodes(file, processingNodeId);
 
-		if (outputNodes.length === 0) {
+		if (connectedNodes.length === 0) {
 			throw new Error(`No output nodes connected to ${processingNodeId}`);
 		}
 
+		// Keep the canvas and note versions as they are now, before the outputs are rewritten
+		const data = await this.canvasService.readCanvas(file);
+		const noteVersions = new Map(inputNodes
+			.filter((node): node is JSONCanvasFileNode => node.type === 'file')
+			.map(node => [node.file, this.canvasService.getNoteVersion(node.file)] as [string, number | undefined]));
+
+		// Downstream processors read our result directly, so never overwrite them
+		const branches: OutputBranch[] = getConditionalEdges(getWorkflowEdges(data), processingNodeId)
+			.map(branch => ({
+				...branch,
+				node: connectedNodes.find(node => node.id === branch.edge.toNode && !isProcessorNode(node))
+			}));
+		const outputNodes = connectedNodes.filter(node =>
+			!isProcessorNode(node) && !branches.some(branch => branch.edge.toNode === node.id));
+
+		// Processors looping back into this one only contribute once the loop repeats,
+		// and are kept while empty so templates can place them from the first iteration on
+		const loopSources = new Set(getWorkflowEdges(data)
+			.filter(edge => edge.toNode === processingNodeId && isLoopEdge(edge))
+			.map(edge => edge.fromNode));
+
+		// Agents lend the processor their persona instead of being read as inputs
+		const agents = inputNodes
+			.filter(node => node.type === 'text' && getNodeRole(node) === 'agent')
+			.map(node => this.getPersona(node as JSONCanvasTextNode));
+
 		// Collect input content
-		const inputContents = inputNodes
-			.filter(node => node.type === 'text')
-			.map(node => (node as JSONCanvasTextNode).text)
-			.join('\n\n---\n\n');
+		const templateInputs: TemplateInput[] = [];
+		if (loopSources.size > 0 && !loopSources.has(processingNodeId)) {
+			// Only a repeating loop runs a processor twice in one run
+			templateInputs.push({ title: PREVIOUS_RESULT_TITLE, content: upstreamResults.get(processingNodeId) ?? '' });
+		}
+		for (const node of inputNodes) {
+			if (node.type === 'text' && getNodeRole(node) === 'agent') continue;
+
+			const content = loopSources.has(node.id)
+				? upstreamResults.get(node.id) ?? ''
+				: await this.readInput(node, upstreamResults);
+			if (content.trim() || loopSources.has(node.id)) {
+				templateInputs.push({ title: getInputTitle(node), content });
+			}
+		}
 
-		// Extract instruction from processing node
-		const instruction = this.extractInstruction(processingNodeContent);
+		// Extract instruction and model settings from processing node
+		const { instruction: template, settings, schema, map, reduce } = this.extractInstruction(processingNodeContent);
 
-		// Build prompt for AI
-		const prompt = this.buildPrompt(instruction, inputContents);
+		if (agents.length > 1 && (map || reduce)) {
+			throw new Error('Processors with several agents connected cannot use mode: map or mode: reduce');
+		}
 
-		// Process with AI
-		const result = await this.processWithAI(prompt);
+		// Pin the model so the cache key matches the model that answers; the processor's own settings win over its agent's
+		const agent = agents.length === 1 ? agents[0] : undefined;
+		const { model, temperature, maxTokens } = await this.aiService.getRequestOptions({ ...agent?.settings, ...settings });
 
-		// Update all output nodes with the result
-		for (const outputNode of outputNodes) {
-			const outputContent = `# ${this.getNodeTitle(outputNode)}\n\n${result}`;
-			await this.canvasService.updateOutputNode(file, outputNode.id, outputContent);
+		const run: ProcessorRun = {
+			file,
+			processorId: processingNodeId,
+			data,
+			noteVersions,
+			outputNodes,
+			branches,
+			schema,
+			systemPrompt: agent?.systemPrompt ?? SYSTEM_PROMPT,
+			settings: { model, temperature, maxTokens },
+			signal,
+			refresh
+		};
+
+		if (agents.length > 1) return this.runPerspectives(run, template, templateInputs, agents);
+		if (map) return this.runMap(run, template, templateInputs, map);
+		if (reduce) return this.runReduce(run, template, templateInputs, reduce);
+		return this.runSingle(run, template, templateInputs);
+	}
+
+	/**
+	 * Runs a processor once on all of its inputs, filling the output nodes in as the response streams in
+	 */
+	private async runSingle(run: ProcessorRun, template: string, inputs: TemplateInput[]): Promise<ProcessorResult> {
+		// Fail on missing template values before anything is sent
+		const rendered = await this.promptTemplateService.render(run.data, template, inputs);
+
+		let lastWrite = 0;
+		let pendingWrite: Promise<void> = Promise.resolve();
+		let received = '';
+
+		let result: RequestResult;
+		try {
+			result = await this.request(run, rendered.text, rendered.unusedInputs.map(input => input.content), (partial) => {
+				received = partial;
+
+				const now = Date.now();
+				if (now - lastWrite < STREAM_WRITE_INTERVAL_MS) return;
+				lastWrite = now;
+
+				// Chain writes so a slow write is never overtaken by a newer one
+				pendingWrite = pendingWrite
+					.then(() => this.writeOutputs(run.file, run.outputNodes, `${partial} ▍`))
+					.catch(error => console.warn('Error writing partial output:', error));
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				await pendingWrite;
+				await this.writeOutputs(run.file, run.outputNodes, `${received}\n\n${CANCELLED_CALLOUT}`.trimStart());
+			}
+			throw error;
+		}
+
+		await pendingWrite;
+
+		// Update all output nodes with the final result
+		const display = this.formatResult(result.content, run.schema);
+		await this.writeOutputs(run.file, run.outputNodes, display, result.cachedAt);
+		await this.writeNotes(run.outputNodes, display);
+		const skippedEdges = await this.writeBranches(run, result.content, display, display, result.cachedAt);
+		await this.recordRun(run, result.cacheKey);
+
+		return { content: result.content, cached: result.cachedAt !== undefined, skippedEdges };
+	}
+
+	/**
+	 * Runs a map processor once per item, a few items at a time.
+	 * Every item is requested and cached on its own, so changing one input only re-runs that item.
+	 * Results go into one output node per item, or all into each output under a heading per item.
+	 */
+	private async runMap(run: ProcessorRun, template: string, inputs: TemplateInput[], map: MapSettings): Promise<ProcessorResult> {
+		const items = splitMapItems(inputs, map.split);
+
+		if (items.length === 0) {
+			throw new Error(`No ${map.split === 'sections' ? 'sections' : 'list items'} found in the inputs to map over`);
+		}
+
+		// Render every item first, so a missing template value fails before any request
+		const prompts = await Promise.all(items.map(item => this.promptTemplateService.render(run.data, template, [item])));
+		const itemNodes = map.outputs === 'separate' ? await this.getItemOutputNodes(run, items) : [];
+
+		const results: RequestResult[] = new Array(items.length);
+		let pendingWrite: Promise<void> = Promise.resolve();
+
+		// Chain writes so a slow write is never overtaken by a newer one
+		const queueWrite = (write: () => Promise<void>) => {
+			pendingWrite = pendingWrite
+				.then(write)
+				.catch(error => console.warn('Error writing map output:', error));
+		};
+
+		try {
+			await mapWithConcurrency(prompts, map.concurrency, async (rendered, index) => {
+				const result = await this.request(run, rendered.text, rendered.unusedInputs.map(input => input.content));
+				results[index] = result;
+
+				if (map.outputs === 'separate') {
+					const content = `# ${items[index].title}\n\n${this.formatResult(result.content, run.schema)}`;
+					queueWrite(() => this.canvasService.updateOutputNode(run.file, itemNodes[index].id, content, result.cachedAt));
+				} else {
+					const done = results.filter(Boolean).length;
+					const progress = `*⏳ ${done} of ${items.length} items done* ▍\n\n${this.combineResults(items, results, run.schema).display}`;
+					queueWrite(() => this.writeOutputs(run.file, run.outputNodes, progress));
+				}
+			});
+		} catch (error) {
+			if (isAbortError(error) && map.outputs === 'combined') {
+				await pendingWrite;
+				const partial = this.combineResults(items, results, run.schema).display;
+				await this.writeOutputs(run.file, run.outputNodes, `${partial}\n\n${CANCELLED_CALLOUT}`.trimStart());
+			}
+			throw error;
+		}
+
+		await pendingWrite;
+
+		const { content, display } = this.combineResults(items, results, run.schema);
+		const cached = results.every(result => result.cachedAt !== undefined);
+
+		const cachedAt = cached ? results[0].cachedAt : undefined;
+		if (map.outputs === 'combined') {
+			await this.writeOutputs(run.file, run.outputNodes, display, cachedAt);
+		}
+		await this.writeNotes(run.outputNodes, display);
+		const skippedEdges = await this.writeBranches(run, content, display, display, cachedAt);
+
+		// Cache the combined result too, so partial runs can read it as an upstream result
+		const itemKeys = results.map(result => result.cacheKey);
+		let resultKey: string | undefined;
+		if (this.resultCache && itemKeys.every(key => key)) {
+			resultKey = await sha256(JSON.stringify(['map', itemKeys]));
+			await this.storeResult(resultKey, content, run.settings.model);
 		}
+		await this.recordRun(run, resultKey);
+
+		return { content, cached, skippedEdges };
 	}
 
 	/**
-	 * Extracts the instruction from a processing node's content
+	 * Runs a reduce processor on inputs that may not fit into one request.
+	 * The inputs are split into chunks within the token budget and each chunk is condensed;
+	 * the condensed parts are combined level by level until they fit into the final request.
+	 * Every request is cached, and the intermediate results are kept in folded callouts below the result.
 	 */
-	private extractInstruction(content: string): string {
-		// Look for content between the title and the separator
-		const lines = content.split('\n');
-		const instructionLines: string[] = [];
-		let capturing = false;
+	private async runReduce(run: ProcessorRun, template: string, inputs: TemplateInput[], reduce: ReduceSettings): Promise<ProcessorResult> {
+		// Fail on missing template values before anything is sent
+		const rendered = await this.promptTemplateService.render(run.data, template, inputs);
+		const instruction = rendered.text;
+
+		// Leave room for the longest instruction a request gets and the system prompt with the schema
+		const overhead = estimateTokens(this.buildPrompt(this.getReduceInstruction(instruction, 2), ' ')) +
+			estimateTokens(run.systemPrompt) + (run.schema ? estimateTokens(JSON.stringify(run.schema)) : 0);
+		const budget = reduce.chunkTokens - overhead;
+
+		if (budget < MIN_CHUNK_INPUT_TOKENS) {
+			throw new Error(`The instruction leaves no room for inputs within chunk_tokens: ${reduce.chunkTokens}`);
+		}
+
+		const partRun: ProcessorRun = { ...run, schema: undefined };
+		const levels: string[][] = [];
+		let chunks = chunkTexts(rendered.unusedInputs.map(input => input.content), budget);
+		let pendingWrite: Promise<void> = Promise.resolve();
 
-		for (const line of lines) {
-			if (line.includes('**AI Processing Node**')) {
-				capturing = true;
-				continue;
+		// Chain writes so a slow write is never overtaken by a newer one
+		const queueWrite = (content: string) => {
+			pendingWrite = pendingWrite
+				.then(() => this.writeOutputs(run.file, run.outputNodes, content))
+				.catch(error => console.warn('Error writing reduce progress:', error));
+		};
+
+		let result: RequestResult;
+		try {
+			while (chunks.length > 1) {
+				const level = levels.length + 1;
+				const summaries: string[] = [];
+
+				for (let index = 0; index < chunks.length; index++) {
+					queueWrite(`*⏳ Level ${level}: condensing part ${index + 1} of ${chunks.length}* ▍\n\n${formatIntermediateResults(levels)}`);
+					const summary = await this.request(partRun, this.getReduceInstruction(instruction, level), chunks[index]);
+					summaries.push(summary.content);
+				}
+				levels.push(summaries);
+
+				const next = chunkTexts(summaries, budget);
+				if (next.length >= chunks.length) {
+					throw new Error('The condensed parts are not getting shorter; raise chunk_tokens or lower max_tokens');
+				}
+				chunks = next;
 			}
 
-			if (line.includes('---')) {
-				break;
+			const intermediate = formatIntermediateResults(levels);
+			let lastWrite = 0;
+			result = await this.request(run, this.getReduceInstruction(instruction, 0, levels.length > 0), chunks[0] ?? [], (partial) => {
+				const now = Date.now();
+				if (now - lastWrite < STREAM_WRITE_INTERVAL_MS) return;
+				lastWrite = now;
+				queueWrite(`${partial} ▍\n\n${intermediate}`);
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				await pendingWrite;
+				await this.writeOutputs(run.file, run.outputNodes, `${CANCELLED_CALLOUT}\n\n${formatIntermediateResults(levels)}`.trim());
 			}
+			throw error;
+		}
 
-			if (capturing && line.trim()) {
-				instructionLines.push(line.trim());
+		await pendingWrite;
+
+		const display = this.formatResult(result.content, run.schema);
+		const text = `${display}\n\n${formatIntermediateResults(levels)}`.trim();
+		await this.writeOutputs(run.file, run.outputNodes, text, result.cachedAt);
+		await this.writeNotes(run.outputNodes, display);
+		const skippedEdges = await this.writeBranches(run, result.content, text, display, result.cachedAt);
+		await this.recordRun(run, result.cacheKey);
+
+		return { content: result.content, cached: result.cachedAt !== undefined, skippedEdges };
+	}
+
+	/**
+	 * Runs a processor with several agents connected. Each agent first gives its own perspective
+	 * on the inputs, or on the task if there are none, speaking with its system prompt and settings; the processor then combines the
+	 * perspectives, which it can place with `{{input.<agent name>}}`, and they are kept in folded
+	 * callouts below the result. Every request is cached on its own.
+	 */
+	private async runPerspectives(
+		run: ProcessorRun,
+		template: string,
+		inputs: TemplateInput[],
+		agents: AgentPersona[]
+	): Promise<ProcessorResult> {
+		// Fail on missing template values before anything is sent
+		const task = await this.promptTemplateService.render(run.data, template, [
+			...inputs,
+			...agents.map(agent => ({ title: agent.name, content: '' }))
+		]);
+		const instruction = getPerspectiveInstruction(task.text, inputs);
+
+		const perspectives: TemplateInput[] = [];
+		let pendingWrite: Promise<void> = Promise.resolve();
+
+		// Chain writes so a slow write is never overtaken by a newer one
+		const queueWrite = (content: string) => {
+			pendingWrite = pendingWrite
+				.then(() => this.writeOutputs(run.file, run.outputNodes, content))
+				.catch(error => console.warn('Error writing perspective progress:', error));
+		};
+
+		let result: RequestResult;
+		try {
+			for (const agent of agents) {
+				queueWrite(`*⏳ ${agent.name} is giving a perspective* ▍\n\n${formatPerspectives(perspectives)}`);
+
+				const { model, temperature, maxTokens } = await this.aiService.getRequestOptions(agent.settings);
+				const agentRun: ProcessorRun = {
+					...run,
+					schema: undefined,
+					systemPrompt: agent.systemPrompt,
+					settings: { model, temperature, maxTokens }
+				};
+				const perspective = await this.request(agentRun, instruction, inputs.map(input => input.content));
+				perspectives.push({ title: agent.name, content: perspective.content });
+			}
+
+			const rendered = await this.promptTemplateService.render(run.data, template, [...inputs, ...perspectives]);
+			const intermediate = formatPerspectives(perspectives);
+			let lastWrite = 0;
+			result = await this.request(run, rendered.text, rendered.unusedInputs.map(input => input.content), (partial) => {
+				const now = Date.now();
+				if (now - lastWrite < STREAM_WRITE_INTERVAL_MS) return;
+				lastWrite = now;
+				queueWrite(`${partial} ▍\n\n${intermediate}`);
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				await pendingWrite;
+				await this.writeOutputs(run.file, run.outputNodes, `${CANCELLED_CALLOUT}\n\n${formatPerspectives(perspectives)}`.trim());
 			}
+			throw error;
 		}
 
-		return instructionLines.join('\n') || 'Process the input and provide insights.';
+		await pendingWrite;
+
+		const display = this.formatResult(result.content, run.schema);
+		const text = `${display}\n\n${formatPerspectives(perspectives)}`.trim();
+		await this.writeOutputs(run.file, run.outputNodes, text, result.cachedAt);
+		await this.writeNotes(run.outputNodes, display);
+		const skippedEdges = await this.writeBranches(run, result.content, text, display, result.cachedAt);
+		await this.recordRun(run, result.cacheKey);
+
+		return { content: result.content, cached: result.cachedAt !== undefined, skippedEdges };
+	}
+
+	/**
+	 * Gets the instruction of a reduce request: condensing one part of the inputs (level 1),
+	 * merging condensed parts (higher levels), or answering from condensed parts (level 0)
+	 */
+	private getReduceInstruction(instruction: string, level: number, condensed = false): string {
+		if (level === 1) {
+			return `${instruction}\n\nThe input below is one part of a larger input that is too long to process at once. ` +
+				'Condense everything in this part that is relevant to the instruction above, so the parts can be combined later.';
+		}
+		if (level > 1) {
+			return `${instruction}\n\nThe inputs below are condensed notes on different parts of a larger input. ` +
+				'Merge them into one set of condensed notes relevant to the instruction above.';
+		}
+		return condensed
+			? `${instruction}\n\nThe inputs below are condensed notes covering all parts of the original input.`
+			: instruction;
+	}
+
+	/**
+	 * Gets one output text node per map item, in canvas order from top to bottom.
+	 * Missing nodes are created below the last one and connected to the processor.
+	 */
+	private async getItemOutputNodes(run: ProcessorRun, items: TemplateInput[]): Promise<JSONCanvasNode[]> {
+		const nodes = run.outputNodes
+			.filter(node => node.type === 'text')
+			.sort((a, b) => a.y - b.y || a.x - b.x);
+
+		const processor = run.data.nodes?.find(node => node.id === run.processorId);
+		let next = nodes.length > 0
+			? { x: nodes[nodes.length - 1].x, y: nodes[nodes.length - 1].y + nodes[nodes.length - 1].height + 40 }
+			: { x: (processor?.x ?? 0) + (processor?.width ?? 0) + 100, y: processor?.y ?? 0 };
+
+		for (let index = nodes.length; index < items.length; index++) {
+			const id = `ai-output-${Date.now()}-${index}`;
+			await this.canvasService.addOutputNode(run.file, id, items[index].title, next);
+			await this.canvasService.addConnection(run.file, run.processorId, id);
+
+			const node = (await this.canvasService.readCanvas(run.file)).nodes!.find(created => created.id === id)!;
+			nodes.push(node);
+			next = { x: node.x, y: node.y + node.height + 40 };
+		}
+
+		return nodes;
+	}
+
+	/**
+	 * Combines the results of the map items that finished.
+	 * Structured results are combined into a JSON array, others under a heading per item.
+	 */
+	private combineResults(
+		items: TemplateInput[],
+		results: (RequestResult | undefined)[],
+		schema?: JsonSchema
+	): { content: string; display: string } {
+		const finished = items
+			.map((item, index) => ({ item, result: results[index] }))
+			.filter((entry): entry is { item: TemplateInput; result: RequestResult } => entry.result !== undefined);
+
+		if (schema) {
+			const values = finished.map(({ result }) => parseJsonReply(result.content));
+			return { content: JSON.stringify(values, null, 2), display: formatStructuredOutput(values) };
+		}
+
+		const content = finished
+			.map(({ item, result }) => `## ${item.title}\n\n${result.content.trim()}`)
+			.join('\n\n');
+		return { content, display: content };
+	}
+
+	/**
+	 * Sends one processor request, or reuses the cached result of an identical earlier request.
+	 * New results are cached before they are returned.
+	 */
+	private async request(
+		run: ProcessorRun,
+		instruction: string,
+		contents: string[],
+		onPartial: (content: string) => void = () => {}
+	): Promise<RequestResult> {
+		const { model, temperature, maxTokens } = run.settings;
+		// Loop inputs are empty until the loop repeats
+		const inputs = contents.filter(content => content.trim());
+		const cacheKey = this.resultCache
+			? await getCacheKey({
+				instruction,
+				inputs,
+				model,
+				temperature,
+				maxTokens,
+				schema: run.schema,
+				// Leave the default prompt out so results cached before agents existed stay valid
+				systemPrompt: run.systemPrompt === SYSTEM_PROMPT ? undefined : run.systemPrompt
+			})
+			: undefined;
+
+		if (cacheKey && !run.refresh) {
+			const cached = await this.resultCache!.get(cacheKey);
+			if (cached) {
+				return { content: cached.content, cacheKey, cachedAt: cached.createdAt };
+			}
+		}
+
+		// Build prompt for AI
+		const prompt = this.buildPrompt(instruction, inputs.join('\n\n---\n\n'));
+		const content = run.schema
+			? await this.processStructured(prompt, run.systemPrompt, run.settings, run.schema, run.signal)
+			: await this.processWithAI(prompt, run.systemPrompt, run.settings, run.signal, onPartial);
+
+		if (cacheKey) {
+			await this.storeResult(cacheKey, content, model);
+		}
+
+		return { content, cacheKey };
+	}
+
+	/**
+	 * Reads the content an input node contributes to the prompt.
+	 * Processors contribute their result, file nodes the note they point at;
+	 * links and groups contribute nothing.
+	 */
+	private async readInput(node: JSONCanvasNode & WorkflowNodeProperties, upstreamResults: Map<string, string>): Promise<string> {
+		// Nodes on a branch that was not taken hold no result
+		if (node.skipped) return '';
+
+		if (node.type === 'file') {
+			return this.aiService.getFileNodeContent(node as JSONCanvasFileNode);
+		}
+		if (node.type !== 'text') return '';
+
+		return isProcessorNode(node)
+			? upstreamResults.get(node.id) ?? await this.getPreviousResult(node)
+			: (node as JSONCanvasTextNode).text;
+	}
+
+	/**
+	 * Gets the result of a processor's last run from the cache,
+	 * for processors that are read from but not part of the current run
+	 */
+	private async getPreviousResult(node: JSONCanvasNode & WorkflowNodeProperties): Promise<string> {
+		if (!this.resultCache || !node.resultKey) return '';
+
+		const cached = await this.resultCache.get(node.resultKey);
+		return cached?.content ?? '';
+	}
+
+	/**
+	 * Reads the persona of an agent node. An empty system prompt falls back to
+	 * the agent's personality preset, then to the default processor prompt.
+	 */
+	private getPersona(node: JSONCanvasTextNode): AgentPersona {
+		const { name, systemPrompt, personality } = parseAgentNodeText(node.text);
+
+		return {
+			name: name || 'Agent',
+			systemPrompt: systemPrompt || (personality ? PERSONALITY_PROMPTS[personality] : SYSTEM_PROMPT),
+			settings: parseAgentSettings(node.text)
+		};
+	}
+
+	/**
+	 * Caches a processor result.
+	 * The result is already on the canvas, so a failure to cache it is only logged.
+	 */
+	private async storeResult(cacheKey: string, content: string, model: string): Promise<void> {
+		try {
+			await this.resultCache!.set(cacheKey, { content, model, createdAt: new Date().toISOString() });
+		} catch (error) {
+			console.warn('Error caching processor result:', error);
+		}
+	}
+
+	/**
+	 * Writes an error callout into the output nodes of a processor that failed,
+	 * so the failure is visible on the canvas
+	 *
+	 * @param file - The canvas file
+	 * @param processingNodeId - ID of the processor node that failed
+	 * @param message - The error message
+	 */
+	async writeError(file: TFile, processingNodeId: string, message: string): Promise<void> {
+		const connectedNodes = await this.canvasService.getOutputNodes(file, processingNodeId);
+		const outputNodes = connectedNodes.filter(node => !isProcessorNode(node));
+		const quoted = message.split('\n').map(line => `> ${line}`).join('\n');
+
+		await this.writeOutputs(file, outputNodes, `> [!error] Processing failed\n${quoted}`);
+	}
+
+	/**
+	 * Adds the results of a processor's earlier loop iterations below the result in its output nodes
+	 *
+	 * @param file - The canvas file
+	 * @param processingNodeId - ID of the processor node in the loop
+	 * @param results - Results of the earlier iterations, from the first on, as returned by `processAINode`
+	 */
+	async writeHistory(file: TFile, processingNodeId: string, results: string[]): Promise<void> {
+		const processingNodeContent = await this.canvasService.getNodeContent(file, processingNodeId);
+		const schema = processingNodeContent ? this.extractInstruction(processingNodeContent).schema : undefined;
+		const history = formatIterationHistory(results.map(result => this.formatResult(result, schema)));
+		const connectedNodes = await this.canvasService.getOutputNodes(file, processingNodeId);
+
+		for (const node of connectedNodes as (JSONCanvasNode & WorkflowNodeProperties)[]) {
+			if (node.type !== 'text' || isProcessorNode(node) || node.skipped) continue;
+
+			const text = (node as JSONCanvasTextNode).text;
+			await this.canvasService.updateOutputNode(file, node.id, `${text}\n\n${history}`, node.cachedAt);
+		}
+	}
+
+	/**
+	 * Marks a processor on a branch that was not taken as skipped. Its output nodes say so,
+	 * and the run is recorded so the processor is not shown as stale.
+	 *
+	 * @param file - The canvas file
+	 * @param processingNodeId - ID of the skipped processor node
+	 */
+	async skipProcessor(file: TFile, processingNodeId: string): Promise<void> {
+		const data = await this.canvasService.readCanvas(file);
+		const connectedNodes = await this.canvasService.getOutputNodes(file, processingNodeId);
+		const outputNodes = connectedNodes.filter(node => !isProcessorNode(node));
+
+		await this.writeSkipped(file, outputNodes, 'This processor is on a branch whose condition did not match.');
+		const inputHash = await getInputHash(data, processingNodeId, path => this.canvasService.getNoteVersion(path));
+		await this.canvasService.recordProcessorRun(file, processingNodeId, inputHash, undefined, true);
+	}
+
+	/**
+	 * Records a successful run on the processor, hashing its inputs with the versions
+	 * of the notes it wrote itself
+	 */
+	private async recordRun(run: ProcessorRun, cacheKey?: string): Promise<void> {
+		const inputHash = await getInputHashAfterRun(
+			run.data,
+			run.processorId,
+			path => run.noteVersions.get(path),
+			path => this.canvasService.getNoteVersion(path)
+		);
+		await this.canvasService.recordProcessorRun(run.file, run.processorId, inputHash, cacheKey);
+	}
+
+	/**
+	 * Writes a complete result into the nodes on the branches it takes,
+	 * and marks the nodes on the other branches as skipped
+	 *
+	 * @returns IDs of the edges whose condition did not match
+	 */
+	private async writeBranches(run: ProcessorRun, content: string, text: string, display: string, cachedAt?: string): Promise<string[]> {
+		if (run.branches.length === 0) return [];
+
+		const { taken, skipped } = selectBranches(run.branches, content);
+		const takenNodes = taken.flatMap(branch => branch.node ? [branch.node] : []);
+
+		await this.writeOutputs(run.file, takenNodes, text, cachedAt);
+		await this.writeNotes(takenNodes, display);
+
+		for (const branch of skipped) {
+			// A node reached by a taken branch too keeps the result
+			if (!branch.node || takenNodes.includes(branch.node)) continue;
+			await this.writeSkipped(run.file, [branch.node], `The condition \`${branch.edge.label?.trim()}\` did not match the result.`);
+		}
+
+		return skipped.map(branch => branch.edge.id);
+	}
+
+	/**
+	 * Replaces the content of output text nodes with a note saying why they were skipped
+	 */
+	private async writeSkipped(file: TFile, outputNodes: JSONCanvasNode[], reason: string): Promise<void> {
+		for (const outputNode of outputNodes) {
+			if (outputNode.type !== 'text') continue;
+
+			const outputContent = `# ${this.getNodeTitle(outputNode)}\n\n> [!info] Skipped\n> ${reason}`;
+			await this.canvasService.updateOutputNode(file, outputNode.id, outputContent, undefined, true);
+		}
+	}
+
+	/**
+	 * Writes content into every output text node, prefixed with the node's title.
+	 * `cachedAt` marks content reused from the cache with the time of its original run.
+	 */
+	private async writeOutputs(file: TFile, outputNodes: JSONCanvasNode[], content: string, cachedAt?: string): Promise<void> {
+		for (const outputNode of outputNodes) {
+			// Notes only receive complete results, through writeNotes
+			if (outputNode.type === 'file') continue;
+
+			const outputContent = `# ${this.getNodeTitle(outputNode)}\n\n${content}`;
+			await this.canvasService.updateOutputNode(file, outputNode.id, outputContent, cachedAt);
+		}
+	}
+
+	/**
+	 * Writes a complete result into the notes of the file nodes connected as outputs
+	 */
+	private async writeNotes(outputNodes: JSONCanvasNode[], content: string): Promise<void> {
+		if (!this.noteOutputService) return;
+
+		for (const outputNode of outputNodes) {
+			if (outputNode.type !== 'file') continue;
+			await this.noteOutputService.write(outputNode as JSONCanvasFileNode & WorkflowNodeProperties, content);
+		}
+	}
+
+	/**
+	 * Extracts the instruction and any `model:`, `temperature:` or `max_tokens:`
+	 * overrides from a processing node's content
+	 */
+	private extractInstruction(content: string): ProcessorDefinition {
+		// Content between the marker or `**Instructions:**` line and the separator
+		const instructionLines = parseProcessorNodeText(content).instruction
+			.split('\n')
+			.map(line => line.trim())
+			.filter(line => line);
+
+		const { instructionLines: lines, schema } = parseProcessorSchema(instructionLines);
+		const { instructionLines: modeLines, map, reduce } = parseProcessorMode(lines);
+		const parsed = parseProcessorSettings(modeLines);
+
+		return {
+			instruction: parsed.instructionLines.join('\n') || 'Process the input and provide insights.',
+			settings: parsed.settings,
+			schema,
+			map,
+			reduce
+		};
 	}
 
 	/**
@@ -98,22 +852,38 @@ export class AIProcessingService {
 		return firstLine.replace(/^#\s*/, '').trim();
 	}
 
+	/**
+	 * Renders a structured result as markdown for output nodes and notes; other results are kept as they are
+	 */
+	private formatResult(content: string, schema?: JsonSchema): string {
+		return schema ? formatStructuredOutput(parseJsonReply(content)) : content;
+	}
+
 	/**
 	 * Builds the prompt for AI processing
 	 */
 	private buildPrompt(instruction: string, inputContent: string): string {
+		// The instruction template placed every input itself
+		if (!inputContent) return instruction;
+
 		return `${instruction}\n\nINPUT:\n${inputContent}\n\nOUTPUT:`;
 	}
 
 	/**
-	 * Processes content with AI
+	 * Processes content with AI, reporting the partial response as it streams in
 	 */
-	private async processWithAI(prompt: string): Promise<string> {
+	private async processWithAI(
+		prompt: string,
+		systemPrompt: string,
+		settings: ProcessorSettings,
+		signal: AbortSignal | undefined,
+		onPartial: (content: string) => void
+	): Promise<string> {
 		try {
 			const messages = [
 				{
 					role: 'system' as const,
-					content: 'You are a helpful AI assistant that processes information according to instructions.'
+					content: systemPrompt
 				},
 				{
 					role: 'user' as const,
@@ -121,14 +891,76 @@ export class AIProcessingService {
 				}
 			];
 
-			const response = await this.aiService.callLMStudio(messages);
+			const response = await this.aiService.streamChat(
+				messages,
+				(_token, content) => onPartial(content),
+				{ ...settings, signal }
+			);
 			return response;
 		} catch (error) {
+			// Cancellation is not a failure, so let callers recognise it
+			if (isAbortError(error)) throw error;
+
 			console.error('Error processing with AI:', error);
-			throw new Error(`AI processing failed: ${error}`);
+			throw new Error(`AI processing failed: ${error instanceof Error ? error.message : String(error)}`);
 		}
 	}
 
+	/**
+	 * Requests a JSON reply and validates it against the processor's schema.
+	 * Replies that do not match are sent back with the validation errors, asking for a corrected reply.
+	 *
+	 * @returns The reply as formatted JSON
+	 * @throws {Error} If no reply matches the schema after `MAX_SCHEMA_ATTEMPTS` attempts
+	 */
+	private async processStructured(
+		prompt: string,
+		systemPrompt: string,
+		settings: ProcessorSettings,
+		schema: JsonSchema,
+		signal: AbortSignal | undefined
+	): Promise<string> {
+		const messages: Message[] = [
+			{
+				role: 'system',
+				content: `${systemPrompt} Reply only with JSON that matches this JSON schema:\n${JSON.stringify(schema)}`
+			},
+			{ role: 'user', content: prompt }
+		];
+		let errors: string[] = [];
+
+		for (let attempt = 1; attempt <= MAX_SCHEMA_ATTEMPTS; attempt++) {
+			let reply: string;
+			try {
+				reply = await this.aiService.chat(messages, { ...settings, jsonSchema: schema, signal });
+			} catch (error) {
+				if (isAbortError(error)) throw error;
+
+				console.error('Error processing with AI:', error);
+				throw new Error(`AI processing failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+
+			try {
+				const value = parseJsonReply(reply);
+				errors = validateJson(value, schema);
+				if (errors.length === 0) return JSON.stringify(value, null, 2);
+			} catch (error) {
+				errors = [error instanceof Error ? error.message : String(error)];
+			}
+
+			console.warn(`Reply does not match the schema (attempt ${attempt} of ${MAX_SCHEMA_ATTEMPTS}):`, errors);
+			messages.push(
+				{ role: 'assistant', content: reply },
+				{
+					role: 'user',
+					content: `Your reply does not match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON.`
+				}
+			);
+		}
+
+		throw new Error(`The reply did not match the schema after ${MAX_SCHEMA_ATTEMPTS} attempts:\n${errors.join('\n')}`);
+	}
+
 	/**
 	 * Creates a complete AI processing workflow:
 	 * Input node -> Processing node -> Output node
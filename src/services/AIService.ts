@@ -1,30 +1,54 @@
-import { App, TFile, requestUrl, moment } from 'obsidian';
+import { App, TFile, moment } from 'obsidian';
+import type { JSONCanvasFileNode } from '../types/jsoncanvas';
 import type { Message, DailyAIAssistantSettings } from '../types';
+import type { LLMProvider, ChatRequestOptions, TokenCallback, ConnectionTestResult } from '../types/provider';
+import { ProviderRegistry, createDefaultProviderRegistry } from '../providers/ProviderRegistry';
+import { RetryAttempt, RetryPolicy, classifyLLMError, withRetry } from '../utils/retry';
+import { TEXT_FILE_EXTENSIONS, extractCanvasText, extractSubpath, stripFrontmatter } from '../utils/noteContent';
 
 /**
- * Service class for handling AI interactions and LM Studio API communications.
- * Manages context gathering, daily note detection, and chat completions.
+ * Backoff between retries of a failed request
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+/**
+ * Service class for handling AI interactions.
+ * Manages context gathering, daily note detection, and chat completions
+ * through the LLM provider selected in settings.
  *
  * @class AIService
  * @example
  * const aiService = new AIService(app, settings);
- * const response = await aiService.callLMStudio(messages);
+ * const response = await aiService.chat(messages);
  */
 export class AIService {
 	/** Obsidian app instance for accessing vault and workspace */
 	private app: App;
 	/** Current plugin settings */
 	private settings: DailyAIAssistantSettings;
+	/** Registry of the available LLM backends */
+	readonly providers: ProviderRegistry;
+	/** Provider for the backend selected in settings */
+	private provider: LLMProvider;
+	/** Models reported by the server, cached until the connection settings change */
+	private modelCache: string[] | null = null;
+	/** Connection settings the model cache belongs to */
+	private connectionKey: string;
 
 	/**
 	 * Creates a new AIService instance.
 	 *
 	 * @param {App} app - Obsidian app instance
 	 * @param {DailyAIAssistantSettings} settings - Plugin settings
+	 * @param {ProviderRegistry} [providers] - Available backends (defaults to the built-in ones)
 	 */
-	constructor(app: App, settings: DailyAIAssistantSettings) {
+	constructor(app: App, settings: DailyAIAssistantSettings, providers: ProviderRegistry = createDefaultProviderRegistry()) {
 		this.app = app;
 		this.settings = settings;
+		this.providers = providers;
+		this.provider = this.createProvider();
+		this.connectionKey = this.getConnectionKey();
 	}
 
 	/**
@@ -36,6 +60,14 @@ export class AIService {
 	 */
 	updateSettings(settings: DailyAIAssistantSettings) {
 		this.settings = settings;
+		this.provider = this.createProvider();
+
+		// Settings are mutated in place, so compare against the last known connection
+		const connectionKey = this.getConnectionKey();
+		if (connectionKey !== this.connectionKey) {
+			this.connectionKey = connectionKey;
+			this.modelCache = null;
+		}
 	}
 
 	/**
@@ -119,34 +151,260 @@ export class AIService {
 	}
 
 	/**
-	 * Sends a chat completion request to the LM Studio API.
-	 * Handles the API communication with configured parameters like temperature and max tokens.
+	 * Reads the file a canvas file node points at, for use as processor input.
+	 * Notes are limited to the node's `#heading` or `#^block` subpath and lose their
+	 * front matter unless configured otherwise; canvases contribute the text of their nodes.
+	 * Files that are not text are only listed by name.
+	 *
+	 * @async
+	 * @param {JSONCanvasFileNode} node - The file node
+	 * @returns {Promise<string>} The file content, prefixed with the file name
+	 * @example
+	 * const input = await aiService.getFileNodeContent(node);
+	 * // Returns: "📄 2024-01-15#Tasks:\n## Tasks\n..."
+	 */
+	async getFileNodeContent(node: JSONCanvasFileNode): Promise<string> {
+		const file = this.app.vault.getAbstractFileByPath(node.file);
+		if (!(file instanceof TFile)) {
+			console.warn(`File node ${node.id} points at a missing file:`, node.file);
+			return `📎 ${node.file} (file not found)`;
+		}
+
+		const label = `📄 ${file.basename}${node.subpath ?? ''}`;
+
+		if (file.extension === 'canvas') {
+			return `${label}:\n${extractCanvasText(await this.app.vault.cachedRead(file))}`;
+		}
+
+		if (!TEXT_FILE_EXTENSIONS.includes(file.extension)) {
+			return `📎 ${file.name} (${file.extension} file, content not included)`;
+		}
+
+		let content = await this.app.vault.cachedRead(file);
+		if (file.extension === 'md' && !this.settings.includeFrontmatter) {
+			content = stripFrontmatter(content);
+		}
+
+		if (node.subpath) {
+			const section = extractSubpath(content, node.subpath);
+			if (section === null) {
+				console.warn(`${node.subpath} not found in ${file.path}, using the whole note`);
+			} else {
+				content = section;
+			}
+		}
+
+		return `${label}:\n${content.trim()}`;
+	}
+
+	/**
+	 * Gets the provider for the backend selected in settings
+	 *
+	 * @returns {LLMProvider} The active provider
+	 */
+	getProvider(): LLMProvider {
+		return this.provider;
+	}
+
+	/**
+	 * Sends a chat completion request through the selected provider.
+	 * Handles the request with configured parameters like temperature and max tokens,
+	 * and retries it with backoff when the server is busy, unreachable or times out.
 	 *
 	 * @async
 	 * @param {Message[]} messages - Array of chat messages to send to the AI
+	 * @param {Partial<ChatRequestOptions>} [overrides] - Model settings that take precedence over the global settings, and an abort signal
 	 * @returns {Promise<string>} The AI's response content
-	 * @throws {Error} If the API request fails or returns an invalid response
+	 * @throws {Error} If the API request fails after all retries or returns an invalid response, or an `AbortError` if aborted
 	 * @example
 	 * const messages = [
 	 *   { role: 'system', content: 'You are a helpful assistant' },
 	 *   { role: 'user', content: 'Hello!' }
 	 * ];
-	 * const response = await aiService.callLMStudio(messages);
-	 */
-	async callLMStudio(messages: Message[]): Promise<string> {
-		const response = await requestUrl({
-			url: `${this.settings.lmStudioUrl}/chat/completions`,
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				model: this.settings.modelName || 'local-model',
-				messages: messages,
-				temperature: this.settings.temperature,
-				max_tokens: this.settings.maxTokens,
-				stream: false
-			})
-		});
+	 * const response = await aiService.chat(messages);
+	 */
+	async chat(messages: Message[], overrides: Partial<ChatRequestOptions> = {}): Promise<string> {
+		const options = await this.getRequestOptions(overrides);
+		const provider = this.provider;
+
+		return this.withRetryPolicy(
+			({ signal }) => provider.chat(messages, { ...options, signal }),
+			options.signal
+		);
+	}
 
-		return response.json.choices[0]?.message?.content || '';
+	/**
+	 * Sends a streaming chat completion request through the selected provider,
+	 * reporting every token as it arrives.
+	 * Falls back to a regular request when streaming is disabled in settings.
+	 * Failures are only retried until the first token arrives, so a partly shown
+	 * answer is never restarted; the timeout applies to the gap between tokens.
+	 *
+	 * @async
+	 * @param {Message[]} messages - Array of chat messages to send to the AI
+	 * @param {TokenCallback} onToken - Called with each new token and the text received so far
+	 * @param {Partial<ChatRequestOptions>} [overrides] - Model settings that take precedence over the global settings, and an abort signal
+	 * @returns {Promise<string>} The complete AI response content
+	 * @throws {Error} If the API request fails, or an `AbortError` if aborted
+	 * @example
+	 * const response = await aiService.streamChat(messages, (token, content) => {
+	 *   messageEl.setText(content);
+	 * });
+	 */
+	async streamChat(messages: Message[], onToken: TokenCallback, overrides: Partial<ChatRequestOptions> = {}): Promise<string> {
+		if (!this.settings.streamResponses) {
+			const content = await this.chat(messages, overrides);
+			onToken(content, content);
+			return content;
+		}
+
+		const options = await this.getRequestOptions(overrides);
+		const provider = this.provider;
+		let received = false;
+
+		return this.withRetryPolicy(
+			({ signal, keepAlive }) => provider.stream(messages, { ...options, signal }, (token, content) => {
+				received = true;
+				keepAlive();
+				onToken(token, content);
+			}),
+			options.signal,
+			() => !received
+		);
+	}
+
+	/**
+	 * Lists the models available on the selected backend.
+	 * The list is cached until the connection settings change or a refresh is requested.
+	 *
+	 * @async
+	 * @param {boolean} [refresh=false] - Query the server even if a cached list exists
+	 * @returns {Promise<string[]>} Model identifiers
+	 * @throws {Error} If the server cannot be reached
+	 */
+	async listModels(refresh = false): Promise<string[]> {
+		if (!this.modelCache || refresh) {
+			this.modelCache = await this.provider.listModels();
+		}
+		return this.modelCache;
+	}
+
+	/**
+	 * Resolves the model to use for requests.
+	 * Uses the configured model name, or the first model the server reports when it is empty.
+	 *
+	 * @async
+	 * @returns {Promise<string>} Model identifier
+	 */
+	async resolveModel(): Promise<string> {
+		if (this.settings.modelName) {
+			return this.settings.modelName;
+		}
+
+		try {
+			const models = await this.listModels();
+			if (models.length > 0) {
+				return models[0];
+			}
+		} catch (error) {
+			console.warn('Could not detect models, using server default:', error);
+		}
+
+		// Servers that serve a single model accept any identifier
+		return 'local-model';
+	}
+
+	/**
+	 * Checks that the selected backend is reachable and measures the latency
+	 *
+	 * @async
+	 * @returns {Promise<ConnectionTestResult>} Latency, available models, or the error
+	 */
+	async testConnection(): Promise<ConnectionTestResult> {
+		const start = Date.now();
+
+		try {
+			const models = await this.listModels(true);
+			return { ok: true, latencyMs: Date.now() - start, models };
+		} catch (error) {
+			return {
+				ok: false,
+				latencyMs: Date.now() - start,
+				models: [],
+				error: error instanceof Error ? error.message : String(error)
+			};
+		}
+	}
+
+	/**
+	 * Builds request options from the current settings and any per-request overrides,
+	 * resolving the model that requests will actually be sent to
+	 *
+	 * @async
+	 * @param {Partial<ChatRequestOptions>} overrides - Model settings that take precedence over the global settings
+	 * @returns {Promise<ChatRequestOptions>} The complete request options
+	 */
+	async getRequestOptions(overrides: Partial<ChatRequestOptions>): Promise<ChatRequestOptions> {
+		return {
+			model: overrides.model ?? await this.resolveModel(),
+			temperature: overrides.temperature ?? this.settings.temperature,
+			maxTokens: overrides.maxTokens ?? this.settings.maxTokens,
+			jsonSchema: overrides.jsonSchema,
+			signal: overrides.signal
+		};
+	}
+
+	/**
+	 * Builds the retry policy from the current settings
+	 */
+	private getRetryPolicy(): RetryPolicy {
+		return {
+			maxRetries: this.settings.maxRetries,
+			timeoutMs: this.settings.requestTimeoutSeconds * 1000,
+			baseDelayMs: RETRY_BASE_DELAY_MS,
+			maxDelayMs: RETRY_MAX_DELAY_MS
+		};
+	}
+
+	/**
+	 * Runs a provider request under the retry policy, explaining errors retrying cannot fix
+	 */
+	private async withRetryPolicy<T>(
+		request: (attempt: RetryAttempt) => Promise<T>,
+		signal?: AbortSignal,
+		canRetry?: () => boolean
+	): Promise<T> {
+		try {
+			return await withRetry(request, this.getRetryPolicy(), {
+				signal,
+				canRetry,
+				onRetry: (error, attempt, delayMs) => {
+					console.warn(`AI request failed, retrying in ${delayMs / 1000}s (attempt ${attempt} of ${this.settings.maxRetries}):`, error);
+				}
+			});
+		} catch (error) {
+			if (classifyLLMError(error) === 'context-length') {
+				const detail = error instanceof Error ? error.message : String(error);
+				throw new Error(`The prompt is too long for the model's context window. Shorten the input or use a model with a larger context. (${detail})`);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Identifies the current connection settings
+	 */
+	private getConnectionKey(): string {
+		return [this.settings.provider, this.settings.lmStudioUrl, this.settings.apiKey].join('|');
+	}
+
+	/**
+	 * Creates the provider for the backend selected in settings
+	 */
+	private createProvider(): LLMProvider {
+		return this.providers.create(this.settings.provider, {
+			baseUrl: this.settings.lmStudioUrl,
+			apiKey: this.settings.apiKey || undefined
+		});
 	}
 }
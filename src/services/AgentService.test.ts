@@ -5,7 +5,7 @@ import { AIService } from './AIService';
 
 // Mock AIService
 const mockAIService = {
-  callLMStudio: async (messages: any[]) => 'Mock AI response',
+  chat: async (messages: any[]) => 'Mock AI response',
   updateSettings: () => {},
   isDailyNote: () => false,
   getOpenTabsContext: async () => '',
@@ -65,6 +65,6 @@ export class AgentService {
     ];
 
     // Call AI service
-    return await this.aiService.callLMStudio(messages);
+    return await this.aiService.chat(messages);
   }
 }
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { App, TFile, TFolder, normalizePath } from 'obsidian';
 import { JSONCanvasData, JSONCanvasTextNode, JSONCanvasNode, JSONCanvasEdge, CanvasColor } from '../types/jsoncanvas';
 import { Agent } from '../types/agent';
+import { PERSONALITY_PROMPTS } from '../types';
+import { NoteOutputMode, WorkflowNodeProperties } from '../types/workflow';
+import { getWorkflowEdges } from '../utils/workflowGraph';
+import { formatAgentNodeText } from '../utils/nodeContent';
 
 /**
  * Service for managing JSON Canvas files for multi-agent workflows
@@ -62,7 +66,9 @@ export class CanvasService {
 
 		try {
 			const data = JSON.parse(content) as JSONCanvasData;
+			// Keep any top-level properties added by other tools
 			return {
+				...data,
 				nodes: data.nodes || [],
 				edges: data.edges || []
 			};
@@ -72,6 +78,18 @@ export class CanvasService {
 		}
 	}
 
+	/**
+	 * Gets the modification time of a note that a file node points at,
+	 * so processors reading it can be hashed with the note's current version
+	 *
+	 * @param path - Vault path of the note
+	 * @returns The modification time, or undefined if the note does not exist
+	 */
+	getNoteVersion(path: string): number | undefined {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file.stat.mtime : undefined;
+	}
+
 	/**
 	 * Writes canvas data to a file
 	 */
@@ -80,21 +98,53 @@ export class CanvasService {
 		await this.app.vault.modify(file, content);
 	}
 
+	/**
+	 * Saves a stage into a folder, replacing a stage of the same name
+	 *
+	 * @param folder - Folder of the stages
+	 * @param fileName - Name of the stage's canvas file
+	 * @param stage - The stage's nodes and edges
+	 * @returns The stage's canvas file
+	 */
+	async saveStage(folder: string, fileName: string, stage: JSONCanvasData): Promise<TFile> {
+		const file = await this.createOrOpenAgentCanvas(`${folder}/${fileName}`);
+		await this.writeCanvas(file, stage);
+		return file;
+	}
+
+	/**
+	 * Lists the stages saved in a folder and its subfolders
+	 *
+	 * @param folder - Folder of the stages
+	 * @returns The stages' canvas files, or none if the folder does not exist
+	 */
+	getStages(folder: string): TFile[] {
+		const root = this.app.vault.getAbstractFileByPath(normalizePath(folder));
+		if (!(root instanceof TFolder)) return [];
+
+		const collect = (item: TFolder): TFile[] => item.children.flatMap(child => {
+			if (child instanceof TFolder) return collect(child);
+			return child instanceof TFile && child.extension === 'canvas' ? [child] : [];
+		});
+		return collect(root);
+	}
+
 	/**
 	 * Adds an agent node to the canvas
 	 */
 	async addAgentNode(file: TFile, agent: Agent, position?: { x: number; y: number }): Promise<void> {
 		const data = await this.readCanvas(file);
 
-		const agentNode: JSONCanvasTextNode = {
+		const agentNode: JSONCanvasTextNode & WorkflowNodeProperties = {
 			id: agent.id,
 			type: 'text',
-			text: `# 🤖 AI Agent\n\n> **${agent.name}**\n\n**Role:** ${agent.role}\n\n**System Prompt:**\n${agent.systemPrompt}`,
+			text: formatAgentNodeText(agent),
 			x: position?.x ?? 100 + (data.nodes?.length ?? 0) * 250,
 			y: position?.y ?? 100,
 			width: 300,
 			height: 200,
-			color: this.getAgentColor(agent.role)
+			color: this.getAgentColor(agent.role),
+			aiRole: 'agent'
 		};
 
 		data.nodes = [...(data.nodes || []), agentNode];
@@ -115,11 +165,12 @@ export class CanvasService {
 		}
 
 		const existingNode = data.nodes![nodeIndex];
-		const updatedNode: JSONCanvasTextNode = {
+		const updatedNode: JSONCanvasTextNode & WorkflowNodeProperties = {
 			...existingNode as JSONCanvasTextNode,
 			type: 'text',
-			text: `# 🤖 AI Agent\n\n> **${agent.name}**\n\n**Role:** ${agent.role}\n\n**System Prompt:**\n${agent.systemPrompt}`,
-			color: this.getAgentColor(agent.role)
+			text: formatAgentNodeText(agent),
+			color: this.getAgentColor(agent.role),
+			aiRole: 'agent'
 		};
 
 		data.nodes![nodeIndex] = updatedNode;
@@ -160,15 +211,16 @@ export class CanvasService {
 	 * Adds the default assistant node to the canvas
 	 */
 	async addDefaultAssistant(file: TFile, position?: { x: number; y: number }): Promise<void> {
-		const defaultAssistant: JSONCanvasTextNode = {
+		const defaultAssistant: JSONCanvasTextNode & WorkflowNodeProperties = {
 			id: 'default-assistant',
 			type: 'text',
-			text: `# 🤖 AI Agent\n\n> **Default Assistant**\n\n**Role:** general\n\n**System Prompt:**\nEști un asistent de jurnal prietenos și gânditor. Vorbește în limba română.\nOferă observații sau întrebări concise (2-3 propoziții). Fii cald dar nu prea verbos.\nConcentrează-te pe: sport/sală (ce ai făcut, cum te-ai simțit), dezvoltare personală (ce ai învățat/lucrat azi),\nrelaxare (cum te destresezi), și pattern-uri între ziua curentă și zilele anterioare.`,
+			text: formatAgentNodeText({ name: 'Default Assistant', role: 'general', systemPrompt: PERSONALITY_PROMPTS.balanced }),
 			x: position?.x ?? 100,
 			y: position?.y ?? 100,
 			width: 400,
 			height: 250,
-			color: '4' // green
+			color: '4', // green
+			aiRole: 'agent'
 		};
 
 		const data = await this.readCanvas(file);
@@ -199,7 +251,7 @@ export class CanvasService {
 	): Promise<void> {
 		const data = await this.readCanvas(file);
 
-		const processingNode: JSONCanvasTextNode = {
+		const processingNode: JSONCanvasTextNode & WorkflowNodeProperties = {
 			id: nodeId,
 			type: 'text',
 			text: `# ⚙️ AI Processor\n\n> **${title}**\n\n**Instructions:**\n${instruction}\n\n---\n\n*Connect input nodes → this node → output nodes*`,
@@ -207,7 +259,8 @@ export class CanvasService {
 			y: position?.y ?? 100,
 			width: 350,
 			height: 200,
-			color: '6' // purple for AI processing nodes
+			color: '6', // purple for AI processing nodes
+			aiRole: 'processor'
 		};
 
 		data.nodes = [...(data.nodes || []), processingNode];
@@ -225,7 +278,7 @@ export class CanvasService {
 	): Promise<void> {
 		const data = await this.readCanvas(file);
 
-		const outputNode: JSONCanvasTextNode = {
+		const outputNode: JSONCanvasTextNode & WorkflowNodeProperties = {
 			id: nodeId,
 			type: 'text',
 			text: `# 📤 Output\n\n> **${title}**\n\n*Waiting for AI processing...*\n\n---\n\n*Results will appear here after processing*`,
@@ -233,7 +286,8 @@ export class CanvasService {
 			y: position?.y ?? 100,
 			width: 350,
 			height: 300,
-			color: '3' // yellow for output nodes
+			color: '3', // yellow for output nodes
+			aiRole: 'output'
 		};
 
 		data.nodes = [...(data.nodes || []), outputNode];
@@ -241,12 +295,16 @@ export class CanvasService {
 	}
 
 	/**
-	 * Updates an output node with processed content
+	 * Updates an output node with processed content and records when it was written.
+	 * Content reused from the result cache is marked with the time of its original run,
+	 * and nodes on a branch whose edge condition did not match are marked as skipped.
 	 */
 	async updateOutputNode(
 		file: TFile,
 		nodeId: string,
-		content: string
+		content: string,
+		cachedAt?: string,
+		skipped = false
 	): Promise<void> {
 		const data = await this.readCanvas(file);
 		const nodeIndex = data.nodes?.findIndex(n => n.id === nodeId) ?? -1;
@@ -256,15 +314,83 @@ export class CanvasService {
 		}
 
 		const existingNode = data.nodes![nodeIndex] as JSONCanvasTextNode;
-		const updatedNode: JSONCanvasTextNode = {
+		const updatedNode: JSONCanvasTextNode & WorkflowNodeProperties = {
 			...existingNode,
-			text: content
+			text: content,
+			lastRunAt: new Date().toISOString(),
+			cachedAt,
+			skipped
+		};
+
+		// A fresh result replaces any earlier cached one
+		if (!cachedAt) {
+			delete updatedNode.cachedAt;
+		}
+		if (!skipped) {
+			delete updatedNode.skipped;
+		}
+
+		data.nodes![nodeIndex] = updatedNode;
+		await this.writeCanvas(file, data);
+	}
+
+	/**
+	 * Records a processor run on the processor node, so later runs can
+	 * tell whether its inputs changed and find its cached result
+	 *
+	 * @param file - The canvas file
+	 * @param nodeId - ID of the processor node
+	 * @param inputHash - Hash of the processor's text and inputs, from `getInputHash`
+	 * @param resultKey - Result cache key of the run, if results are cached
+	 * @param skipped - Whether the processor was skipped because it is on a branch that was not taken
+	 */
+	async recordProcessorRun(file: TFile, nodeId: string, inputHash: string, resultKey?: string, skipped = false): Promise<void> {
+		const data = await this.readCanvas(file);
+		const nodeIndex = data.nodes?.findIndex(n => n.id === nodeId) ?? -1;
+
+		if (nodeIndex === -1) {
+			throw new Error(`Processor node ${nodeId} not found`);
+		}
+
+		const updatedNode: JSONCanvasNode & WorkflowNodeProperties = {
+			...data.nodes![nodeIndex],
+			lastRunAt: new Date().toISOString(),
+			inputHash,
+			resultKey,
+			skipped
 		};
 
+		if (!resultKey) {
+			delete updatedNode.resultKey;
+		}
+		if (!skipped) {
+			delete updatedNode.skipped;
+		}
+
 		data.nodes![nodeIndex] = updatedNode;
 		await this.writeCanvas(file, data);
 	}
 
+	/**
+	 * Sets how processor results are written into the note of a file node
+	 *
+	 * @param file - The canvas file
+	 * @param nodeId - ID of the file node
+	 * @param mode - The output mode
+	 * @throws {Error} If the node does not exist or is not a file node
+	 */
+	async setNoteOutputMode(file: TFile, nodeId: string, mode: NoteOutputMode): Promise<void> {
+		const data = await this.readCanvas(file);
+		const node = data.nodes?.find(n => n.id === nodeId) as (JSONCanvasNode & WorkflowNodeProperties) | undefined;
+
+		if (!node || node.type !== 'file') {
+			throw new Error(`File node ${nodeId} not found`);
+		}
+
+		node.noteOutputMode = mode;
+		await this.writeCanvas(file, data);
+	}
+
 	/**
 	 * Gets the content of a node by ID
 	 */
@@ -285,8 +411,8 @@ export class CanvasService {
 	async getInputNodes(file: TFile, nodeId: string): Promise<JSONCanvasNode[]> {
 		const data = await this.readCanvas(file);
 
-		// Find all edges that point TO this node
-		const inputEdges = data.edges?.filter(e => e.toNode === nodeId) || [];
+		// Find all edges that point TO this node, including those into a group it starts
+		const inputEdges = getWorkflowEdges(data).filter(e => e.toNode === nodeId);
 
 		// Get the source nodes
 		const inputNodes = inputEdges
@@ -302,8 +428,8 @@ export class CanvasService {
 	async getOutputNodes(file: TFile, nodeId: string): Promise<JSONCanvasNode[]> {
 		const data = await this.readCanvas(file);
 
-		// Find all edges that point FROM this node
-		const outputEdges = data.edges?.filter(e => e.fromNode === nodeId) || [];
+		// Find all edges that point FROM this node, including those out of a group it ends
+		const outputEdges = getWorkflowEdges(data).filter(e => e.fromNode === nodeId);
 
 		// Get the target nodes
 		const outputNodes = outputEdges
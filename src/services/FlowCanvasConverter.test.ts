@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
 import type { Node, Edge } from '@xyflow/react';
 import type {
 	JSONCanvasData,
@@ -84,6 +85,23 @@ describe('FlowCanvasConverter', () => {
 			expect(result.nodes[0].data.color).toBe('4');
 		});
 
+		it('should give workflow nodes their own flow types', () => {
+			const jsonCanvas: JSONCanvasData = {
+				nodes: [
+					{ id: 'agent', type: 'text', text: '# 🤖 AI Agent\n\n> **Helper**', x: 0, y: 0, width: 100, height: 100 },
+					{ id: 'processor', type: 'text', text: '# Summary\n\n**AI Processing Node**\n\nSummarize', x: 0, y: 0, width: 100, height: 100 },
+					{ id: 'output', type: 'text', text: '# 📤 Output\n\n> **Result**', x: 0, y: 0, width: 100, height: 100 },
+					{ id: 'note', type: 'text', text: 'Plain note', x: 0, y: 0, width: 100, height: 100 },
+				],
+				edges: [],
+			};
+
+			const result = FlowCanvasConverter.fromJSONCanvas(jsonCanvas);
+
+			expect(result.nodes.map(node => node.type)).toEqual(['agent', 'processor', 'output', 'text']);
+			expect(FlowCanvasConverter.toJSONCanvas(result.nodes, result.edges)).toEqual(jsonCanvas);
+		});
+
 		it('should convert single edge to React Flow edge', () => {
 			const jsonCanvas: JSONCanvasData = {
 				nodes: [
@@ -592,4 +610,138 @@ describe('FlowCanvasConverter', () => {
 			expect(outputNode.color).toBe('3');
 		});
 	});
+
+	describe('Lossless conversion - every JSON Canvas type', () => {
+		it('should preserve file, link and group nodes', () => {
+			const originalCanvas: JSONCanvasData = {
+				nodes: [
+					{ id: 'file-1', type: 'file', file: 'Daily/2025-11-19.md', subpath: '#Reflection', x: 0, y: 0, width: 400, height: 300, color: '2' },
+					{ id: 'link-1', type: 'link', url: 'https://jsoncanvas.org', x: 500, y: 0, width: 400, height: 300 },
+					{ id: 'group-1', type: 'group', label: 'Stage 1', background: 'bg.png', backgroundStyle: 'cover', x: -50, y: -50, width: 1000, height: 400 },
+				],
+				edges: [],
+			};
+
+			const flowData = FlowCanvasConverter.fromJSONCanvas(originalCanvas);
+			const reconvertedCanvas = FlowCanvasConverter.toJSONCanvas(flowData.nodes, flowData.edges);
+
+			expect(reconvertedCanvas).toEqual(originalCanvas);
+		});
+
+		it('should preserve edge sides, ends and color', () => {
+			const originalCanvas: JSONCanvasData = {
+				nodes: [],
+				edges: [
+					{ id: 'edge-1', fromNode: 'a', fromSide: 'bottom', fromEnd: 'arrow', toNode: 'b', toSide: 'top', toEnd: 'none', color: '#ff0000', label: 'next' },
+				],
+			};
+
+			const flowData = FlowCanvasConverter.fromJSONCanvas(originalCanvas);
+			const reconvertedCanvas = FlowCanvasConverter.toJSONCanvas(flowData.nodes, flowData.edges);
+
+			expect(reconvertedCanvas).toEqual(originalCanvas);
+		});
+
+		it('should carry unknown node and edge properties through', () => {
+			const originalCanvas = {
+				nodes: [
+					{ id: 'n', type: 'text', text: 'Hi', x: 0, y: 0, width: 100, height: 100, styleAttributes: { shape: 'pill' } },
+				],
+				edges: [
+					{ id: 'e', fromNode: 'n', toNode: 'n', styleAttributes: { path: 'dotted' } },
+				],
+			} as unknown as JSONCanvasData;
+
+			const flowData = FlowCanvasConverter.fromJSONCanvas(originalCanvas);
+			const reconvertedCanvas = FlowCanvasConverter.toJSONCanvas(flowData.nodes, flowData.edges);
+
+			expect(reconvertedCanvas).toEqual(originalCanvas);
+		});
+
+		it('should not save render-time callbacks', () => {
+			const nodes: Node[] = [
+				{ id: 'n', type: 'text', position: { x: 0, y: 0 }, data: { text: 'Hi', onRun: () => {} } },
+			];
+
+			const result = FlowCanvasConverter.toJSONCanvas(nodes, []);
+
+			expect(result.nodes![0]).not.toHaveProperty('onRun');
+		});
+	});
+
+	describe('Round-trip properties', () => {
+		// Extra properties use a prefix so they never collide with spec properties
+		const extraProperties = fc.dictionary(
+			fc.string({ minLength: 1, maxLength: 8 }).map((key) => `x-${key}`),
+			fc.jsonValue(),
+			{ maxKeys: 3 }
+		);
+		const color = fc.oneof(fc.constantFrom('1', '2', '3', '4', '5', '6'), fc.hexaString({ minLength: 6, maxLength: 6 }).map((hex) => `#${hex}`));
+		const geometry = {
+			id: fc.uuid(),
+			x: fc.integer({ min: -10000, max: 10000 }),
+			y: fc.integer({ min: -10000, max: 10000 }),
+			width: fc.integer({ min: 1, max: 4000 }),
+			height: fc.integer({ min: 1, max: 4000 }),
+		};
+
+		const textNode = fc.record(
+			{ ...geometry, type: fc.constant('text' as const), text: fc.string(), color },
+			{ requiredKeys: ['id', 'x', 'y', 'width', 'height', 'type', 'text'] }
+		);
+		const fileNode = fc.record(
+			{ ...geometry, type: fc.constant('file' as const), file: fc.string({ minLength: 1 }), subpath: fc.string({ minLength: 1 }).map((path) => `#${path}`), color },
+			{ requiredKeys: ['id', 'x', 'y', 'width', 'height', 'type', 'file'] }
+		);
+		const linkNode = fc.record(
+			{ ...geometry, type: fc.constant('link' as const), url: fc.webUrl(), color },
+			{ requiredKeys: ['id', 'x', 'y', 'width', 'height', 'type', 'url'] }
+		);
+		const groupNode = fc.record(
+			{ ...geometry, type: fc.constant('group' as const), label: fc.string(), background: fc.string({ minLength: 1 }), backgroundStyle: fc.constantFrom('cover' as const, 'ratio' as const, 'repeat' as const), color },
+			{ requiredKeys: ['id', 'x', 'y', 'width', 'height', 'type'] }
+		);
+
+		const canvasNode = fc
+			.tuple(fc.oneof(textNode, fileNode, linkNode, groupNode), extraProperties)
+			.map(([node, extras]) => ({ ...extras, ...node }) as JSONCanvasNode);
+
+		const side = fc.constantFrom('top' as const, 'right' as const, 'bottom' as const, 'left' as const);
+		const end = fc.constantFrom('none' as const, 'arrow' as const);
+		const canvasEdge = fc
+			.tuple(
+				fc.record(
+					{ id: fc.uuid(), fromNode: fc.uuid(), toNode: fc.uuid(), fromSide: side, toSide: side, fromEnd: end, toEnd: end, color, label: fc.string({ minLength: 1 }) },
+					{ requiredKeys: ['id', 'fromNode', 'toNode'] }
+				),
+				extraProperties
+			)
+			.map(([edge, extras]) => ({ ...extras, ...edge }) as JSONCanvasEdge);
+
+		it('should reproduce any canvas exactly after a round trip', () => {
+			fc.assert(
+				fc.property(fc.array(canvasNode, { maxLength: 8 }), fc.array(canvasEdge, { maxLength: 8 }), (nodes, edges) => {
+					const originalCanvas: JSONCanvasData = { nodes, edges };
+
+					const flowData = FlowCanvasConverter.fromJSONCanvas(originalCanvas);
+					const reconvertedCanvas = FlowCanvasConverter.toJSONCanvas(flowData.nodes, flowData.edges);
+
+					expect(reconvertedCanvas).toEqual(originalCanvas);
+				})
+			);
+		});
+
+		it('should be stable after repeated round trips', () => {
+			fc.assert(
+				fc.property(fc.array(canvasNode, { maxLength: 8 }), (nodes) => {
+					const once = FlowCanvasConverter.fromJSONCanvas({ nodes, edges: [] });
+					const twice = FlowCanvasConverter.fromJSONCanvas(
+						FlowCanvasConverter.toJSONCanvas(once.nodes, once.edges)
+					);
+
+					expect(twice).toEqual(once);
+				})
+			);
+		});
+	});
 });
@@ -1,16 +1,19 @@
 /**
  * FlowCanvasConverter
  * Bidirectional converter between JSON Canvas format and React Flow format
- * Maintains 100% compatibility with JSON Canvas v1.0 specification
+ * Maintains 100% compatibility with JSON Canvas v1.0 specification:
+ * every node type, edge side and end, and unknown extra properties survive a round trip
  */
 
 import type { Node, Edge } from '@xyflow/react';
 import type {
 	JSONCanvasData,
 	JSONCanvasNode,
-	JSONCanvasTextNode,
+	JSONCanvasNodeType,
 	JSONCanvasEdge,
 } from '../types/jsoncanvas';
+import type { NodeRole } from '../types/workflow';
+import { getNodeRoles } from '../utils/nodeRole';
 
 /**
  * Default dimensions for nodes when measured size is not available
@@ -18,6 +21,11 @@ import type {
 const DEFAULT_NODE_WIDTH = 250;
 const DEFAULT_NODE_HEIGHT = 60;
 
+/**
+ * Node types defined by the JSON Canvas specification
+ */
+const CANVAS_NODE_TYPES: JSONCanvasNodeType[] = ['text', 'file', 'link', 'group'];
+
 /**
  * Result type for conversion from JSON Canvas to React Flow
  */
@@ -36,8 +44,9 @@ export class FlowCanvasConverter {
 	 * @returns React Flow compatible nodes and edges
 	 */
 	static fromJSONCanvas(jsonCanvas: JSONCanvasData): FlowCanvasData {
+		const roles = getNodeRoles(jsonCanvas);
 		const nodes = (jsonCanvas.nodes || []).map((canvasNode) =>
-			this.convertNodeToFlow(canvasNode)
+			this.convertNodeToFlow(canvasNode, roles.get(canvasNode.id) ?? 'input')
 		);
 
 		const edges = (jsonCanvas.edges || []).map((canvasEdge) =>
@@ -65,69 +74,59 @@ export class FlowCanvasConverter {
 	}
 
 	/**
-	 * Converts a single JSON Canvas node to React Flow node
+	 * Converts a single JSON Canvas node to React Flow node.
+	 * Every property except the geometry is kept in `data`, including
+	 * properties added by other plugins, so the node can be restored exactly.
 	 */
-	private static convertNodeToFlow(canvasNode: JSONCanvasNode): Node {
+	private static convertNodeToFlow(canvasNode: JSONCanvasNode, role: NodeRole): Node {
+		const { id, type, x, y, width, height, ...properties } = canvasNode;
+
 		const baseNode: Node = {
-			id: canvasNode.id,
-			type: canvasNode.type,
-			position: {
-				x: canvasNode.x,
-				y: canvasNode.y,
-			},
-			data: {},
+			id,
+			type: this.getFlowNodeType(type, role),
+			position: { x, y },
+			data: { ...properties },
 		};
 
-		// Add measured dimensions
-		if (canvasNode.width && canvasNode.height) {
-			baseNode.measured = {
-				width: canvasNode.width,
-				height: canvasNode.height,
-			};
-		}
-
-		// Handle different node types
-		switch (canvasNode.type) {
-			case 'text': {
-				const textNode = canvasNode as JSONCanvasTextNode;
-				baseNode.data = {
-					text: textNode.text,
-					...(textNode.color && { color: textNode.color }),
-				};
-				break;
-			}
-			case 'file':
-			case 'link':
-			case 'group':
-				// For now, we only handle text nodes fully
-				// Other types will be added in future phases
-				baseNode.data = { ...canvasNode };
-				break;
+		// Keep the canvas size so the node renders and saves with its original dimensions
+		if (width && height) {
+			baseNode.width = width;
+			baseNode.height = height;
+			baseNode.measured = { width, height };
 		}
 
 		return baseNode;
 	}
 
 	/**
-	 * Converts a single JSON Canvas edge to React Flow edge
+	 * Picks the React Flow component for a canvas node.
+	 * Agent, processor and output text nodes get their own card components.
+	 */
+	private static getFlowNodeType(type: JSONCanvasNode['type'], role: NodeRole): string {
+		return type === 'text' && role !== 'input'
+			? role
+			: type;
+	}
+
+	/**
+	 * Converts a single JSON Canvas edge to React Flow edge.
+	 * Sides, ends, color and unknown properties are kept in `data`.
 	 */
 	private static convertEdgeToFlow(canvasEdge: JSONCanvasEdge): Edge {
+		const { id, fromNode, toNode, label, ...properties } = canvasEdge;
+
 		const edge: Edge = {
-			id: canvasEdge.id,
-			source: canvasEdge.fromNode,
-			target: canvasEdge.toNode,
+			id,
+			source: fromNode,
+			target: toNode,
 		};
 
-		// Add optional properties
-		if (canvasEdge.label) {
-			edge.label = canvasEdge.label;
+		if (label) {
+			edge.label = label;
 		}
 
-		if (canvasEdge.color) {
-			edge.data = {
-				...(edge.data || {}),
-				color: canvasEdge.color,
-			};
+		if (Object.keys(properties).length > 0) {
+			edge.data = { ...properties };
 		}
 
 		return edge;
@@ -137,28 +136,23 @@ export class FlowCanvasConverter {
 	 * Converts a React Flow node to JSON Canvas node
 	 */
 	private static convertNodeToCanvas(flowNode: Node): JSONCanvasNode {
-		// Get dimensions from measured or use defaults
-		const width = flowNode.measured?.width || DEFAULT_NODE_WIDTH;
-		const height = flowNode.measured?.height || DEFAULT_NODE_HEIGHT;
-
-		// Type the data explicitly
-		const nodeData = flowNode.data as { text?: string; color?: string };
+		// Prefer the explicit size, then the measured size, then defaults
+		const width = flowNode.width || flowNode.measured?.width || DEFAULT_NODE_WIDTH;
+		const height = flowNode.height || flowNode.measured?.height || DEFAULT_NODE_HEIGHT;
 
-		// For now, we primarily handle text nodes
-		// Other node types will be added in future phases
-		const canvasNode: JSONCanvasTextNode = {
+		const canvasNode = {
 			id: flowNode.id,
-			type: 'text',
-			text: nodeData.text || '',
+			type: this.getCanvasNodeType(flowNode.type),
 			x: flowNode.position.x,
 			y: flowNode.position.y,
 			width,
 			height,
-		};
+			...this.getSerializableData(flowNode.data),
+		} as JSONCanvasNode;
 
-		// Add optional color
-		if (nodeData.color) {
-			canvasNode.color = nodeData.color as string;
+		// Text nodes must always carry their text
+		if (canvasNode.type === 'text' && typeof canvasNode.text !== 'string') {
+			canvasNode.text = '';
 		}
 
 		return canvasNode;
@@ -168,23 +162,43 @@ export class FlowCanvasConverter {
 	 * Converts a React Flow edge to JSON Canvas edge
 	 */
 	private static convertEdgeToCanvas(flowEdge: Edge): JSONCanvasEdge {
-		const edgeData = flowEdge.data as { color?: string } | undefined;
-
 		const canvasEdge: JSONCanvasEdge = {
 			id: flowEdge.id,
 			fromNode: flowEdge.source,
 			toNode: flowEdge.target,
+			...this.getSerializableData(flowEdge.data),
 		};
 
-		// Add optional properties
-		if (flowEdge.label) {
-			canvasEdge.label = flowEdge.label as string;
+		if (typeof flowEdge.label === 'string' && flowEdge.label) {
+			canvasEdge.label = flowEdge.label;
 		}
 
-		if (edgeData?.color) {
-			canvasEdge.color = edgeData.color as string;
+		return canvasEdge;
+	}
+
+	/**
+	 * Maps a React Flow node type back to a JSON Canvas node type.
+	 * Unknown types fall back to text nodes.
+	 */
+	private static getCanvasNodeType(flowType: string | undefined): JSONCanvasNodeType {
+		return CANVAS_NODE_TYPES.includes(flowType as JSONCanvasNodeType)
+			? flowType as JSONCanvasNodeType
+			: 'text';
+	}
+
+	/**
+	 * Copies node or edge data, dropping undefined values and callbacks
+	 * that only exist while the canvas is rendered
+	 */
+	private static getSerializableData(data: Record<string, unknown> | undefined): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+
+		for (const [key, value] of Object.entries(data || {})) {
+			if (value !== undefined && typeof value !== 'function') {
+				result[key] = value;
+			}
 		}
 
-		return canvasEdge;
+		return result;
 	}
 }
@@ -0,0 +1,163 @@
+import { TAbstractFile, TFile } from 'obsidian';
+import type DailyAIAssistantPlugin from '../main';
+import { findProcessorsReadingFiles } from '../utils/workflowGraph';
+import { runWorkflow } from '../commands';
+
+/**
+ * Time to wait after the last edit of a note before its canvases re-run
+ */
+const WATCH_DEBOUNCE_MS = 5000;
+
+/**
+ * Notes changed since the last run of a watched canvas
+ */
+interface PendingChanges {
+	paths: Set<string>;
+	timer: number;
+}
+
+/**
+ * Re-runs watched canvases when a note one of their file nodes points at changes.
+ * Edits are debounced per canvas, and only the processors reading a changed note,
+ * plus everything downstream of them, are run. Results the plugin writes into notes
+ * are not edits, so they never trigger a run.
+ * The watched canvases are stored in the plugin settings.
+ *
+ * @class InputWatcher
+ * @example
+ * const watcher = new InputWatcher(plugin);
+ * watcher.start();
+ * await watcher.setWatched(canvasFile, true);
+ */
+export class InputWatcher {
+	private pending = new Map<string, PendingChanges>();
+	private listeners = new Set<() => void>();
+
+	constructor(private plugin: DailyAIAssistantPlugin) {}
+
+	/**
+	 * Starts listening for note changes, and for renames and deletions of watched canvases
+	 */
+	start(): void {
+		const { vault } = this.plugin.app;
+
+		this.plugin.registerEvent(vault.on('modify', (file) => {
+			// Canvases change whenever a processor writes its output, so only notes count
+			if (!(file instanceof TFile) || file.extension === 'canvas') return;
+
+			// Results written into output notes would otherwise re-run the canvas that wrote them
+			if (this.plugin.noteOutputService.consumeOwnWrite(file.path)) return;
+
+			this.queue(file.path);
+		}));
+		this.plugin.registerEvent(vault.on('rename', (file, oldPath) => this.handleMove(oldPath, file)));
+		this.plugin.registerEvent(vault.on('delete', (file) => this.handleMove(file.path, null)));
+	}
+
+	/**
+	 * Cancels the runs that are waiting for edits to settle
+	 */
+	stop(): void {
+		this.pending.forEach(entry => window.clearTimeout(entry.timer));
+		this.pending.clear();
+	}
+
+	/**
+	 * Gets the paths of the watched canvases
+	 */
+	getWatched(): string[] {
+		return this.plugin.settings.watchedCanvases;
+	}
+
+	/**
+	 * Checks whether a canvas is watched
+	 */
+	isWatched(file: TFile): boolean {
+		return this.getWatched().includes(file.path);
+	}
+
+	/**
+	 * Turns watching a canvas on or off and saves the setting
+	 *
+	 * @param {TFile} file - The canvas file
+	 * @param {boolean} watched - Whether the canvas should re-run when its notes change
+	 */
+	async setWatched(file: TFile, watched: boolean): Promise<void> {
+		const others = this.getWatched().filter(path => path !== file.path);
+		await this.saveWatched(watched ? [...others, file.path] : others);
+	}
+
+	/**
+	 * Registers a listener called whenever the watched canvases change
+	 *
+	 * @returns {() => void} Function that removes the listener
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Records a changed note for every watched canvas
+	 */
+	private queue(changedPath: string): void {
+		this.getWatched().forEach(canvasPath => this.schedule(canvasPath, [changedPath]));
+	}
+
+	/**
+	 * Adds changed notes to a canvas and restarts its debounce timer
+	 */
+	private schedule(canvasPath: string, changedPaths: Iterable<string>): void {
+		const entry = this.pending.get(canvasPath) ?? { paths: new Set<string>(), timer: 0 };
+		window.clearTimeout(entry.timer);
+		for (const path of Array.from(changedPaths)) {
+			entry.paths.add(path);
+		}
+		entry.timer = window.setTimeout(() => this.trigger(canvasPath), WATCH_DEBOUNCE_MS);
+		this.pending.set(canvasPath, entry);
+	}
+
+	/**
+	 * Runs the processors of a canvas that read one of the changed notes
+	 */
+	private async trigger(canvasPath: string): Promise<void> {
+		const entry = this.pending.get(canvasPath);
+		this.pending.delete(canvasPath);
+
+		const file = this.plugin.app.vault.getAbstractFileByPath(canvasPath);
+		if (!entry || !(file instanceof TFile)) return;
+
+		// Let a run in progress finish first; the changes are picked up afterwards
+		if (this.plugin.runManager.getRuns().some(run => run.filePath === canvasPath)) {
+			this.schedule(canvasPath, entry.paths);
+			return;
+		}
+
+		try {
+			const data = await this.plugin.canvasService.readCanvas(file);
+			const affected = findProcessorsReadingFiles(data, entry.paths);
+			if (affected.size === 0) return;
+
+			await runWorkflow(this.plugin, file, { processorIds: Array.from(affected) });
+		} catch (error) {
+			console.error(`Error re-running watched canvas ${canvasPath}:`, error);
+		}
+	}
+
+	/**
+	 * Keeps the watched paths in sync when a canvas is renamed or deleted
+	 */
+	private async handleMove(oldPath: string, file: TAbstractFile | null): Promise<void> {
+		if (!this.getWatched().includes(oldPath)) return;
+
+		const others = this.getWatched().filter(path => path !== oldPath);
+		await this.saveWatched(file ? [...others, file.path] : others);
+	}
+
+	private async saveWatched(paths: string[]): Promise<void> {
+		// Replace the array, so the default settings object is never mutated
+		this.plugin.settings.watchedCanvases = paths;
+		await this.plugin.saveSettings();
+		this.listeners.forEach(listener => listener());
+	}
+}
@@ -0,0 +1,82 @@
+import { App, TFile } from 'obsidian';
+import type { JSONCanvasFileNode } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+import { applyNoteOutput, getNoteOutputTarget, getOverwrittenText } from '../utils/noteOutput';
+
+/**
+ * Asks the user whether a note may be overwritten
+ *
+ * @param file - The note about to change
+ * @param before - Current content of the note
+ * @param after - Content of the note after the write
+ * @returns Whether the write should go ahead
+ */
+export type OverwriteConfirmation = (file: TFile, before: string, after: string) => Promise<boolean>;
+
+/**
+ * Writes processor results into the notes that file nodes connected as outputs point at.
+ * Writes that would remove existing text are confirmed first, and the result is
+ * applied with `vault.process` to the latest content of the note, so edits made
+ * while the preview is open are kept. The notes it changes are remembered until
+ * their modify event is seen, so watchers can tell these writes from the user's edits.
+ *
+ * @class NoteOutputService
+ * @example
+ * const service = new NoteOutputService(app, confirmOverwrite);
+ * await service.write(fileNode, result);
+ */
+export class NoteOutputService {
+	private ownWrites = new Set<string>();
+
+	constructor(
+		private app: App,
+		private confirmOverwrite: OverwriteConfirmation
+	) {}
+
+	/**
+	 * Writes a result into the note of a file node, using the node's output mode
+	 *
+	 * @param {JSONCanvasFileNode & WorkflowNodeProperties} node - The file node connected as an output
+	 * @param {string} content - The processor result
+	 * @returns {Promise<boolean>} Whether the note was written, false if the user kept it unchanged
+	 * @throws {Error} If the note does not exist or is not a markdown note
+	 */
+	async write(node: JSONCanvasFileNode & WorkflowNodeProperties, content: string): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(node.file);
+
+		if (!(file instanceof TFile)) {
+			throw new Error(`Output note ${node.file} not found`);
+		}
+		if (file.extension !== 'md') {
+			throw new Error(`Output ${node.file} is not a markdown note`);
+		}
+
+		const target = getNoteOutputTarget(node);
+		const current = await this.app.vault.read(file);
+		const overwritten = getOverwrittenText(current, target);
+
+		if (overwritten && overwritten !== content.trim()) {
+			const confirmed = await this.confirmOverwrite(file, current, applyNoteOutput(current, content, target));
+			if (!confirmed) return false;
+		}
+
+		await this.app.vault.process(file, latest => {
+			const next = applyNoteOutput(latest, content, target);
+			// An unchanged note raises no modify event to consume the entry
+			if (next !== latest) this.ownWrites.add(file.path);
+			return next;
+		});
+		return true;
+	}
+
+	/**
+	 * Checks whether the latest change to a note was a result written by this service,
+	 * forgetting the write so later changes count as the user's again
+	 *
+	 * @param {string} path - Path of the changed note
+	 * @returns {boolean} True if this service caused the change
+	 */
+	consumeOwnWrite(path: string): boolean {
+		return this.ownWrites.delete(path);
+	}
+}
@@ -0,0 +1,111 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import type { DailyAIAssistantSettings } from '../types';
+import type { JSONCanvasData, JSONCanvasTextNode } from '../types/jsoncanvas';
+import {
+	RenderedTemplate,
+	TemplateInput,
+	getPartialNames,
+	getTemplateReferences,
+	parseVariablesNode,
+	renderTemplate
+} from '../utils/promptTemplate';
+import { stripFrontmatter } from '../utils/noteContent';
+
+/**
+ * Renders processor instructions as templates.
+ * Variables come from the canvas's `# Variables` node and the built-in
+ * `{{date}}` and `{{activeNote}}`; partials are notes in the prompt partials folder.
+ *
+ * @class PromptTemplateService
+ * @example
+ * const service = new PromptTemplateService(app, settings);
+ * const { text, unusedInputs } = await service.render(canvasData, instruction, inputs);
+ */
+export class PromptTemplateService {
+	constructor(
+		private app: App,
+		private settings: DailyAIAssistantSettings
+	) {}
+
+	/**
+	 * Renders a processor instruction
+	 *
+	 * @param {JSONCanvasData} data - The canvas the processor belongs to
+	 * @param {string} instruction - The processor's instruction
+	 * @param {TemplateInput[]} inputs - The processor's inputs with their titles
+	 * @returns {Promise<RenderedTemplate>} The rendered instruction and the inputs it did not place
+	 * @throws {Error} If a tag has no value, before any request is sent
+	 */
+	async render(data: JSONCanvasData, instruction: string, inputs: TemplateInput[]): Promise<RenderedTemplate> {
+		const partials = await this.loadPartials(instruction);
+		const variables: Record<string, string> = { date: moment().format('YYYY-MM-DD') };
+
+		// Only read the active note when a template asks for it
+		const templates = [instruction, ...Object.values(partials)];
+		const usesActiveNote = templates.some(template =>
+			getTemplateReferences(template).some(reference => reference.kind === 'variable' && reference.name === 'activeNote')
+		);
+		if (usesActiveNote) {
+			const activeNote = await this.getActiveNoteContent();
+			if (activeNote !== null) variables.activeNote = activeNote;
+		}
+
+		return renderTemplate(instruction, {
+			inputs,
+			variables: { ...variables, ...this.getCanvasVariables(data) },
+			partials
+		});
+	}
+
+	/**
+	 * Collects the variables of every `# Variables` node of a canvas
+	 */
+	private getCanvasVariables(data: JSONCanvasData): Record<string, string> {
+		return (data.nodes || [])
+			.filter(node => node.type === 'text')
+			.reduce<Record<string, string>>((variables, node) => ({
+				...variables,
+				...parseVariablesNode((node as JSONCanvasTextNode).text)
+			}), {});
+	}
+
+	/**
+	 * Loads the partials a template includes, and the partials those include.
+	 * Missing partials are left out, so rendering reports them.
+	 */
+	private async loadPartials(template: string): Promise<Record<string, string>> {
+		const partials: Record<string, string> = {};
+		const queue = getPartialNames(template);
+
+		while (queue.length > 0) {
+			const name = queue.shift()!;
+			if (Object.prototype.hasOwnProperty.call(partials, name)) continue;
+
+			const path = normalizePath(`${this.settings.promptPartialsFolder}/${name}.md`);
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			partials[name] = stripFrontmatter(await this.app.vault.cachedRead(file));
+			queue.push(...getPartialNames(partials[name]));
+		}
+
+		return partials;
+	}
+
+	/**
+	 * Reads the active note, or the most recently opened one while a canvas is active
+	 */
+	private async getActiveNoteContent(): Promise<string | null> {
+		const { workspace, vault } = this.app;
+		const active = workspace.getActiveFile();
+		const path = active?.extension === 'md'
+			? active.path
+			: workspace.getLastOpenFiles().find(openPath => openPath.endsWith('.md'));
+
+		const file = path ? vault.getAbstractFileByPath(path) : null;
+		if (!(file instanceof TFile)) return null;
+
+		const content = await vault.cachedRead(file);
+		return this.settings.includeFrontmatter ? content : stripFrontmatter(content);
+	}
+}
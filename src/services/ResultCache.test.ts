@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ResultCache, CacheStorage, CachedResult } from './ResultCache';
+
+/**
+ * In-memory stand-in for the vault adapter
+ */
+const createStorage = () => {
+	const files = new Map<string, string>();
+	const dirs = new Set<string>();
+
+	const storage: CacheStorage = {
+		exists: async (path: string) => files.has(path) || dirs.has(path),
+		read: async (path: string) => {
+			const content = files.get(path);
+			if (content === undefined) throw new Error(`${path} does not exist`);
+			return content;
+		},
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		mkdir: async (path: string) => {
+			dirs.add(path);
+		},
+		rmdir: async (path: string) => {
+			dirs.delete(path);
+			for (const file of Array.from(files.keys())) {
+				if (file.startsWith(`${path}/`)) files.delete(file);
+			}
+		}
+	};
+
+	return { storage, files };
+};
+
+const entry: CachedResult = { content: 'Summary', model: 'qwen2.5-7b', createdAt: '2024-01-15T10:00:00.000Z' };
+
+describe('ResultCache', () => {
+	let storage: CacheStorage;
+	let files: Map<string, string>;
+	let cache: ResultCache;
+
+	beforeEach(() => {
+		({ storage, files } = createStorage());
+		cache = new ResultCache(storage, '.obsidian/plugins/ai-canvas/cache');
+	});
+
+	it('should return stored results by key', async () => {
+		await cache.set('abc', entry);
+
+		expect(await cache.get('abc')).toEqual(entry);
+		expect(files.has('.obsidian/plugins/ai-canvas/cache/abc.json')).toBe(true);
+	});
+
+	it('should return null for unknown keys', async () => {
+		expect(await cache.get('missing')).toBeNull();
+	});
+
+	it('should ignore damaged entries', async () => {
+		files.set('.obsidian/plugins/ai-canvas/cache/bad.json', '{not json');
+
+		expect(await cache.get('bad')).toBeNull();
+	});
+
+	it('should remove every entry when cleared', async () => {
+		await cache.set('abc', entry);
+		await cache.clear();
+
+		expect(await cache.get('abc')).toBeNull();
+		expect(files.size).toBe(0);
+	});
+});
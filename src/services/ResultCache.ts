@@ -0,0 +1,85 @@
+import type { DataAdapter } from 'obsidian';
+
+/**
+ * A processor result stored in the cache
+ */
+export interface CachedResult {
+	/** The model's answer */
+	content: string;
+	/** Model that produced the answer */
+	model: string;
+	/** ISO timestamp of the run that produced the answer */
+	createdAt: string;
+}
+
+/**
+ * Parts of the vault adapter the cache uses to store its files
+ */
+export type CacheStorage = Pick<DataAdapter, 'exists' | 'read' | 'write' | 'mkdir' | 'rmdir'>;
+
+/**
+ * Content-addressed cache of processor results.
+ * Every result is stored as a JSON file named after its cache key
+ * in a folder inside the plugin's data folder.
+ *
+ * @class ResultCache
+ * @example
+ * const cache = new ResultCache(app.vault.adapter, `${plugin.manifest.dir}/cache`);
+ * const cached = await cache.get(key);
+ * if (!cached) {
+ *   await cache.set(key, { content, model, createdAt: new Date().toISOString() });
+ * }
+ */
+export class ResultCache {
+	/**
+	 * @param {CacheStorage} storage - The vault adapter
+	 * @param {string} dir - Folder to store the cached results in
+	 */
+	constructor(private storage: CacheStorage, private dir: string) {}
+
+	/**
+	 * Looks up a cached result.
+	 * Unreadable entries are treated as missing, so a damaged file only costs a new request.
+	 *
+	 * @param {string} key - The cache key
+	 * @returns {Promise<CachedResult | null>} The cached result, or null if there is none
+	 */
+	async get(key: string): Promise<CachedResult | null> {
+		const path = this.getPath(key);
+		if (!(await this.storage.exists(path))) return null;
+
+		try {
+			const entry = JSON.parse(await this.storage.read(path)) as CachedResult;
+			return typeof entry.content === 'string' ? entry : null;
+		} catch (error) {
+			console.warn(`Ignoring unreadable cache entry ${path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Stores a result under its cache key
+	 *
+	 * @param {string} key - The cache key
+	 * @param {CachedResult} entry - The result to store
+	 */
+	async set(key: string, entry: CachedResult): Promise<void> {
+		if (!(await this.storage.exists(this.dir))) {
+			await this.storage.mkdir(this.dir);
+		}
+		await this.storage.write(this.getPath(key), JSON.stringify(entry));
+	}
+
+	/**
+	 * Removes every cached result
+	 */
+	async clear(): Promise<void> {
+		if (await this.storage.exists(this.dir)) {
+			await this.storage.rmdir(this.dir, true);
+		}
+	}
+
+	private getPath(key: string): string {
+		return `${this.dir}/${key}.json`;
+	}
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RunManager } from './RunManager';
+
+describe('RunManager', () => {
+	it('should track runs until they finish', () => {
+		const manager = new RunManager();
+		const run = manager.start('Canvas', 'a.canvas');
+
+		expect(manager.getRuns()).toEqual([run]);
+
+		manager.finish(run);
+
+		expect(manager.getRuns()).toEqual([]);
+	});
+
+	it('should abort the signal of cancelled runs', () => {
+		const manager = new RunManager();
+		const first = manager.start('First', 'a.canvas');
+		const second = manager.start('Second', 'b.canvas');
+
+		expect(manager.cancel('a.canvas')).toBe(1);
+		expect(first.signal.aborted).toBe(true);
+		expect(second.signal.aborted).toBe(false);
+
+		expect(manager.cancel()).toBe(1);
+		expect(second.signal.aborted).toBe(true);
+	});
+
+	it('should cancel a single run', () => {
+		const manager = new RunManager();
+		const first = manager.start('First');
+		const second = manager.start('Second');
+
+		manager.cancelRun(first);
+
+		expect(first.signal.aborted).toBe(true);
+		expect(second.signal.aborted).toBe(false);
+	});
+
+	it('should notify listeners when runs start and finish', () => {
+		const manager = new RunManager();
+		const listener = vi.fn();
+		const unsubscribe = manager.onChange(listener);
+
+		const run = manager.start('Canvas');
+		manager.finish(run);
+		unsubscribe();
+		manager.start('Other');
+
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * A workflow run or chat request that is in progress
+ */
+export interface ActiveRun {
+	/** Unique identifier of the run */
+	id: number;
+	/** Description shown to the user, e.g. the canvas name */
+	label: string;
+	/** Path of the file the run belongs to, if any */
+	filePath?: string;
+	/** Signal passed to every request the run makes */
+	signal: AbortSignal;
+}
+
+/**
+ * Tracks in-flight workflow runs and chat requests so they can be cancelled.
+ * Every run owns an AbortController whose signal is passed down to the HTTP requests.
+ *
+ * @class RunManager
+ * @example
+ * const run = runManager.start('My canvas', file.path);
+ * try {
+ *   await workflowExecutor.execute(file, { signal: run.signal });
+ * } finally {
+ *   runManager.finish(run);
+ * }
+ */
+export class RunManager {
+	private runs = new Map<number, { run: ActiveRun; controller: AbortController }>();
+	private listeners = new Set<() => void>();
+	private nextId = 1;
+
+	/**
+	 * Registers a new run
+	 *
+	 * @param {string} label - Description shown to the user
+	 * @param {string} [filePath] - Path of the file the run belongs to
+	 * @returns {ActiveRun} The run, with the signal to pass to its requests
+	 */
+	start(label: string, filePath?: string): ActiveRun {
+		const controller = new AbortController();
+		const run: ActiveRun = { id: this.nextId++, label, filePath, signal: controller.signal };
+
+		this.runs.set(run.id, { run, controller });
+		this.notify();
+		return run;
+	}
+
+	/**
+	 * Removes a run once it has completed, failed or been cancelled
+	 */
+	finish(run: ActiveRun): void {
+		if (this.runs.delete(run.id)) {
+			this.notify();
+		}
+	}
+
+	/**
+	 * Cancels running runs, aborting their requests
+	 *
+	 * @param {string} [filePath] - Only cancel the runs of this file
+	 * @returns {number} How many runs were cancelled
+	 */
+	cancel(filePath?: string): number {
+		let cancelled = 0;
+
+		this.runs.forEach(({ run, controller }) => {
+			if (filePath !== undefined && run.filePath !== filePath) return;
+			if (controller.signal.aborted) return;
+			controller.abort();
+			cancelled++;
+		});
+
+		return cancelled;
+	}
+
+	/**
+	 * Cancels a single run, aborting its requests
+	 */
+	cancelRun(run: ActiveRun): void {
+		this.runs.get(run.id)?.controller.abort();
+	}
+
+	/**
+	 * Lists the runs in progress
+	 *
+	 * @param {string} [filePath] - Only list the runs of this file
+	 */
+	getRuns(filePath?: string): ActiveRun[] {
+		return Array.from(this.runs.values())
+			.map(({ run }) => run)
+			.filter(run => filePath === undefined || run.filePath === filePath);
+	}
+
+	/**
+	 * Subscribes to runs starting or finishing
+	 *
+	 * @param {() => void} listener - Called after every change
+	 * @returns {() => void} Function that removes the listener
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private notify(): void {
+		this.listeners.forEach(listener => listener());
+	}
+}
@@ -0,0 +1,213 @@
+import { TFile } from 'obsidian';
+import { CanvasService } from './CanvasService';
+import { AIProcessingService } from './AIProcessingService';
+import { buildWorkflowGraph, isOnSkippedBranch, selectGroupProcessors, selectProcessors, sortProcessors } from '../utils/workflowGraph';
+import { addLoopDependencies, getWorkflowLoops } from '../utils/workflowLoops';
+import { matchesCondition } from '../utils/edgeConditions';
+import { findStaleProcessors } from '../utils/staleness';
+import type { JSONCanvasData } from '../types/jsoncanvas';
+import type { WorkflowGraph, WorkflowRunOptions, WorkflowRunSummary } from '../types/workflow';
+import { getProcessorTitle } from '../utils/nodeContent';
+import { isAbortError } from '../providers/http';
+
+/**
+ * Runs all AI processors of a canvas in dependency order, so chained
+ * processors always read the output of the processors upstream of them
+ */
+export class WorkflowExecutor {
+	constructor(
+		private canvasService: CanvasService,
+		private aiProcessingService: AIProcessingService
+	) {}
+
+	/**
+	 * Executes the processors on the canvas in topological order.
+	 * A failing processor does not stop independent branches, but every
+	 * processor downstream of it is skipped. The error of a failed processor
+	 * is written into its output nodes.
+	 * A processor whose result does not match the condition on an outgoing edge does not
+	 * pass it down that edge, and processors that no longer receive any upstream result
+	 * this way are marked as skipped instead of being run.
+	 * When the processor ending a loop completes, the loop body runs again unless the
+	 * loop's stop condition matches or its iteration limit is reached. The results of
+	 * earlier iterations are then added to the output nodes of the body as history.
+	 *
+	 * Processors left out of a partial run are not re-run; a processor that
+	 * reads one of them directly receives its cached result, or no input if it has none.
+	 * With `onlyStale`, only processors whose inputs changed since their last run
+	 * and the processors downstream of them are run.
+	 * Once the signal is aborted, the running request is aborted and no further processor starts.
+	 * Processors whose instruction, inputs and model settings are unchanged reuse their
+	 * cached result unless `refresh` is set.
+	 *
+	 * @param file - The canvas file to execute
+	 * @param options - Which processors to run, progress callback, abort signal and cache refresh
+	 * @returns Which processors completed, failed, were skipped, were on branches not taken or were cancelled
+	 * @throws {Error} If the processors form a cycle, a loop is invalid, the target is not a processor or the group has none
+	 */
+	async execute(file: TFile, options: WorkflowRunOptions = {}): Promise<WorkflowRunSummary> {
+		const { onProgress, signal, refresh = false } = options;
+		const data = await this.canvasService.readCanvas(file);
+		const graph = buildWorkflowGraph(data);
+		const selected = await this.selectProcessors(data, graph, options);
+		// Loops only repeat when their whole body is part of the run
+		const loops = getWorkflowLoops(data, graph).filter(loop => loop.body.every(id => selected.has(id)));
+		const order = sortProcessors(addLoopDependencies(graph, loops)).filter(id => selected.has(id));
+
+		const summary: WorkflowRunSummary = {
+			completed: [], failed: [], skipped: [], branchSkipped: [], cancelled: [], cached: [], loops: []
+		};
+		const results = new Map<string, string>();
+		const unavailable = new Set<string>();
+		// Edges whose condition did not match, by the processor that skipped them,
+		// and the processors left without input because of them
+		const skippedEdges = new Set<string>();
+		const skippedBy = new Map<string, string[]>();
+		const offBranch = new Set<string>();
+		// Iteration each repeating loop is in, and the results of earlier iterations
+		const iterations = new Map<string, number>();
+		const history = new Map<string, string[]>();
+		// Processors left to run; a repeating loop queues its body again
+		const queue = [...order];
+		const titles = new Map((data.nodes || []).map(node => [node.id, getProcessorTitle(node)] as [string, string]));
+		const done = () => summary.completed.length + summary.failed.length
+			+ summary.skipped.length + summary.branchSkipped.length + summary.cancelled.length;
+
+		for (let index = 0; index < queue.length; index++) {
+			const processorId = queue[index];
+
+			if (signal?.aborted) {
+				summary.cancelled.push(processorId);
+				continue;
+			}
+
+			const dependencies = Array.from(graph.dependencies.get(processorId) || []);
+
+			if (dependencies.some(id => unavailable.has(id))) {
+				unavailable.add(processorId);
+				summary.skipped.push(processorId);
+				continue;
+			}
+
+			if (isOnSkippedBranch(data, processorId, skippedEdges, offBranch)) {
+				offBranch.add(processorId);
+				results.delete(processorId);
+				summary.branchSkipped.push(processorId);
+				await this.reportSkipped(file, processorId);
+				continue;
+			}
+			offBranch.delete(processorId);
+
+			const title = titles.get(processorId) ?? processorId;
+			const repeating = loops.find(loop => loop.body.includes(processorId) && iterations.has(loop.edgeId));
+			const running = repeating
+				? `${title} (iteration ${iterations.get(repeating.edgeId)} of ${repeating.maxIterations})`
+				: title;
+			onProgress?.({ done: done(), total: order.length, running });
+
+			try {
+				const result = await this.aiProcessingService.processAINode(file, processorId, results, signal, refresh);
+				const loop = loops.find(candidate => candidate.from === processorId);
+				const stopped = loop?.until !== undefined && matchesCondition(loop.until, result.content);
+
+				results.set(processorId, result.content);
+				(skippedBy.get(processorId) ?? []).forEach(edgeId => skippedEdges.delete(edgeId));
+				skippedBy.set(processorId, result.skippedEdges ?? []);
+				result.skippedEdges?.forEach(edgeId => skippedEdges.add(edgeId));
+				summary.completed.push(processorId);
+				if (result.cached) {
+					summary.cached.push(processorId);
+				}
+
+				if (!loop) continue;
+
+				const iteration = iterations.get(loop.edgeId) ?? 1;
+				if (!stopped && iteration < loop.maxIterations) {
+					iterations.set(loop.edgeId, iteration + 1);
+					for (const id of loop.body) {
+						if (results.has(id)) history.set(id, [...(history.get(id) ?? []), results.get(id)!]);
+					}
+
+					// The body's processors are reported again once they run again
+					summary.completed = summary.completed.filter(id => !loop.body.includes(id));
+					summary.cached = summary.cached.filter(id => !loop.body.includes(id));
+					summary.branchSkipped = summary.branchSkipped.filter(id => !loop.body.includes(id));
+					queue.splice(index + 1, 0, ...loop.body);
+					continue;
+				}
+
+				iterations.delete(loop.edgeId);
+				summary.loops.push({ processorId, title, iterations: iteration, limitReached: loop.until !== undefined && !stopped });
+				for (const id of loop.body) {
+					const earlier = history.get(id);
+					history.delete(id);
+					if (earlier) await this.reportHistory(file, id, earlier);
+				}
+			} catch (error) {
+				if (isAbortError(error)) {
+					summary.cancelled.push(processorId);
+					continue;
+				}
+
+				console.error(`Error processing node ${processorId}:`, error);
+				const message = error instanceof Error ? error.message : String(error);
+				unavailable.add(processorId);
+				summary.failed.push({ processorId, title, error: message });
+				await this.reportFailure(file, processorId, message);
+			}
+		}
+
+		onProgress?.({ done: done(), total: order.length });
+
+		return summary;
+	}
+
+	/**
+	 * Decides which processors a run includes
+	 */
+	private async selectProcessors(data: JSONCanvasData, graph: WorkflowGraph, options: WorkflowRunOptions): Promise<Set<string>> {
+		const { target, onlyStale, processorIds, groupId } = options;
+
+		if (target) return selectProcessors(graph, target.processorId, target.mode);
+		if (groupId) return selectGroupProcessors(data, groupId);
+		if (onlyStale) return findStaleProcessors(data, path => this.canvasService.getNoteVersion(path));
+		if (processorIds) return new Set(processorIds);
+		return new Set(graph.processorIds);
+	}
+
+	/**
+	 * Adds the results of earlier loop iterations to a processor's output nodes.
+	 * The final result is already written, so a failure to do so is only logged.
+	 */
+	private async reportHistory(file: TFile, processorId: string, results: string[]): Promise<void> {
+		try {
+			await this.aiProcessingService.writeHistory(file, processorId, results);
+		} catch (error) {
+			console.error(`Error writing loop history of ${processorId}:`, error);
+		}
+	}
+
+	/**
+	 * Marks a processor on a branch that was not taken as skipped.
+	 * It was not going to run anyway, so a failure to do so is only logged.
+	 */
+	private async reportSkipped(file: TFile, processorId: string): Promise<void> {
+		try {
+			await this.aiProcessingService.skipProcessor(file, processorId);
+		} catch (error) {
+			console.error(`Error marking ${processorId} as skipped:`, error);
+		}
+	}
+
+	/**
+	 * Writes a processor's error into its output nodes.
+	 * A failure to do so must not hide the original error, so it is only logged.
+	 */
+	private async reportFailure(file: TFile, processorId: string, message: string): Promise<void> {
+		try {
+			await this.aiProcessingService.writeError(file, processorId, message);
+		} catch (error) {
+			console.error(`Error writing failure of ${processorId} to its outputs:`, error);
+		}
+	}
+}
@@ -40,8 +40,12 @@ export enum AgentMode {
  * @interface DailyAIAssistantSettings
  */
 export interface DailyAIAssistantSettings {
-	/** Base URL for the LM Studio API endpoint (default: 'http://localhost:1234/v1') */
+	/** LLM backend used for all chat completions (default: 'lmstudio') */
+	provider: import('./provider').ProviderId;
+	/** Base URL of the selected backend's server (default: 'http://localhost:1234/v1') */
 	lmStudioUrl: string;
+	/** Optional API key for backends that require authentication */
+	apiKey: string;
 	/** Name/ID of the AI model to use for chat completions */
 	modelName: string;
 	/** Whether to automatically show the assistant when opening a daily note */
@@ -56,6 +60,20 @@ export interface DailyAIAssistantSettings {
 	maxTokens: number;
 	/** Temperature for AI generation (0-1, higher = more creative, default: 0.7) */
 	temperature: number;
+	/** Whether to stream responses token by token instead of waiting for the full answer */
+	streamResponses: boolean;
+	/** Seconds to wait for the server to respond or send the next token before giving up (default: 120) */
+	requestTimeoutSeconds: number;
+	/** How many times a request is retried when the server is busy or unreachable (default: 3) */
+	maxRetries: number;
+	/** Whether notes read through canvas file nodes keep their YAML front matter */
+	includeFrontmatter: boolean;
+	/** Folder holding the prompt partials that processor instructions include with `{{> name}}` (default: 'Prompts') */
+	promptPartialsFolder: string;
+	/** Folder holding the groups saved as stages for reuse in other canvases (default: 'Stages') */
+	stagesFolder: string;
+	/** Paths of the canvases that re-run automatically when a note they read changes */
+	watchedCanvases: string[];
 	/** The personality preset for the assistant's responses */
 	personality: PersonalityPreset;
 	/** Whether to include context from all open tabs in the workspace */
@@ -75,7 +93,9 @@ export interface DailyAIAssistantSettings {
  * @const {DailyAIAssistantSettings}
  */
 export const DEFAULT_SETTINGS: DailyAIAssistantSettings = {
+	provider: 'lmstudio',
 	lmStudioUrl: 'http://localhost:1234/v1',
+	apiKey: '',
 	modelName: '',
 	autoShowOnDailyNote: true,
 	daysOfContext: 7,
@@ -83,6 +103,13 @@ export const DEFAULT_SETTINGS: DailyAIAssistantSettings = {
 	futureDailyNotesInContext: 0,
 	maxTokens: 150,
 	temperature: 0.7,
+	streamResponses: true,
+	requestTimeoutSeconds: 120,
+	maxRetries: 3,
+	includeFrontmatter: false,
+	promptPartialsFolder: 'Prompts',
+	stagesFolder: 'Stages',
+	watchedCanvases: [],
 	personality: 'concise',
 	includeOpenTabs: true,
 	agentMode: AgentMode.SINGLE
@@ -0,0 +1,93 @@
+import type { Message } from './index';
+import type { JsonSchema } from '../utils/jsonSchema';
+
+/**
+ * Identifiers of the built-in LLM backends
+ */
+export type ProviderId = 'lmstudio' | 'ollama' | 'llamacpp' | 'openai-compatible';
+
+/**
+ * Connection details used to create a provider
+ */
+export interface ProviderConnection {
+	/** Base URL of the server, e.g. 'http://localhost:1234/v1' */
+	baseUrl: string;
+	/** Optional API key sent as a bearer token */
+	apiKey?: string;
+}
+
+/**
+ * Sampling parameters for a single chat request
+ */
+export interface ChatRequestOptions {
+	/** Model identifier to use */
+	model: string;
+	/** Sampling temperature */
+	temperature: number;
+	/** Maximum number of tokens to generate */
+	maxTokens: number;
+	/** Asks the server to reply with JSON matching this schema */
+	jsonSchema?: JsonSchema;
+	/** Aborts the request when signalled */
+	signal?: AbortSignal;
+}
+
+/**
+ * Callback invoked for every streamed token
+ *
+ * @param token - The newly received text
+ * @param content - All text received so far
+ */
+export type TokenCallback = (token: string, content: string) => void;
+
+/**
+ * A backend that can answer chat completion requests
+ */
+export interface LLMProvider {
+	/** Identifier of the backend */
+	readonly id: ProviderId;
+
+	/**
+	 * Sends a chat request and waits for the complete answer
+	 */
+	chat(messages: Message[], options: ChatRequestOptions): Promise<string>;
+
+	/**
+	 * Sends a chat request and reports tokens as they are generated
+	 * @returns The complete answer
+	 */
+	stream(messages: Message[], options: ChatRequestOptions, onToken: TokenCallback): Promise<string>;
+
+	/**
+	 * Lists the models the server can use
+	 */
+	listModels(): Promise<string[]>;
+}
+
+/**
+ * Outcome of a connection test against the selected backend
+ */
+export interface ConnectionTestResult {
+	/** Whether the server answered the model list request */
+	ok: boolean;
+	/** Round-trip time of the request in milliseconds */
+	latencyMs: number;
+	/** Models reported by the server */
+	models: string[];
+	/** Error message if the request failed */
+	error?: string;
+}
+
+/**
+ * Describes a backend that can be selected in settings
+ */
+export interface ProviderDefinition {
+	/** Identifier stored in settings */
+	id: ProviderId;
+	/** Name shown in the settings dropdown */
+	name: string;
+	/** URL suggested when the backend is selected */
+	defaultUrl: string;
+	/** Creates a provider for the given connection */
+	create(connection: ProviderConnection): LLMProvider;
+}
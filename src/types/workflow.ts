@@ -0,0 +1,290 @@
+/**
+ * Types for executing AI processing workflows on a canvas
+ */
+
+import type { JsonSchema } from '../utils/jsonSchema';
+
+/**
+ * Dependency graph between the AI processor nodes of a canvas
+ */
+export interface WorkflowGraph {
+	/** IDs of all processor nodes, in canvas file order */
+	processorIds: string[];
+	/** Maps each processor ID to the IDs of the processors it reads from */
+	dependencies: Map<string, Set<string>>;
+}
+
+/**
+ * A processor that failed during a workflow run
+ */
+export interface WorkflowFailure {
+	/** ID of the processor node that failed */
+	processorId: string;
+	/** Title of the processor node, for error reports */
+	title: string;
+	/** Human-readable error message */
+	error: string;
+}
+
+/**
+ * Outcome of a complete workflow run
+ */
+export interface WorkflowRunSummary {
+	/** Processors that finished successfully, in execution order */
+	completed: string[];
+	/** Processors that threw an error */
+	failed: WorkflowFailure[];
+	/** Processors that were not run because an upstream processor failed */
+	skipped: string[];
+	/** Processors that were not run because they are on a branch whose edge condition did not match */
+	branchSkipped: string[];
+	/** Processors that were stopped or never started because the run was cancelled */
+	cancelled: string[];
+	/** Completed processors whose result was reused from the cache instead of requested again */
+	cached: string[];
+	/** Loops that ran, in the order they finished */
+	loops: WorkflowLoopOutcome[];
+}
+
+/**
+ * Edge that sends a processor's result back to a processor it reads from, declared
+ * with a `loop` label, so the processors in between run again until its stop condition matches
+ */
+export interface WorkflowLoop {
+	/** ID of the loop edge */
+	edgeId: string;
+	/** The processor whose result decides whether the loop repeats, e.g. a critic */
+	from: string;
+	/** The processor the loop returns to, e.g. a writer */
+	to: string;
+	/** The processors from `to` to `from` that run again in each iteration, in execution order */
+	body: string[];
+	/** Stops the loop once the result of `from` matches, declared as `until:`; without one the loop always runs `maxIterations` times */
+	until?: EdgeCondition;
+	/** Highest number of times the body runs, including the first, declared as `max:` */
+	maxIterations: number;
+}
+
+/**
+ * How a loop ended during a workflow run
+ */
+export interface WorkflowLoopOutcome {
+	/** ID of the processor whose result decides whether the loop repeats */
+	processorId: string;
+	/** Title of that processor, for reports */
+	title: string;
+	/** How many times the loop body ran */
+	iterations: number;
+	/** Whether the loop stopped at its iteration limit before its stop condition matched */
+	limitReached: boolean;
+}
+
+/**
+ * Result of running a single processor
+ */
+export interface ProcessorResult {
+	/** The answer written to the processor's outputs */
+	content: string;
+	/** Whether the answer was reused from the result cache */
+	cached: boolean;
+	/** IDs of the processor's outgoing edges whose condition did not match the answer */
+	skippedEdges?: string[];
+}
+
+/**
+ * Progress of a running workflow
+ */
+export interface WorkflowProgress {
+	/** Processors that completed, failed or were skipped so far */
+	done: number;
+	/** Number of processors in the run */
+	total: number;
+	/** Title of the processor that is running now, if any */
+	running?: string;
+}
+
+/**
+ * Callback invoked whenever a workflow run makes progress
+ */
+export type WorkflowProgressCallback = (progress: WorkflowProgress) => void;
+
+/**
+ * Options for a workflow run
+ */
+export interface WorkflowRunOptions {
+	/** Run only the processors related to this one instead of all of them */
+	target?: WorkflowRunTarget;
+	/** Called before each processor runs and once the run is over */
+	onProgress?: WorkflowProgressCallback;
+	/** Cancels the run and aborts the request in progress when signalled */
+	signal?: AbortSignal;
+	/** Request every processor again instead of reusing cached results */
+	refresh?: boolean;
+	/** Run only the processors whose inputs changed since their last run, and everything downstream of them */
+	onlyStale?: boolean;
+	/** Run only these processors, e.g. the ones affected by a changed note */
+	processorIds?: string[];
+	/** Run only the processors inside this group node, including nested groups */
+	groupId?: string;
+}
+
+/**
+ * Which processors a run starting from one processor includes
+ * - single: only the chosen processor
+ * - upstream: the chosen processor and every processor it depends on
+ * - downstream: the chosen processor and every processor that depends on it
+ */
+export type WorkflowRunMode = 'single' | 'upstream' | 'downstream';
+
+/**
+ * Labels shown for each run mode
+ */
+export const WORKFLOW_RUN_MODE_LABELS: Record<WorkflowRunMode, string> = {
+	single: 'Run this node only',
+	upstream: 'Run with upstream dependencies',
+	downstream: 'Run this node and everything downstream'
+};
+
+/**
+ * A processor to start a partial workflow run from
+ */
+export interface WorkflowRunTarget {
+	/** ID of the chosen processor node */
+	processorId: string;
+	/** Which related processors to run with it */
+	mode: WorkflowRunMode;
+}
+
+/**
+ * Model settings a processor node can declare to override the global settings
+ */
+export interface ProcessorSettings {
+	/** Model identifier, declared as `model:` */
+	model?: string;
+	/** Sampling temperature, declared as `temperature:` */
+	temperature?: number;
+	/** Maximum response tokens, declared as `max_tokens:` */
+	maxTokens?: number;
+}
+
+/**
+ * What a map processor runs its instruction on
+ * - inputs: each connected input
+ * - items: each top-level list item of the inputs
+ * - sections: each section under the top-level headings of the inputs
+ */
+export type MapSplit = 'inputs' | 'items' | 'sections';
+
+/**
+ * Where a map processor writes its results
+ * - combined: all results in each output, under a heading per item
+ * - separate: one output node per item, creating output nodes as needed
+ */
+export type MapOutputs = 'combined' | 'separate';
+
+/**
+ * Settings of a processor that runs its instruction once per item, declared with `mode: map`
+ */
+export interface MapSettings {
+	/** What the instruction runs on, declared as `split:` */
+	split: MapSplit;
+	/** Where the results go, declared as `outputs:` */
+	outputs: MapOutputs;
+	/** How many items run at the same time, declared as `concurrency:` */
+	concurrency: number;
+}
+
+/**
+ * Settings of a processor that summarises its inputs in chunks and combines the summaries,
+ * declared with `mode: reduce`
+ */
+export interface ReduceSettings {
+	/** Estimated tokens each request may use for the instruction and inputs, declared as `chunk_tokens:` */
+	chunkTokens: number;
+}
+
+/**
+ * Persona an agent node connected to a processor lends to its requests
+ */
+export interface AgentPersona {
+	/** Name of the agent, used to title its perspective */
+	name: string;
+	/** System prompt the requests are sent with */
+	systemPrompt: string;
+	/** Model settings of the agent, overridden by the processor's own */
+	settings: ProcessorSettings;
+}
+
+/**
+ * Instruction and settings parsed from a processor node
+ */
+export interface ProcessorDefinition {
+	/** The instruction sent to the model */
+	instruction: string;
+	/** Overrides for the global model settings */
+	settings: ProcessorSettings;
+	/** Schema of the JSON the processor replies with, declared in a ` ```schema ` block */
+	schema?: JsonSchema;
+	/** Map settings, for processors that run once per item */
+	map?: MapSettings;
+	/** Reduce settings, for processors that combine inputs too large for one request */
+	reduce?: ReduceSettings;
+}
+
+/**
+ * Condition on an edge leaving a processor, declared in the edge label.
+ * A processor's result only flows down the edges whose condition matches it.
+ * - equals: `if: positive` or `if: category = positive` for a field of a structured result
+ * - contains: `if: contains "TODO"`, or `if: not contains "TODO"`
+ * - else: `else`, matched when none of the processor's other conditions match
+ */
+export type EdgeCondition =
+	| { kind: 'equals'; value: string; field?: string }
+	| { kind: 'contains'; value: string; negate: boolean }
+	| { kind: 'else' };
+
+/**
+ * How a processor result is written into a note connected as an output
+ * - append: after the existing content
+ * - prepend: before the existing content, below the front matter
+ * - replace: instead of the whole note, keeping its front matter
+ * - section: instead of the content under the heading the file node links to
+ */
+export type NoteOutputMode = 'append' | 'prepend' | 'replace' | 'section';
+
+/**
+ * Labels shown for each note output mode
+ */
+export const NOTE_OUTPUT_MODE_LABELS: Record<NoteOutputMode, string> = {
+	append: 'Append to the end of the note',
+	prepend: 'Insert at the top of the note',
+	replace: 'Replace the whole note',
+	section: 'Replace the section under the linked heading'
+};
+
+/**
+ * Part a node plays in an AI workflow
+ */
+export type NodeRole = 'processor' | 'output' | 'agent' | 'input';
+
+/**
+ * Properties the plugin stores on canvas nodes next to the JSON Canvas fields
+ */
+export interface WorkflowNodeProperties {
+	/** Role of the node; nodes without one are detected from their markdown */
+	aiRole?: NodeRole;
+	/** ISO timestamp of the last time a processor wrote into the node, or of a processor's own last run */
+	lastRunAt?: string;
+	/** Hash of a processor's text and input texts at its last run, used to detect stale results */
+	inputHash?: string;
+	/** Result cache key of a processor's last run, so partial runs can reuse its result */
+	resultKey?: string;
+	/** ISO timestamp of the original run, set when the content was reused from the result cache */
+	cachedAt?: string;
+	/** How results are written into the note of a file node connected as an output */
+	noteOutputMode?: NoteOutputMode;
+	/** Set when the node was on a branch whose edge condition did not match in the last run */
+	skipped?: boolean;
+	/** Set on a group whose members the Flow view hides behind its header */
+	collapsed?: boolean;
+}
@@ -0,0 +1,89 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { diffLines } from '../utils/lineDiff';
+
+/**
+ * Unchanged lines shown around each change in the preview
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Modal previewing the changes a processor is about to make to a note,
+ * with buttons to write them or keep the note unchanged.
+ *
+ * @class NoteDiffModal
+ * @extends {Modal}
+ * @example
+ * const overwrite = await new NoteDiffModal(app, file, before, after).confirm();
+ */
+export class NoteDiffModal extends Modal {
+	private confirmed = false;
+	private resolve: (confirmed: boolean) => void = () => {};
+
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {TFile} file - The note about to change
+	 * @param {string} before - Current content of the note
+	 * @param {string} after - Content of the note after the write
+	 */
+	constructor(app: App, private file: TFile, private before: string, private after: string) {
+		super(app);
+	}
+
+	/**
+	 * Opens the modal and waits for the user's choice
+	 *
+	 * @returns {Promise<boolean>} Whether the note should be overwritten; closing the modal keeps it
+	 */
+	confirm(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		this.setTitle(`Overwrite ${this.file.basename}?`);
+
+		contentEl.createEl('p', {
+			text: 'A processor result replaces existing text in this note. Review the changes before they are written.'
+		});
+
+		const diff = diffLines(this.before, this.after);
+		const changed = diff.map((line, index) => line.type !== 'same' ? index : -1).filter(index => index >= 0);
+		const isNearChange = (index: number) => changed.some(change => Math.abs(change - index) <= CONTEXT_LINES);
+
+		const diffEl = contentEl.createDiv({ cls: 'ai-note-diff' });
+		let skipping = false;
+		diff.forEach((line, index) => {
+			if (!isNearChange(index)) {
+				// Collapse each run of unchanged lines far from a change into one marker
+				if (!skipping) diffEl.createDiv({ cls: 'ai-note-diff-line is-collapsed', text: '⋯' });
+				skipping = true;
+				return;
+			}
+
+			skipping = false;
+			const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+			diffEl.createDiv({ cls: `ai-note-diff-line is-${line.type}`, text: `${prefix}${line.text}` });
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Keep note')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Overwrite')
+				.setCta()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
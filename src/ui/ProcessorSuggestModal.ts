@@ -0,0 +1,173 @@
+import { App, FuzzySuggestModal, SuggestModal, TFile } from 'obsidian';
+import type { JSONCanvasGroupNode, JSONCanvasNode } from '../types/jsoncanvas';
+import { NOTE_OUTPUT_MODE_LABELS, NoteOutputMode, WORKFLOW_RUN_MODE_LABELS, WorkflowRunMode } from '../types/workflow';
+import { getProcessorTitle } from '../utils/nodeContent';
+import { getGroupLabel } from '../utils/canvasGroups';
+
+/**
+ * Fuzzy-search modal listing the AI processors of a canvas by title.
+ *
+ * @class ProcessorSuggestModal
+ * @extends {FuzzySuggestModal<JSONCanvasNode>}
+ */
+export class ProcessorSuggestModal extends FuzzySuggestModal<JSONCanvasNode> {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {JSONCanvasNode[]} processors - Processor nodes to choose from
+	 * @param {(processor: JSONCanvasNode) => void} onChoose - Called with the chosen processor
+	 */
+	constructor(
+		app: App,
+		private processors: JSONCanvasNode[],
+		private onChoose: (processor: JSONCanvasNode) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose a processor to run...');
+	}
+
+	getItems(): JSONCanvasNode[] {
+		return this.processors;
+	}
+
+	getItemText(processor: JSONCanvasNode): string {
+		return getProcessorTitle(processor);
+	}
+
+	onChooseItem(processor: JSONCanvasNode): void {
+		this.onChoose(processor);
+	}
+}
+
+/**
+ * Fuzzy-search modal listing the groups of a canvas by label.
+ *
+ * @class GroupSuggestModal
+ * @extends {FuzzySuggestModal<JSONCanvasGroupNode>}
+ */
+export class GroupSuggestModal extends FuzzySuggestModal<JSONCanvasGroupNode> {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {JSONCanvasGroupNode[]} groups - Group nodes to choose from
+	 * @param {(group: JSONCanvasGroupNode) => void} onChoose - Called with the chosen group
+	 * @param {string} [placeholder] - Prompt shown in the search field
+	 */
+	constructor(
+		app: App,
+		private groups: JSONCanvasGroupNode[],
+		private onChoose: (group: JSONCanvasGroupNode) => void,
+		placeholder = 'Choose a group to run...'
+	) {
+		super(app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): JSONCanvasGroupNode[] {
+		return this.groups;
+	}
+
+	getItemText(group: JSONCanvasGroupNode): string {
+		return getGroupLabel(group);
+	}
+
+	onChooseItem(group: JSONCanvasGroupNode): void {
+		this.onChoose(group);
+	}
+}
+
+/**
+ * Fuzzy-search modal listing the saved stages by name.
+ *
+ * @class StageSuggestModal
+ * @extends {FuzzySuggestModal<TFile>}
+ */
+export class StageSuggestModal extends FuzzySuggestModal<TFile> {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {TFile[]} stages - Canvas files of the stages to choose from
+	 * @param {(stage: TFile) => void} onChoose - Called with the chosen stage
+	 */
+	constructor(
+		app: App,
+		private stages: TFile[],
+		private onChoose: (stage: TFile) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose a stage to insert...');
+	}
+
+	getItems(): TFile[] {
+		return this.stages;
+	}
+
+	getItemText(stage: TFile): string {
+		return stage.basename;
+	}
+
+	onChooseItem(stage: TFile): void {
+		this.onChoose(stage);
+	}
+}
+
+/**
+ * Modal asking which processors related to the chosen one should run with it.
+ *
+ * @class RunModeSuggestModal
+ * @extends {SuggestModal<WorkflowRunMode>}
+ */
+export class RunModeSuggestModal extends SuggestModal<WorkflowRunMode> {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {(mode: WorkflowRunMode) => void} onChoose - Called with the chosen run mode
+	 */
+	constructor(app: App, private onChoose: (mode: WorkflowRunMode) => void) {
+		super(app);
+		this.setPlaceholder('How should this processor run?');
+	}
+
+	getSuggestions(query: string): WorkflowRunMode[] {
+		const modes = Object.keys(WORKFLOW_RUN_MODE_LABELS) as WorkflowRunMode[];
+		return modes.filter(mode =>
+			WORKFLOW_RUN_MODE_LABELS[mode].toLowerCase().includes(query.toLowerCase())
+		);
+	}
+
+	renderSuggestion(mode: WorkflowRunMode, el: HTMLElement): void {
+		el.setText(WORKFLOW_RUN_MODE_LABELS[mode]);
+	}
+
+	onChooseSuggestion(mode: WorkflowRunMode): void {
+		this.onChoose(mode);
+	}
+}
+
+/**
+ * Modal asking how processor results should be written into a note.
+ *
+ * @class NoteOutputModeSuggestModal
+ * @extends {SuggestModal<NoteOutputMode>}
+ */
+export class NoteOutputModeSuggestModal extends SuggestModal<NoteOutputMode> {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {(mode: NoteOutputMode) => void} onChoose - Called with the chosen output mode
+	 */
+	constructor(app: App, private onChoose: (mode: NoteOutputMode) => void) {
+		super(app);
+		this.setPlaceholder('How should results be written into this note?');
+	}
+
+	getSuggestions(query: string): NoteOutputMode[] {
+		const modes = Object.keys(NOTE_OUTPUT_MODE_LABELS) as NoteOutputMode[];
+		return modes.filter(mode =>
+			NOTE_OUTPUT_MODE_LABELS[mode].toLowerCase().includes(query.toLowerCase())
+		);
+	}
+
+	renderSuggestion(mode: NoteOutputMode, el: HTMLElement): void {
+		el.setText(NOTE_OUTPUT_MODE_LABELS[mode]);
+	}
+
+	onChooseSuggestion(mode: NoteOutputMode): void {
+		this.onChoose(mode);
+	}
+}
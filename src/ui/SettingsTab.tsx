@@ -1,12 +1,13 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, DropdownComponent, PluginSettingTab, Setting, TextComponent } from 'obsidian';
 import type DailyAIAssistantPlugin from '../main';
 import type { PersonalityPreset } from '../types';
-import { AgentMode } from '../types';
+import type { ProviderId } from '../types/provider';
+import { AgentMode, DEFAULT_SETTINGS } from '../types';
 
 /**
  * Settings tab for the Daily AI Assistant plugin.
  * Provides UI for configuring all plugin settings including:
- * - LM Studio connection settings
+ * - AI backend (provider) connection settings
  * - AI model parameters
  * - Daily note behavior
  * - Assistant personality
@@ -41,14 +42,37 @@ export class DailyAIAssistantSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'Daily AI Assistant Settings' });
 
-		// LM Studio settings
-		containerEl.createEl('h3', { text: 'LM Studio Connection' });
+		// AI backend settings
+		containerEl.createEl('h3', { text: 'AI Backend' });
+
+		const providers = this.plugin.aiService.providers;
+		const currentProvider = providers.get(this.plugin.settings.provider);
+
+		new Setting(containerEl)
+			.setName('Provider')
+			.setDesc('The local server that runs your models')
+			.addDropdown(dropdown => {
+				for (const definition of providers.getAll()) {
+					dropdown.addOption(definition.id, definition.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value: ProviderId) => {
+						// Switch to the new backend's default URL unless the user customised it
+						if (!this.plugin.settings.lmStudioUrl || this.plugin.settings.lmStudioUrl === currentProvider?.defaultUrl) {
+							this.plugin.settings.lmStudioUrl = providers.get(value)?.defaultUrl ?? '';
+						}
+						this.plugin.settings.provider = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
 
 		new Setting(containerEl)
-			.setName('LM Studio URL')
-			.setDesc('The URL where LM Studio is running')
+			.setName('Server URL')
+			.setDesc('The URL where the AI server is running')
 			.addText(text => text
-				.setPlaceholder('http://localhost:1234/v1')
+				.setPlaceholder(currentProvider?.defaultUrl ?? '')
 				.setValue(this.plugin.settings.lmStudioUrl)
 				.onChange(async (value) => {
 					this.plugin.settings.lmStudioUrl = value;
@@ -56,14 +80,88 @@ export class DailyAIAssistantSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Model Name')
-			.setDesc('Leave empty for auto-detection')
-			.addText(text => text
-				.setPlaceholder('local-model')
-				.setValue(this.plugin.settings.modelName)
-				.onChange(async (value) => {
-					this.plugin.settings.modelName = value;
-					await this.plugin.saveSettings();
+			.setName('API Key')
+			.setDesc('Only needed for servers that require authentication')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setValue(this.plugin.settings.apiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.apiKey = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const modelSetting = new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Pick a model the server lists, or type its name if the server does not list it. Auto-detect uses the first model loaded on the server');
+
+		let modelDropdown: DropdownComponent | undefined;
+		let modelText: TextComponent | undefined;
+
+		modelSetting
+			.addDropdown(dropdown => {
+				modelDropdown = dropdown;
+				dropdown.addOption('', 'Auto-detect');
+				if (this.plugin.settings.modelName) {
+					dropdown.addOption(this.plugin.settings.modelName, this.plugin.settings.modelName);
+				}
+				dropdown
+					.setValue(this.plugin.settings.modelName)
+					.onChange(async (value) => {
+						this.plugin.settings.modelName = value;
+						modelText?.setValue(value);
+						await this.plugin.saveSettings();
+					});
+
+				this.loadModelOptions(dropdown, modelSetting);
+			})
+			.addText(text => {
+				modelText = text;
+				text
+					.setPlaceholder('Model name')
+					.setValue(this.plugin.settings.modelName)
+					.onChange(async (value) => {
+						this.plugin.settings.modelName = value.trim();
+						await this.plugin.saveSettings();
+					});
+
+				// Show a typed name in the picker once it is complete
+				text.inputEl.addEventListener('change', () => {
+					const value = this.plugin.settings.modelName;
+					if (modelDropdown && !Array.from(modelDropdown.selectEl.options).some(option => option.value === value)) {
+						modelDropdown.addOption(value, value);
+					}
+					modelDropdown?.setValue(value);
+				});
+			})
+			.addExtraButton(button => button
+				.setIcon('refresh-cw')
+				.setTooltip('Refresh model list')
+				.onClick(async () => {
+					try {
+						await this.plugin.aiService.listModels(true);
+					} catch {
+						// Reported by loadModelOptions when the tab re-renders
+					}
+					this.display();
+				}));
+
+		const connectionSetting = new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc('Check that the server is reachable')
+			.addButton(button => button
+				.setButtonText('Test connection')
+				.onClick(async () => {
+					button.setDisabled(true);
+					connectionSetting.setDesc('Testing...');
+
+					const result = await this.plugin.aiService.testConnection();
+
+					connectionSetting.setDesc(result.ok
+						? `✓ Connected in ${result.latencyMs} ms - ${result.models.length} model(s) available`
+						: `✗ Connection failed after ${result.latencyMs} ms: ${result.error}`);
+					button.setDisabled(false);
 				}));
 
 		// Multi-Agent Mode
@@ -111,9 +209,9 @@ export class DailyAIAssistantSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Max response tokens')
-			.setDesc('Maximum length of AI responses')
+			.setDesc('Maximum length of AI responses. Processor nodes can override this with max_tokens:')
 			.addSlider(slider => slider
-				.setLimits(50, 500, 10)
+				.setLimits(50, 4096, 50)
 				.setValue(this.plugin.settings.maxTokens)
 				.setDynamicTooltip()
 				.onChange(async (value) => {
@@ -132,5 +230,99 @@ export class DailyAIAssistantSettingTab extends PluginSettingTab {
 					this.plugin.settings.temperature = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Stream responses')
+			.setDesc('Show AI responses as they are generated. Disable if your server does not support streaming')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streamResponses)
+				.onChange(async (value) => {
+					this.plugin.settings.streamResponses = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Request timeout')
+			.setDesc('Seconds to wait for the server to respond, or to send the next token while streaming')
+			.addSlider(slider => slider
+				.setLimits(10, 600, 10)
+				.setValue(this.plugin.settings.requestTimeoutSeconds)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.requestTimeoutSeconds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How many times to retry when the server is busy, overloaded or unreachable. Errors such as an oversized prompt are never retried')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.maxRetries)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Canvas Workflows' });
+
+		new Setting(containerEl)
+			.setName('Include front matter')
+			.setDesc('Send the YAML front matter of notes that file nodes point at to processors')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.includeFrontmatter = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Prompt partials folder')
+			.setDesc('Folder of notes that processor instructions can include with {{> note name}}')
+			.addText(text => text
+				.setPlaceholder('Prompts')
+				.setValue(this.plugin.settings.promptPartialsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.promptPartialsFolder = value.trim() || DEFAULT_SETTINGS.promptPartialsFolder;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Stages folder')
+			.setDesc('Folder of the groups saved as stages, which any canvas can insert')
+			.addText(text => text
+				.setPlaceholder('Stages')
+				.setValue(this.plugin.settings.stagesFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.stagesFolder = value.trim() || DEFAULT_SETTINGS.stagesFolder;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Fills the model dropdown with the models reported by the server.
+	 * Keeps the dropdown usable with just the configured model if the server is unreachable.
+	 *
+	 * @param {DropdownComponent} dropdown - The model dropdown
+	 * @param {Setting} setting - The setting containing the dropdown, used to report errors
+	 */
+	private async loadModelOptions(dropdown: DropdownComponent, setting: Setting): Promise<void> {
+		try {
+			const models = await this.plugin.aiService.listModels();
+
+			for (const model of models) {
+				if (model !== this.plugin.settings.modelName) {
+					dropdown.addOption(model, model);
+				}
+			}
+			dropdown.setValue(this.plugin.settings.modelName);
+
+			if (models.length === 0) {
+				setting.setDesc('No models are loaded on the server');
+			}
+		} catch (error) {
+			setting.setDesc(`Could not load models: ${error instanceof Error ? error.message : error}`);
+		}
 	}
 }
@@ -0,0 +1,49 @@
+import { App, Modal } from 'obsidian';
+import type { WorkflowRunSummary } from '../types/workflow';
+
+/**
+ * Modal listing the processors that failed during a workflow run and why.
+ *
+ * @class WorkflowErrorModal
+ * @extends {Modal}
+ */
+export class WorkflowErrorModal extends Modal {
+	/**
+	 * @param {App} app - The Obsidian app instance
+	 * @param {WorkflowRunSummary} summary - Outcome of the run, with at least one failure
+	 */
+	constructor(app: App, private summary: WorkflowRunSummary) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { completed, failed, skipped, branchSkipped, cancelled } = this.summary;
+		const total = completed.length + failed.length + skipped.length + branchSkipped.length + cancelled.length;
+
+		this.setTitle('Workflow errors');
+
+		contentEl.createEl('p', {
+			text: `${failed.length} of ${total} processors failed. ` +
+				'The error was also written into their output nodes.'
+		});
+
+		const list = contentEl.createEl('ul', { cls: 'ai-workflow-error-list' });
+		for (const failure of failed) {
+			const item = list.createEl('li');
+			item.createEl('strong', { text: failure.title });
+			item.createDiv({ cls: 'ai-workflow-error-message', text: failure.error });
+		}
+
+		if (skipped.length > 0) {
+			contentEl.createEl('p', {
+				cls: 'ai-workflow-error-skipped',
+				text: `${skipped.length} downstream processor(s) were skipped because their inputs failed.`
+			});
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,80 @@
+import { App, Notice } from 'obsidian';
+import type { WorkflowProgress, WorkflowRunSummary } from '../types/workflow';
+import { WorkflowErrorModal } from './WorkflowErrorModal';
+
+/**
+ * Reports the progress and outcome of a workflow run to the user
+ * with notices, and opens an error panel when processors fail.
+ *
+ * @class WorkflowRunReporter
+ * @example
+ * const reporter = new WorkflowRunReporter(app);
+ * try {
+ *   reporter.finish(await workflowExecutor.execute(file, { onProgress: reporter.onProgress }));
+ * } catch (error) {
+ *   reporter.fail(error);
+ * }
+ */
+export class WorkflowRunReporter {
+	/** Notice kept open while the run is in progress */
+	private progressNotice: Notice | null = null;
+
+	constructor(private app: App) {}
+
+	/**
+	 * Progress callback to pass to `WorkflowExecutor.execute`
+	 */
+	readonly onProgress = (progress: WorkflowProgress): void => {
+		const message = progress.running
+			? `${progress.done}/${progress.total} processors done, running ${progress.running}...`
+			: `${progress.done}/${progress.total} processors done`;
+
+		if (this.progressNotice) {
+			this.progressNotice.setMessage(message);
+		} else {
+			this.progressNotice = new Notice(message, 0);
+		}
+	};
+
+	/**
+	 * Reports a finished or cancelled run, opening the error panel if any processor failed
+	 */
+	finish(summary: WorkflowRunSummary): void {
+		this.hideProgress();
+
+		const total = summary.completed.length + summary.failed.length
+			+ summary.skipped.length + summary.branchSkipped.length + summary.cancelled.length;
+		const cached = summary.cached.length > 0 ? ` (${summary.cached.length} from cache)` : '';
+		const branches = summary.branchSkipped.length > 0 ? `, ${summary.branchSkipped.length} on branches not taken` : '';
+		const done = `${summary.completed.length}/${total} processors done${cached}${branches}`;
+
+		if (total === 0) {
+			new Notice('Nothing to run: all results are up to date');
+		} else if (summary.failed.length > 0) {
+			new Notice(`Workflow finished with ${summary.failed.length} failed processor(s)`);
+			new WorkflowErrorModal(this.app, summary).open();
+		} else if (summary.cancelled.length > 0) {
+			new Notice(`Workflow cancelled: ${done}`);
+		} else {
+			new Notice(`Workflow finished: ${done}`);
+		}
+
+		for (const loop of summary.loops.filter(outcome => outcome.limitReached)) {
+			new Notice(`Loop ending at ${loop.title} stopped after ${loop.iterations} iterations without meeting its stop condition`);
+		}
+	}
+
+	/**
+	 * Reports a run that could not start or stopped unexpectedly
+	 */
+	fail(error: unknown): void {
+		this.hideProgress();
+		console.error('Error running workflow:', error);
+		new Notice(`Workflow failed: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	private hideProgress(): void {
+		this.progressNotice?.hide();
+		this.progressNotice = null;
+	}
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getCacheKey, sha256, CacheKeyInput } from './cacheKey';
+
+const request: CacheKeyInput = {
+	instruction: 'Summarize the input',
+	inputs: ['First note', 'Second note'],
+	model: 'qwen2.5-7b',
+	temperature: 0.7,
+	maxTokens: 500
+};
+
+describe('cacheKey', () => {
+	describe('sha256', () => {
+		it('should return the hex digest of the text', async () => {
+			expect(await sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+		});
+	});
+
+	describe('getCacheKey', () => {
+		it('should return the same key for the same request', async () => {
+			expect(await getCacheKey({ ...request })).toBe(await getCacheKey(request));
+		});
+
+		it('should change when any part of the request changes', async () => {
+			const key = await getCacheKey(request);
+			const variants: CacheKeyInput[] = [
+				{ ...request, instruction: 'Translate the input' },
+				{ ...request, inputs: ['First note', 'Second note edited'] },
+				{ ...request, inputs: ['Second note', 'First note'] },
+				{ ...request, model: 'llama3' },
+				{ ...request, temperature: 0.2 },
+				{ ...request, maxTokens: 1000 },
+				{ ...request, schema: { type: 'array' } },
+				{ ...request, systemPrompt: 'You are a strict editor.' }
+			];
+
+			for (const variant of variants) {
+				expect(await getCacheKey(variant)).not.toBe(key);
+			}
+		});
+
+		it('should not confuse inputs that join to the same text', async () => {
+			const joined = await getCacheKey({ ...request, inputs: ['ab', 'c'] });
+
+			expect(await getCacheKey({ ...request, inputs: ['a', 'bc'] })).not.toBe(joined);
+		});
+	});
+});
@@ -0,0 +1,61 @@
+/**
+ * Keys for the processor result cache, derived from everything that
+ * influences a processor's answer
+ */
+
+import type { JsonSchema } from './jsonSchema';
+
+/**
+ * What a processor request depends on
+ */
+export interface CacheKeyInput {
+	/** The processor's instruction, without settings lines */
+	instruction: string;
+	/** Contents of the processor's inputs, in canvas order */
+	inputs: string[];
+	/** Model identifier the request is sent to */
+	model: string;
+	/** Sampling temperature */
+	temperature: number;
+	/** Maximum number of tokens to generate */
+	maxTokens: number;
+	/** Schema the reply must match, for structured processors */
+	schema?: JsonSchema;
+	/** System prompt of the agent the request speaks as, if not the default one */
+	systemPrompt?: string;
+}
+
+/**
+ * Hashes text with SHA-256
+ *
+ * @param {string} text - The text to hash
+ * @returns {Promise<string>} The hash as a lowercase hex string
+ */
+export const sha256 = async (text: string): Promise<string> => {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+};
+
+/**
+ * Computes the cache key of a processor request.
+ * Requests that differ in any field get different keys, so a cached result
+ * is only reused when neither the instruction, the inputs nor the model settings changed.
+ *
+ * @param {CacheKeyInput} input - Instruction, inputs and model settings of the request
+ * @returns {Promise<string>} The cache key
+ * @example
+ * const key = await getCacheKey({ instruction: 'Summarize', inputs: ['...'], model: 'qwen2.5-7b', temperature: 0.7, maxTokens: 500 });
+ */
+export const getCacheKey = async (input: CacheKeyInput): Promise<string> => {
+	// A fixed field order keeps the key stable however the object was built
+	const { instruction, inputs, model, temperature, maxTokens, schema, systemPrompt } = input;
+	const fields: unknown[] = [instruction, inputs, model, temperature, maxTokens];
+
+	// Only structured processors add the schema and only agents a system prompt, so the keys of other results stay valid
+	if (schema) fields.push(schema);
+	if (systemPrompt) fields.push({ systemPrompt });
+
+	return sha256(JSON.stringify(fields));
+};
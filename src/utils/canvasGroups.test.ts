@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData, JSONCanvasGroupNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import { extractStage, findGroupOfNode, getGroupLabel, getGroupMembers, getStageFileName, insertStage, isInsideGroup } from './canvasGroups';
+
+const textNode = (id: string, x: number, y: number): JSONCanvasTextNode => ({
+	id,
+	type: 'text',
+	text: id,
+	x,
+	y,
+	width: 100,
+	height: 100,
+});
+
+const group = (id: string, x: number, y: number, width: number, height: number, label?: string): JSONCanvasGroupNode => ({
+	id,
+	type: 'group',
+	label,
+	x,
+	y,
+	width,
+	height,
+});
+
+// outer contains inner and a; inner contains b; c is outside both
+const data: JSONCanvasData = {
+	nodes: [
+		group('outer', 0, 0, 1000, 600, 'Stage 1'),
+		group('inner', 400, 50, 400, 400),
+		textNode('a', 50, 50),
+		textNode('b', 450, 100),
+		textNode('c', 1200, 0),
+	],
+};
+
+describe('canvasGroups', () => {
+	describe('isInsideGroup', () => {
+		it('should require the node to lie entirely within the group', () => {
+			const stage = group('g', 0, 0, 300, 300);
+
+			expect(isInsideGroup(textNode('in', 100, 100), stage)).toBe(true);
+			expect(isInsideGroup(textNode('overlapping', 250, 100), stage)).toBe(false);
+		});
+	});
+
+	describe('getGroupMembers', () => {
+		it('should include the nodes of nested groups', () => {
+			expect(getGroupMembers(data, 'outer')).toEqual(new Set(['inner', 'a', 'b']));
+			expect(getGroupMembers(data, 'inner')).toEqual(new Set(['b']));
+		});
+
+		it('should return an empty set for unknown groups', () => {
+			expect(getGroupMembers(data, 'missing').size).toBe(0);
+		});
+	});
+
+	describe('findGroupOfNode', () => {
+		it('should return the innermost group containing the node', () => {
+			expect(findGroupOfNode(data, 'b')?.id).toBe('inner');
+			expect(findGroupOfNode(data, 'a')?.id).toBe('outer');
+		});
+
+		it('should return a selected group itself', () => {
+			expect(findGroupOfNode(data, 'inner')?.id).toBe('inner');
+		});
+
+		it('should return null for nodes outside every group', () => {
+			expect(findGroupOfNode(data, 'c')).toBeNull();
+		});
+	});
+
+	describe('getGroupLabel', () => {
+		it('should fall back to the ID for unlabelled groups', () => {
+			expect(getGroupLabel(group('g', 0, 0, 1, 1, 'Research'))).toBe('Research');
+			expect(getGroupLabel(group('g', 0, 0, 1, 1))).toBe('g');
+		});
+	});
+
+	describe('getStageFileName', () => {
+		it('should replace characters file names cannot contain', () => {
+			expect(getStageFileName(group('g', 0, 0, 1, 1, 'Research: Sources/Notes'))).toBe('Research- Sources-Notes.canvas');
+			expect(getStageFileName(group('g', 0, 0, 1, 1))).toBe('g.canvas');
+		});
+	});
+
+	describe('extractStage', () => {
+		const canvas = (): JSONCanvasData => ({
+			nodes: [
+				...data.nodes!,
+				{ ...textNode('p', 200, 300), aiRole: 'processor', inputHash: 'abc', lastRunAt: '2024-01-15T10:00:00.000Z' } as JSONCanvasTextNode,
+			],
+			edges: [
+				{ id: 'a-p', fromNode: 'a', toNode: 'p' },
+				{ id: 'p-b', fromNode: 'p', toNode: 'b' },
+				{ id: 'c-a', fromNode: 'c', toNode: 'a' },
+				{ id: 'c-outer', fromNode: 'c', toNode: 'outer' },
+			],
+		});
+
+		it('should copy the group, its members and the edges between them to the origin', () => {
+			const stage = extractStage(canvas(), 'inner');
+
+			expect(stage.nodes).toEqual([group('inner', 0, 0, 400, 400), textNode('b', 50, 50)]);
+			expect(stage.edges).toEqual([]);
+		});
+
+		it('should leave edges to the rest of the canvas and past runs behind', () => {
+			const stage = extractStage(canvas(), 'outer');
+
+			expect(stage.nodes!.map(node => node.id)).toEqual(['outer', 'inner', 'a', 'b', 'p']);
+			expect(stage.edges!.map(edge => edge.id)).toEqual(['a-p', 'p-b']);
+			expect(stage.nodes!.find(node => node.id === 'p')).toEqual({ ...textNode('p', 200, 300), aiRole: 'processor' });
+		});
+
+		it('should reject unknown groups', () => {
+			expect(() => extractStage(canvas(), 'c')).toThrow('Group c not found');
+		});
+	});
+
+	describe('insertStage', () => {
+		const stage: JSONCanvasData = {
+			nodes: [group('stage', 0, 0, 300, 300, 'Stage'), textNode('x', 50, 50), textNode('y', 150, 150)],
+			edges: [{ id: 'x-y', fromNode: 'x', toNode: 'y', label: 'next' }],
+		};
+		const createIds = () => {
+			let next = 0;
+			return () => `new-${++next}`;
+		};
+
+		it('should place the stage right of the canvas with new IDs', () => {
+			const result = insertStage(data, stage, createIds());
+			const added = result.nodes!.slice(data.nodes!.length);
+
+			expect(added.map(node => [node.id, node.x, node.y])).toEqual([
+				['new-1', 1400, 0],
+				['new-2', 1450, 50],
+				['new-3', 1550, 150],
+			]);
+			expect(result.edges).toEqual([{ id: 'new-4', fromNode: 'new-2', toNode: 'new-3', label: 'next' }]);
+			expect(data.nodes).toHaveLength(5);
+		});
+
+		it('should keep the stage at the origin of an empty canvas', () => {
+			const result = insertStage({ nodes: [], edges: [] }, stage, createIds());
+
+			expect(result.nodes!.map(node => [node.x, node.y])).toEqual([[0, 0], [50, 50], [150, 150]]);
+		});
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Helpers for canvas group nodes, which act as named sub-workflows:
+ * every node inside a group's bounds belongs to it, including nested groups.
+ * Groups can be run on their own, and saved as stages that other canvases insert.
+ */
+
+import type { JSONCanvasData, JSONCanvasEdge, JSONCanvasGroupNode, JSONCanvasNode } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+
+/**
+ * Properties nodes keep from the last run of a workflow, which a stage leaves behind
+ */
+const RUN_STATE_PROPERTIES: (keyof WorkflowNodeProperties)[] = ['lastRunAt', 'inputHash', 'resultKey', 'cachedAt', 'skipped'];
+
+/**
+ * Space left between the nodes of a canvas and a stage inserted next to them
+ */
+const STAGE_GAP = 100;
+
+/**
+ * Checks whether a node lies entirely within a group's bounds
+ *
+ * @param {JSONCanvasNode} node - The node to check
+ * @param {JSONCanvasGroupNode} group - The group
+ * @returns {boolean} True if the node is inside the group
+ */
+export const isInsideGroup = (node: JSONCanvasNode, group: JSONCanvasGroupNode): boolean => {
+	return node.id !== group.id
+		&& node.x >= group.x
+		&& node.y >= group.y
+		&& node.x + node.width <= group.x + group.width
+		&& node.y + node.height <= group.y + group.height;
+};
+
+/**
+ * Gets the group nodes of a canvas
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @returns {JSONCanvasGroupNode[]} The groups, in canvas file order
+ */
+export const getGroups = (data: JSONCanvasData): JSONCanvasGroupNode[] => {
+	return (data.nodes || []).filter((node): node is JSONCanvasGroupNode => node.type === 'group');
+};
+
+/**
+ * Gets the IDs of every node inside a group, including the nodes of nested groups
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} groupId - ID of the group node
+ * @returns {Set<string>} IDs of the group's members; empty if the group does not exist
+ */
+export const getGroupMembers = (data: JSONCanvasData, groupId: string): Set<string> => {
+	const group = getGroups(data).find(node => node.id === groupId);
+	if (!group) return new Set();
+
+	return new Set((data.nodes || []).filter(node => isInsideGroup(node, group)).map(node => node.id));
+};
+
+/**
+ * Gets the name of a group for lists and reports
+ *
+ * @param {JSONCanvasGroupNode} group - The group node
+ * @returns {string} The group's label, or its ID if it has none
+ */
+export const getGroupLabel = (group: JSONCanvasGroupNode): string => group.label?.trim() || group.id;
+
+/**
+ * Gets the name of the file a group is saved to as a stage
+ *
+ * @param {JSONCanvasGroupNode} group - The group node
+ * @returns {string} The group's label without characters file names cannot contain, with the canvas extension
+ */
+export const getStageFileName = (group: JSONCanvasGroupNode): string => {
+	return `${getGroupLabel(group).replace(/[\\/:*?"<>|#^[\]]+/g, '-')}.canvas`;
+};
+
+/**
+ * Finds the group a node belongs to: the node itself if it is a group,
+ * otherwise the smallest group whose bounds contain it
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} nodeId - ID of the node
+ * @returns {JSONCanvasGroupNode | null} The group, or null if the node is in none
+ */
+export const findGroupOfNode = (data: JSONCanvasData, nodeId: string): JSONCanvasGroupNode | null => {
+	const node = (data.nodes || []).find(candidate => candidate.id === nodeId);
+	if (!node) return null;
+	if (node.type === 'group') return node as JSONCanvasGroupNode;
+
+	const containing = getGroups(data).filter(group => isInsideGroup(node, group));
+	if (containing.length === 0) return null;
+
+	return containing.reduce((smallest, group) =>
+		group.width * group.height < smallest.width * smallest.height ? group : smallest);
+};
+
+/**
+ * Copies a group, its members and the edges between them into a canvas of their own.
+ * The copy starts at the origin and leaves the results of past runs behind,
+ * so it can be saved as a stage and inserted into other canvases.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} groupId - ID of the group node
+ * @returns {JSONCanvasData} The stage
+ * @throws {Error} If the group does not exist
+ */
+export const extractStage = (data: JSONCanvasData, groupId: string): JSONCanvasData => {
+	const group = getGroups(data).find(node => node.id === groupId);
+	if (!group) {
+		throw new Error(`Group ${groupId} not found`);
+	}
+
+	const ids = getGroupMembers(data, groupId).add(groupId);
+	const nodes = (data.nodes || [])
+		.filter(node => ids.has(node.id))
+		.map(node => {
+			const copy = { ...node, x: node.x - group.x, y: node.y - group.y } as JSONCanvasNode & WorkflowNodeProperties;
+			RUN_STATE_PROPERTIES.forEach(key => delete copy[key]);
+			return copy;
+		});
+	const edges = (data.edges || [])
+		.filter(edge => ids.has(edge.fromNode) && ids.has(edge.toNode))
+		.map(edge => ({ ...edge }));
+
+	return { nodes, edges };
+};
+
+/**
+ * Inserts a copy of a stage to the right of everything on a canvas.
+ * Its nodes and edges get new IDs, so one stage can be inserted several times.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {JSONCanvasData} stage - The stage, as written by `extractStage`
+ * @param {() => string} createId - Creates an ID that is not used yet
+ * @returns {JSONCanvasData} The canvas with the stage added
+ */
+export const insertStage = (data: JSONCanvasData, stage: JSONCanvasData, createId: () => string): JSONCanvasData => {
+	const existing = data.nodes || [];
+	const added = stage.nodes || [];
+	if (added.length === 0) return data;
+
+	const left = Math.min(...added.map(node => node.x));
+	const top = Math.min(...added.map(node => node.y));
+	const x = existing.length > 0 ? Math.max(...existing.map(node => node.x + node.width)) + STAGE_GAP : 0;
+	const y = existing.length > 0 ? Math.min(...existing.map(node => node.y)) : 0;
+
+	const ids = new Map(added.map(node => [node.id, createId()] as [string, string]));
+	const nodes = added.map(node => ({ ...node, id: ids.get(node.id)!, x: node.x - left + x, y: node.y - top + y }));
+	const edges: JSONCanvasEdge[] = (stage.edges || [])
+		.filter(edge => ids.has(edge.fromNode) && ids.has(edge.toNode))
+		.map(edge => ({ ...edge, id: createId(), fromNode: ids.get(edge.fromNode)!, toNode: ids.get(edge.toNode)! }));
+
+	return { ...data, nodes: [...existing, ...nodes], edges: [...(data.edges || []), ...edges] };
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasEdge } from '../types/jsoncanvas';
+import { getConditionalEdges, matchesCondition, parseEdgeCondition, selectBranches } from './edgeConditions';
+
+const edge = (id: string, label?: string): JSONCanvasEdge => ({ id, fromNode: 'triage', toNode: id, label });
+
+describe('edgeConditions', () => {
+	describe('parseEdgeCondition', () => {
+		it('should parse every kind of condition', () => {
+			expect(parseEdgeCondition('if: positive')).toEqual({ kind: 'equals', value: 'positive' });
+			expect(parseEdgeCondition('If: mood = "low"')).toEqual({ kind: 'equals', field: 'mood', value: 'low' });
+			expect(parseEdgeCondition('if: contains "TODO"')).toEqual({ kind: 'contains', value: 'TODO', negate: false });
+			expect(parseEdgeCondition('if: not contains TODO')).toEqual({ kind: 'contains', value: 'TODO', negate: true });
+			expect(parseEdgeCondition(' Else ')).toEqual({ kind: 'else' });
+		});
+
+		it('should treat other labels as no condition', () => {
+			expect(parseEdgeCondition('summary')).toBeNull();
+			expect(parseEdgeCondition(undefined)).toBeNull();
+		});
+
+		it('should reject conditions without a value', () => {
+			expect(() => parseEdgeCondition('if:')).toThrow('no value');
+		});
+	});
+
+	describe('matchesCondition', () => {
+		it('should compare answers ignoring case, emphasis and punctuation', () => {
+			const condition = { kind: 'equals' as const, value: 'positive' };
+
+			expect(matchesCondition(condition, '**Positive.**')).toBe(true);
+			expect(matchesCondition(condition, 'Positive\n\nThe entry sounds upbeat.')).toBe(true);
+			expect(matchesCondition(condition, 'Not positive')).toBe(false);
+		});
+
+		it('should compare fields of structured results', () => {
+			const condition = { kind: 'equals' as const, field: 'route.agent', value: 'coach' };
+
+			expect(matchesCondition(condition, '{"route": {"agent": "Coach"}}')).toBe(true);
+			expect(matchesCondition(condition, '{"route": {}}')).toBe(false);
+		});
+
+		it('should look for the exact text with contains', () => {
+			expect(matchesCondition({ kind: 'contains', value: 'TODO', negate: false }, '- TODO: call')).toBe(true);
+			expect(matchesCondition({ kind: 'contains', value: 'TODO', negate: false }, '- todo: call')).toBe(false);
+			expect(matchesCondition({ kind: 'contains', value: 'TODO', negate: true }, 'Done')).toBe(true);
+		});
+	});
+
+	describe('selectBranches', () => {
+		const branches = getConditionalEdges(
+			[edge('coach', 'if: positive'), edge('psych', 'if: negative'), edge('fallback', 'else'), edge('log', 'all')],
+			'triage'
+		);
+
+		it('should take the matching branches and skip the others', () => {
+			const { taken, skipped } = selectBranches(branches, 'Negative');
+
+			expect(taken.map(branch => branch.edge.id)).toEqual(['psych']);
+			expect(skipped.map(branch => branch.edge.id)).toEqual(['coach', 'fallback']);
+		});
+
+		it('should take else branches when nothing matches', () => {
+			expect(selectBranches(branches, 'Neutral').taken.map(branch => branch.edge.id)).toEqual(['fallback']);
+		});
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Conditions on edges leaving a processor, which route its result
+ * down only the branches that match it
+ */
+
+import type { JSONCanvasEdge } from '../types/jsoncanvas';
+import type { EdgeCondition } from '../types/workflow';
+import { getJsonField, parseJsonReply } from './structuredOutput';
+
+/**
+ * Matches an `if:` label and captures its expression
+ */
+const IF_LABEL = /^if\s*:\s*(.*)$/i;
+
+/**
+ * Matches a `contains` expression, optionally negated, and captures the text
+ */
+const CONTAINS_EXPRESSION = /^(not\s+)?contains\s+(.+)$/i;
+
+/**
+ * Matches a `field = value` expression on a structured result
+ */
+const FIELD_EXPRESSION = /^([\w[\].]+)\s*=\s*(.+)$/;
+
+/**
+ * Removes the quotes around a value, if any
+ */
+const unquote = (value: string): string => {
+	const text = value.trim();
+	const quoted = text.match(/^(["'])(.*)\1$/);
+	return quoted ? quoted[2] : text;
+};
+
+/**
+ * Reduces a reply or value to its words, ignoring case, emphasis,
+ * quotes and punctuation around it, e.g. `**Positive.**` becomes `positive`
+ */
+const normalize = (text: string): string => {
+	return text
+		.trim()
+		.replace(/^[\s*_`"'#>-]+|[\s*_`"'.!?:;,]+$/g, '')
+		.replace(/\s+/g, ' ')
+		.toLowerCase();
+};
+
+/**
+ * Parses the condition declared in an edge label.
+ * Labels that do not start with `if:` and are not `else` are no condition.
+ *
+ * @param {string} [label] - The edge label
+ * @returns {EdgeCondition | null} The condition, or null if the edge always carries the result
+ * @throws {Error} If the label starts with `if:` but has nothing to compare
+ * @example
+ * parseEdgeCondition('if: contains "TODO"'); // { kind: 'contains', value: 'TODO', negate: false }
+ */
+export const parseEdgeCondition = (label?: string): EdgeCondition | null => {
+	const text = label?.trim() ?? '';
+	if (/^else$/i.test(text)) return { kind: 'else' };
+
+	const match = text.match(IF_LABEL);
+	if (!match) return null;
+
+	const expression = match[1].trim();
+	if (!expression) {
+		throw new Error(`Edge condition "${text}" has no value to compare with`);
+	}
+
+	const contains = expression.match(CONTAINS_EXPRESSION);
+	if (contains) {
+		return { kind: 'contains', value: unquote(contains[2]), negate: contains[1] !== undefined };
+	}
+
+	const field = expression.match(FIELD_EXPRESSION);
+	if (field) {
+		return { kind: 'equals', field: field[1], value: unquote(field[2]) };
+	}
+
+	return { kind: 'equals', value: unquote(expression) };
+};
+
+/**
+ * Checks whether a processor result matches a condition.
+ * `equals` ignores case, emphasis and punctuation, and also matches the first line
+ * of the result, so a classifier may explain its answer below it.
+ * `contains` looks for the exact text. `else` never matches on its own.
+ *
+ * @param {EdgeCondition} condition - The condition
+ * @param {string} result - The processor result, as JSON for structured processors
+ * @returns {boolean} Whether the result matches
+ * @throws {Error} If the condition compares a field and the result is not JSON
+ */
+export const matchesCondition = (condition: EdgeCondition, result: string): boolean => {
+	switch (condition.kind) {
+		case 'contains':
+			return result.includes(condition.value) !== condition.negate;
+		case 'equals': {
+			const expected = normalize(condition.value);
+
+			if (condition.field) {
+				let parsed: unknown;
+				try {
+					parsed = parseJsonReply(result);
+				} catch {
+					throw new Error(`Edge condition "${condition.field} = ${condition.value}" needs a processor with a schema`);
+				}
+
+				const value = getJsonField(parsed, condition.field);
+				return value !== undefined && value !== null && typeof value !== 'object'
+					&& normalize(String(value)) === expected;
+			}
+
+			const firstLine = result.trim().split('\n')[0];
+			return normalize(result) === expected || normalize(firstLine) === expected;
+		}
+		case 'else':
+		default:
+			return false;
+	}
+};
+
+/**
+ * Splits a processor's conditional edges into the branches its result takes and the ones it skips.
+ * `else` branches are taken when no other condition matches.
+ *
+ * @param {T[]} branches - The conditional edges with their parsed conditions
+ * @param {string} result - The processor result
+ * @returns {{ taken: T[]; skipped: T[] }} The branches, in their original order
+ */
+export const selectBranches = <T extends { condition: EdgeCondition }>(
+	branches: T[],
+	result: string
+): { taken: T[]; skipped: T[] } => {
+	const matched = new Set(branches.filter(branch => matchesCondition(branch.condition, result)));
+	const elseTaken = matched.size === 0;
+	const taken = branches.filter(branch => matched.has(branch) || (branch.condition.kind === 'else' && elseTaken));
+
+	return { taken, skipped: branches.filter(branch => !taken.includes(branch)) };
+};
+
+/**
+ * Gets the edges leaving a processor that carry a condition
+ *
+ * @param {JSONCanvasEdge[]} edges - The workflow edges, from `getWorkflowEdges`
+ * @param {string} processorId - ID of the processor
+ * @returns {{ edge: JSONCanvasEdge; condition: EdgeCondition }[]} The conditional edges
+ * @throws {Error} If a label starts with `if:` but is not a valid condition
+ */
+export const getConditionalEdges = (
+	edges: JSONCanvasEdge[],
+	processorId: string
+): { edge: JSONCanvasEdge; condition: EdgeCondition }[] => {
+	return edges
+		.filter(edge => edge.fromNode === processorId)
+		.map(edge => ({ edge, condition: parseEdgeCondition(edge.label) }))
+		.filter((branch): branch is { edge: JSONCanvasEdge; condition: EdgeCondition } => branch.condition !== null);
+};
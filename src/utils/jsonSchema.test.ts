@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { validateJson } from './jsonSchema';
+import type { JsonSchema } from './jsonSchema';
+
+const taskSchema: JsonSchema = {
+	type: 'object',
+	required: ['tasks'],
+	additionalProperties: false,
+	properties: {
+		tasks: {
+			type: 'array',
+			minItems: 1,
+			items: {
+				type: 'object',
+				required: ['title'],
+				properties: {
+					title: { type: 'string' },
+					priority: { enum: ['low', 'high'] },
+					score: { type: 'integer', minimum: 0, maximum: 10 }
+				}
+			}
+		}
+	}
+};
+
+describe('jsonSchema', () => {
+	describe('validateJson', () => {
+		it('should accept valid values', () => {
+			expect(validateJson({ tasks: [{ title: 'Call Ana', priority: 'high', score: 3 }] }, taskSchema)).toEqual([]);
+		});
+
+		it('should report every violation with its path', () => {
+			const errors = validateJson({ tasks: [{ priority: 'urgent', score: 11 }], extra: true }, taskSchema);
+
+			expect(errors).toEqual([
+				'$.tasks[0].title: is required',
+				'$.tasks[0].priority: expected one of "low", "high"',
+				'$.tasks[0].score: must be at most 10',
+				'$.extra: is not allowed'
+			]);
+		});
+
+		it('should check types, counting integers as numbers', () => {
+			expect(validateJson(2, { type: 'number' })).toEqual([]);
+			expect(validateJson(2.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+			expect(validateJson(null, { type: ['string', 'null'] })).toEqual([]);
+			expect(validateJson({ tasks: 'none' }, taskSchema)).toEqual(['$.tasks: expected array, got string']);
+		});
+
+		it('should check array lengths', () => {
+			expect(validateJson({ tasks: [] }, taskSchema)).toEqual(['$.tasks: must have at least 1 items']);
+		});
+	});
+});
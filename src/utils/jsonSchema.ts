@@ -0,0 +1,106 @@
+/**
+ * Validation of structured processor replies against the JSON schema a processor declares.
+ * Supports the subset of JSON Schema that describes typical results such as tasks, tags or scores.
+ */
+
+/**
+ * Types a schema can require
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * A JSON schema, limited to the keywords the validator understands
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	/** Schemas of the properties of an object */
+	properties?: Record<string, JsonSchema>;
+	/** Properties an object must have */
+	required?: string[];
+	/** Whether an object may have properties not listed in `properties` */
+	additionalProperties?: boolean;
+	/** Schema of the items of an array */
+	items?: JsonSchema;
+	minItems?: number;
+	maxItems?: number;
+	/** Values the data must be one of */
+	enum?: unknown[];
+	minimum?: number;
+	maximum?: number;
+}
+
+/**
+ * Gets the JSON type of a value, telling integers apart from other numbers
+ */
+const getJsonType = (value: unknown): JsonSchemaType => {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value as JsonSchemaType;
+};
+
+/**
+ * Checks whether a value's type is one of the allowed types; integers are numbers too
+ */
+const matchesType = (value: unknown, allowed: JsonSchemaType[]): boolean => {
+	const type = getJsonType(value);
+	return allowed.includes(type) || (type === 'integer' && allowed.includes('number'));
+};
+
+/**
+ * Validates a value against a schema
+ *
+ * @param {unknown} value - The parsed JSON value
+ * @param {JsonSchema} schema - The schema to check against
+ * @param {string} [path='$'] - Path of the value, used in error messages
+ * @returns {string[]} One message per violation, empty if the value is valid
+ * @example
+ * validateJson({ score: 'high' }, { type: 'object', properties: { score: { type: 'number' } } });
+ * // ['$.score: expected number, got string']
+ */
+export const validateJson = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+	if (schema.type) {
+		const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!matchesType(value, allowed)) {
+			return [`${path}: expected ${allowed.join(' or ')}, got ${getJsonType(value)}`];
+		}
+	}
+
+	const errors: string[] = [];
+
+	if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		if (schema.items) {
+			value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${path}[${index}]`)));
+		}
+	}
+
+	if (getJsonType(value) === 'object') {
+		const object = value as Record<string, unknown>;
+		const properties = schema.properties ?? {};
+
+		for (const name of schema.required ?? []) {
+			if (!(name in object)) errors.push(`${path}.${name}: is required`);
+		}
+		for (const [name, propertyValue] of Object.entries(object)) {
+			if (properties[name]) {
+				errors.push(...validateJson(propertyValue, properties[name], `${path}.${name}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${name}: is not allowed`);
+			}
+		}
+	}
+
+	return errors;
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from './lineDiff';
+
+describe('lineDiff', () => {
+	describe('diffLines', () => {
+		it('should mark identical texts as unchanged', () => {
+			expect(diffLines('a\nb', 'a\nb')).toEqual([
+				{ type: 'same', text: 'a' },
+				{ type: 'same', text: 'b' }
+			]);
+		});
+
+		it('should list removed lines before the lines replacing them', () => {
+			expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+				{ type: 'same', text: 'a' },
+				{ type: 'removed', text: 'b' },
+				{ type: 'added', text: 'x' },
+				{ type: 'same', text: 'c' }
+			]);
+		});
+
+		it('should keep lines shared in the middle of a change', () => {
+			const diff = diffLines('one\nkeep\ntwo', 'uno\nkeep\ndos\ntres');
+
+			expect(diff.filter(line => line.type === 'same').map(line => line.text)).toEqual(['keep']);
+			expect(diff.filter(line => line.type === 'removed').map(line => line.text)).toEqual(['one', 'two']);
+			expect(diff.filter(line => line.type === 'added').map(line => line.text)).toEqual(['uno', 'dos', 'tres']);
+		});
+
+		it('should report appended lines as added', () => {
+			expect(diffLines('a', 'a\nb')).toEqual([
+				{ type: 'same', text: 'a' },
+				{ type: 'added', text: 'b' }
+			]);
+		});
+	});
+});
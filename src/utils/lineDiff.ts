@@ -0,0 +1,77 @@
+/**
+ * Line-based diff used to preview changes to notes before they are written
+ */
+
+/**
+ * A line of a diff
+ */
+export interface DiffLine {
+	/** Whether the line is kept, only in the new text, or only in the old text */
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+/**
+ * Compares two texts line by line, using the longest common subsequence of their lines.
+ * Lines shared at the start and end are matched first, so appending to a long note stays cheap.
+ *
+ * @param {string} before - The old text
+ * @param {string} after - The new text
+ * @returns {DiffLine[]} Every line of both texts, removed lines before the lines added in their place
+ * @example
+ * diffLines('a\nb', 'a\nc'); // same 'a', removed 'b', added 'c'
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+	const oldLines = before.split('\n');
+	const newLines = after.split('\n');
+
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const a = oldLines.slice(prefix, oldLines.length - suffix);
+	const b = newLines.slice(prefix, newLines.length - suffix);
+
+	// common[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+	const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			common[i][j] = a[i] === b[j]
+				? common[i + 1][j + 1] + 1
+				: Math.max(common[i + 1][j], common[i][j + 1]);
+		}
+	}
+
+	const middle: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			middle.push({ type: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (i < a.length && (j >= b.length || common[i + 1][j] >= common[i][j + 1])) {
+			middle.push({ type: 'removed', text: a[i] });
+			i++;
+		} else {
+			middle.push({ type: 'added', text: b[j] });
+			j++;
+		}
+	}
+
+	return [
+		...oldLines.slice(0, prefix).map(text => ({ type: 'same' as const, text })),
+		...middle,
+		...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'same' as const, text }))
+	];
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, splitListItems, splitMapItems, splitSections } from './mapProcessor';
+
+describe('mapProcessor', () => {
+	describe('splitListItems', () => {
+		it('should keep nested items and continuation lines with their item', () => {
+			const text = [
+				'Agenda:',
+				'- Budget',
+				'  - Q3 numbers',
+				'- Hiring',
+				'continued here',
+				'',
+				'1. Numbered item',
+				'',
+				'Closing remarks'
+			].join('\n');
+
+			expect(splitListItems(text)).toEqual([
+				'Budget\n  - Q3 numbers',
+				'Hiring\ncontinued here',
+				'Numbered item'
+			]);
+		});
+
+		it('should return nothing for text without a list', () => {
+			expect(splitListItems('Just a paragraph.')).toEqual([]);
+		});
+	});
+
+	describe('splitSections', () => {
+		it('should split at the highest heading level used', () => {
+			const text = 'Preamble\n## Monday\nGym\n### Notes\nSore\n## Tuesday\nRest';
+
+			expect(splitSections(text)).toEqual([
+				{ title: 'Monday', content: '## Monday\nGym\n### Notes\nSore' },
+				{ title: 'Tuesday', content: '## Tuesday\nRest' }
+			]);
+		});
+	});
+
+	describe('splitMapItems', () => {
+		const inputs = [
+			{ title: 'Standup', content: '- Fix login\n- Review PR' },
+			{ title: '', content: '- Deploy' }
+		];
+
+		it('should use each input as an item, naming untitled ones', () => {
+			expect(splitMapItems(inputs, 'inputs').map(item => item.title)).toEqual(['Standup', 'Input 2']);
+		});
+
+		it('should use the list items of all inputs, titled by their first line', () => {
+			expect(splitMapItems(inputs, 'items')).toEqual([
+				{ title: 'Fix login', content: 'Fix login' },
+				{ title: 'Review PR', content: 'Review PR' },
+				{ title: 'Deploy', content: 'Deploy' }
+			]);
+		});
+	});
+
+	describe('mapWithConcurrency', () => {
+		it('should return results in item order without exceeding the limit', async () => {
+			let running = 0;
+			let highest = 0;
+
+			const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+				running++;
+				highest = Math.max(highest, running);
+				await new Promise(resolve => setTimeout(resolve, delay));
+				running--;
+				return index * 10;
+			});
+
+			expect(results).toEqual([0, 10, 20, 30]);
+			expect(highest).toBe(2);
+		});
+
+		it('should stop starting items after a failure and throw the first error', async () => {
+			const started: number[] = [];
+
+			await expect(mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+				started.push(item);
+				if (item === 2) throw new Error('Item 2 failed');
+				return item;
+			})).rejects.toThrow('Item 2 failed');
+
+			expect(started).toEqual([1, 2]);
+		});
+	});
+});
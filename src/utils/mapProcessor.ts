@@ -0,0 +1,139 @@
+/**
+ * Helpers for map processors, which run their instruction once per input,
+ * list item or section
+ */
+
+import type { MapSplit } from '../types/workflow';
+import type { TemplateInput } from './promptTemplate';
+
+/**
+ * Matches the marker of a list item, bulleted or numbered
+ */
+const LIST_MARKER = /^([-*+]|\d+[.)])\s+/;
+
+/**
+ * Longest item title taken from the item's first line
+ */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Shortens an item's first line to use it as its title
+ */
+const toTitle = (line: string): string => {
+	const text = line.replace(LIST_MARKER, '').trim();
+	return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Splits text into its top-level list items, keeping nested items and
+ * continuation lines with the item they belong to.
+ * Text outside the list is left out.
+ *
+ * @param {string} text - Markdown text
+ * @returns {string[]} The items, without their list marker
+ */
+export const splitListItems = (text: string): string[] => {
+	const items: string[][] = [];
+	let current: string[] | null = null;
+
+	for (const line of text.split('\n')) {
+		if (LIST_MARKER.test(line)) {
+			current = [line.replace(LIST_MARKER, '')];
+			items.push(current);
+		} else if (current && (line.trim() === '' || /^\s/.test(line) || current[current.length - 1].trim() !== '')) {
+			// Blank lines, indented lines and lines directly below an item continue it
+			current.push(line);
+		} else {
+			current = null;
+		}
+	}
+
+	return items.map(lines => lines.join('\n').trim()).filter(item => item);
+};
+
+/**
+ * Splits text into the sections under its top-level headings, the highest heading level it uses.
+ * Text before the first heading is left out.
+ *
+ * @param {string} text - Markdown text
+ * @returns {TemplateInput[]} The sections, including their heading, titled with the heading text
+ */
+export const splitSections = (text: string): TemplateInput[] => {
+	const lines = text.split('\n');
+	const levels = lines
+		.map(line => line.match(/^(#{1,6})\s/)?.[1].length)
+		.filter((level): level is number => level !== undefined);
+	if (levels.length === 0) return [];
+
+	const level = Math.min(...levels);
+	const sections: { title: string; lines: string[] }[] = [];
+
+	for (const line of lines) {
+		const match = line.match(/^(#{1,6})\s+(.*)$/);
+		if (match && match[1].length === level) {
+			sections.push({ title: match[2].trim(), lines: [] });
+		}
+		sections[sections.length - 1]?.lines.push(line);
+	}
+
+	return sections.map(({ title, lines }) => ({ title, content: lines.join('\n').trim() }));
+};
+
+/**
+ * Gets the items a map processor runs its instruction on
+ *
+ * @param {TemplateInput[]} inputs - The processor's inputs
+ * @param {MapSplit} split - What to run on: inputs, list items or sections
+ * @returns {TemplateInput[]} The items in input order, titled for output headings and templates
+ */
+export const splitMapItems = (inputs: TemplateInput[], split: MapSplit): TemplateInput[] => {
+	switch (split) {
+		case 'items':
+			return inputs.flatMap(input =>
+				splitListItems(input.content).map(content => ({ title: toTitle(content.split('\n')[0]), content }))
+			);
+		case 'sections':
+			return inputs.flatMap(input => splitSections(input.content));
+		case 'inputs':
+		default:
+			return inputs.map((input, index) => ({ ...input, title: input.title || `Input ${index + 1}` }));
+	}
+};
+
+/**
+ * Runs an async function on every item, with at most `limit` calls running at a time.
+ * After a call fails no new calls start, and the first error is thrown once
+ * the calls in progress have settled.
+ *
+ * @param {T[]} items - The items
+ * @param {number} limit - Highest number of calls running at a time
+ * @param {(item: T, index: number) => Promise<R>} fn - The function to run
+ * @returns {Promise<R[]>} The results, in item order
+ * @example
+ * const summaries = await mapWithConcurrency(notes, 2, note => summarize(note));
+ */
+export const mapWithConcurrency = async <T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	let failure: { error: unknown } | null = null;
+
+	const worker = async (): Promise<void> => {
+		while (next < items.length && !failure) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index], index);
+			} catch (error) {
+				failure = failure ?? { error };
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+	if (failure) throw (failure as { error: unknown }).error;
+	return results;
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseNDJSONLines } from './ndjson';
+
+describe('ndjson', () => {
+	describe('parseNDJSONLines', () => {
+		it('should split complete lines and keep the remainder', () => {
+			const result = parseNDJSONLines('{"a":1}\n{"b":2}\n{"c"');
+
+			expect(result.lines).toEqual(['{"a":1}', '{"b":2}']);
+			expect(result.rest).toBe('{"c"');
+		});
+
+		it('should skip blank lines', () => {
+			const result = parseNDJSONLines('{"a":1}\n\n  \n{"b":2}\n');
+
+			expect(result.lines).toEqual(['{"a":1}', '{"b":2}']);
+			expect(result.rest).toBe('');
+		});
+
+		it('should treat a buffer without newline as incomplete', () => {
+			const result = parseNDJSONLines('{"message":');
+
+			expect(result.lines).toEqual([]);
+			expect(result.rest).toBe('{"message":');
+		});
+	});
+});
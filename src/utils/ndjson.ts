@@ -0,0 +1,29 @@
+/**
+ * Helpers for reading newline-delimited JSON (NDJSON) streams
+ */
+
+/**
+ * Result of splitting a buffer into complete NDJSON lines
+ */
+export interface NDJSONParseResult {
+	/** Complete, non-empty lines */
+	lines: string[];
+	/** Trailing text that does not end with a newline yet */
+	rest: string;
+}
+
+/**
+ * Splits buffered stream text into complete JSON lines
+ *
+ * @param {string} buffer - Text received so far
+ * @returns {NDJSONParseResult} Complete lines and the unparsed remainder
+ */
+export const parseNDJSONLines = (buffer: string): NDJSONParseResult => {
+	const parts = buffer.split('\n');
+	const rest = parts.pop() ?? '';
+
+	return {
+		lines: parts.map(line => line.trim()).filter(line => line.length > 0),
+		rest
+	};
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+	formatAgentNodeText,
+	parseAgentNodeText,
+	parseProcessorNodeText,
+	replaceProcessorInstruction,
+	parseOutputNodeText,
+	getProcessorTitle
+} from './nodeContent';
+
+const AGENT_TEXT = '# 🤖 AI Agent\n\n> **Researcher**\n\n**Role:** research\n\n**System Prompt:**\nFind sources.\nCite them.';
+const PROCESSOR_TEXT = '# ⚙️ AI Processor\n\n> **Summarizer**\n\n**Instructions:**\nSummarize the input\n\n---\n*Connect input nodes*';
+
+describe('nodeContent', () => {
+	it('should parse agent name, role and system prompt', () => {
+		expect(parseAgentNodeText(AGENT_TEXT)).toEqual({
+			name: 'Researcher',
+			role: 'research',
+			systemPrompt: 'Find sources.\nCite them.'
+		});
+	});
+
+	it('should read back the agent nodes it writes', () => {
+		const agent = { name: 'Critic', role: 'critic', personality: 'concise' as const, systemPrompt: 'Point out flaws.\n\n**Be** blunt.' };
+		const text = formatAgentNodeText(agent, { temperature: 0.2 });
+
+		expect(text).toContain('**Temperature:** 0.2');
+		expect(parseAgentNodeText(text)).toEqual(agent);
+	});
+
+	it('should leave out unknown personalities', () => {
+		expect(parseAgentNodeText(`${AGENT_TEXT.replace('\n\n**System', '\n\n**Personality:** grumpy\n\n**System')}`).personality)
+			.toBeUndefined();
+	});
+
+	it('should parse the processor instruction up to the separator', () => {
+		expect(parseProcessorNodeText(PROCESSOR_TEXT)).toEqual({
+			title: 'Summarizer',
+			instruction: 'Summarize the input'
+		});
+	});
+
+	describe('replaceProcessorInstruction', () => {
+		it('should keep the markdown around the instruction', () => {
+			const result = replaceProcessorInstruction(PROCESSOR_TEXT, 'List the key points');
+
+			expect(result).toBe(PROCESSOR_TEXT.replace('Summarize the input', 'List the key points'));
+		});
+
+		it('should keep the blank line after a legacy marker', () => {
+			const text = '# Summary\n\n**AI Processing Node**\n\nSummarize\n\n---\nfooter';
+
+			expect(replaceProcessorInstruction(text, 'Shorten')).toBe('# Summary\n\n**AI Processing Node**\n\nShorten\n\n---\nfooter');
+		});
+	});
+
+	it('should separate the output title from its body', () => {
+		expect(parseOutputNodeText('# 📤 Output\n\n> **Result**\n\nThe answer')).toEqual({
+			title: 'Result',
+			body: 'The answer'
+		});
+	});
+
+	it('should fall back to the node ID for untitled processors', () => {
+		expect(getProcessorTitle({ id: 'p1', type: 'text', text: PROCESSOR_TEXT, x: 0, y: 0, width: 1, height: 1 })).toBe('Summarizer');
+		expect(getProcessorTitle({ id: 'p2', type: 'text', text: '**AI Processing Node**', x: 0, y: 0, width: 1, height: 1 })).toBe('p2');
+	});
+});
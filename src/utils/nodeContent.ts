@@ -0,0 +1,204 @@
+/**
+ * Parsers for the markdown that CanvasService writes into agent,
+ * processor and output text nodes
+ */
+
+import type { JSONCanvasNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import type { ProcessorSettings } from '../types/workflow';
+import { PERSONALITY_PROMPTS, type PersonalityPreset } from '../types';
+
+/**
+ * Fields of an agent node
+ */
+export interface AgentNodeContent {
+	name: string;
+	role: string;
+	systemPrompt: string;
+	/** Personality preset, whose prompt is used when the system prompt is empty */
+	personality?: PersonalityPreset;
+}
+
+/**
+ * Labels of the model settings lines of an agent node, read back by `parseAgentSettings`
+ */
+export const AGENT_SETTING_LABELS: Record<keyof ProcessorSettings, string> = {
+	model: 'Model',
+	temperature: 'Temperature',
+	maxTokens: 'Max Tokens'
+};
+
+/**
+ * Fields of a processor node
+ */
+export interface ProcessorNodeContent {
+	title: string;
+	instruction: string;
+}
+
+/**
+ * Fields of an output node
+ */
+export interface OutputNodeContent {
+	title: string;
+	body: string;
+}
+
+/**
+ * Lines that start a processor's instruction section
+ */
+const INSTRUCTION_START = ['**AI Processing Node**', '**Instructions:**'];
+
+/**
+ * Reads the first `# heading` of a node, without emoji decoration
+ */
+const getHeading = (text: string): string => {
+	const heading = text.split('\n').find(line => line.startsWith('# ')) ?? '';
+	return heading.replace(/^#\s*/, '').trim();
+};
+
+/**
+ * Reads the `> **Name**` line written under the heading of generated nodes
+ */
+const getQuotedName = (text: string): string | undefined => {
+	const match = text.match(/^>\s*\*\*(.+?)\*\*\s*$/m);
+	return match?.[1];
+};
+
+/**
+ * Parses an agent node written by `CanvasService.addAgentNode`
+ *
+ * @param {string} text - Markdown content of the node
+ * @returns {AgentNodeContent} Name, role and system prompt
+ */
+export const parseAgentNodeText = (text: string): AgentNodeContent => {
+	const role = text.match(/^\*\*Role:\*\*\s*(.*)$/m)?.[1].trim() ?? '';
+	const personality = text.match(/^\*\*Personality:\*\*\s*(.*)$/m)?.[1].trim().toLowerCase();
+	const promptIndex = text.indexOf('**System Prompt:**');
+	const systemPrompt = promptIndex >= 0
+		? text.slice(promptIndex + '**System Prompt:**'.length).trim()
+		: '';
+
+	const content: AgentNodeContent = {
+		name: getQuotedName(text) ?? getHeading(text),
+		role,
+		systemPrompt
+	};
+	// Unknown presets are left out, like agents without one
+	if (personality && Object.prototype.hasOwnProperty.call(PERSONALITY_PROMPTS, personality)) {
+		content.personality = personality as PersonalityPreset;
+	}
+
+	return content;
+};
+
+/**
+ * Writes the markdown of an agent node, the inverse of `parseAgentNodeText` and `parseAgentSettings`
+ *
+ * @param {AgentNodeContent} agent - Name, role, personality and system prompt
+ * @param {ProcessorSettings} [settings] - Model settings the agent's requests use
+ * @returns {string} Markdown content of the node
+ */
+export const formatAgentNodeText = (agent: AgentNodeContent, settings: ProcessorSettings = {}): string => {
+	const fields = [`**Role:** ${agent.role}`];
+	if (agent.personality) {
+		fields.push(`**Personality:** ${agent.personality}`);
+	}
+	(Object.keys(AGENT_SETTING_LABELS) as (keyof ProcessorSettings)[]).forEach(key => {
+		if (settings[key] !== undefined) {
+			fields.push(`**${AGENT_SETTING_LABELS[key]}:** ${settings[key]}`);
+		}
+	});
+
+	return `# 🤖 AI Agent\n\n> **${agent.name}**\n\n${fields.join('\n\n')}\n\n**System Prompt:**\n${agent.systemPrompt}`;
+};
+
+/**
+ * Finds the line range of a processor's instruction section:
+ * everything after the marker or `**Instructions:**` line up to the `---` separator
+ */
+const findInstructionRange = (lines: string[]): { start: number; end: number } | null => {
+	const markerIndex = lines.findIndex(line => INSTRUCTION_START.some(marker => line.includes(marker)));
+	if (markerIndex === -1) return null;
+
+	const separatorIndex = lines.findIndex((line, index) => index > markerIndex && line.trim() === '---');
+	return {
+		start: markerIndex + 1,
+		end: separatorIndex === -1 ? lines.length : separatorIndex
+	};
+};
+
+/**
+ * Parses a processor node written by `CanvasService.addAIProcessingNode`
+ * or by hand with the `**AI Processing Node**` marker
+ *
+ * @param {string} text - Markdown content of the node
+ * @returns {ProcessorNodeContent} Title and instruction
+ */
+export const parseProcessorNodeText = (text: string): ProcessorNodeContent => {
+	const lines = text.split('\n');
+	const range = findInstructionRange(lines);
+
+	return {
+		title: getQuotedName(text) ?? getHeading(text),
+		instruction: range ? lines.slice(range.start, range.end).join('\n').trim() : ''
+	};
+};
+
+/**
+ * Replaces the instruction of a processor node, keeping the rest of its markdown intact
+ *
+ * @param {string} text - Markdown content of the node
+ * @param {string} instruction - The new instruction
+ * @returns {string} The updated markdown
+ */
+export const replaceProcessorInstruction = (text: string, instruction: string): string => {
+	const lines = text.split('\n');
+	const range = findInstructionRange(lines);
+
+	if (!range) {
+		return `${text.trimEnd()}\n\n**Instructions:**\n${instruction}`;
+	}
+
+	// Keep the blank lines around the instruction that the original markdown had
+	const before = lines.slice(0, range.start);
+	const leading = lines[range.start]?.trim() === '' && range.start < range.end ? [''] : [];
+	const after = lines.slice(range.end);
+	const trailing = after.length > 0 ? [''] : [];
+
+	return [...before, ...leading, instruction, ...trailing, ...after].join('\n');
+};
+
+/**
+ * Gets the title of a processor node for lists and reports
+ *
+ * @param {JSONCanvasNode} node - The processor node
+ * @returns {string} The processor's title, or its ID if it has none
+ */
+export const getProcessorTitle = (node: JSONCanvasNode): string => {
+	if (node.type !== 'text') return node.id;
+	return parseProcessorNodeText((node as JSONCanvasTextNode).text).title || node.id;
+};
+
+/**
+ * Parses an output node, separating its title from the generated content
+ *
+ * @param {string} text - Markdown content of the node
+ * @returns {OutputNodeContent} Title and body
+ */
+export const parseOutputNodeText = (text: string): OutputNodeContent => {
+	const lines = text.split('\n');
+	const headingIndex = lines.findIndex(line => line.startsWith('# '));
+	const body = headingIndex === -1 ? text : lines.slice(headingIndex + 1).join('\n');
+	const title = getHeading(text);
+
+	// Generated output nodes repeat the title as a quote under the heading
+	const quotedName = getQuotedName(body);
+	const trimmedBody = quotedName
+		? body.replace(/^\s*>\s*\*\*.+?\*\*\s*$/m, '')
+		: body;
+
+	return {
+		title: quotedName ?? title,
+		body: trimmedBody.trim()
+	};
+};
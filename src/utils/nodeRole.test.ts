@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData, JSONCanvasNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+import { getNodeRole, getNodeRoles, isProcessorNode } from './nodeRole';
+
+const textNode = (id: string, text: string, properties: WorkflowNodeProperties = {}): JSONCanvasTextNode => ({
+	id,
+	type: 'text',
+	text,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100,
+	...properties,
+});
+
+describe('nodeRole', () => {
+	describe('getNodeRole', () => {
+		it('should prefer the stored role over the markdown', () => {
+			expect(getNodeRole(textNode('n', '# 🤖 AI Agent', { aiRole: 'output' }))).toBe('output');
+			expect(getNodeRole(textNode('n', 'Plain text', { aiRole: 'processor' }))).toBe('processor');
+		});
+
+		it('should recognise nodes written before roles were stored', () => {
+			expect(getNodeRole(textNode('p', '# Summary\n\n**AI Processing Node**\n\nSummarize'))).toBe('processor');
+			expect(getNodeRole(textNode('p', '# ⚙️ AI Processor\n\n> **New**'))).toBe('processor');
+			expect(getNodeRole(textNode('a', '# 🤖 AI Agent\n\n> **Helper**'))).toBe('agent');
+			expect(getNodeRole(textNode('o', '# 📤 Output\n\n> **Result**'))).toBe('output');
+		});
+
+		it('should treat other nodes as inputs', () => {
+			const fileNode: JSONCanvasNode = { id: 'f', type: 'file', file: 'a.md', x: 0, y: 0, width: 1, height: 1 };
+
+			expect(getNodeRole(textNode('n', 'Just a note'))).toBe('input');
+			expect(getNodeRole(fileNode)).toBe('input');
+		});
+
+		it('should ignore unknown stored roles', () => {
+			const node = { ...textNode('n', '# 🤖 AI Agent'), aiRole: 'boss' } as unknown as JSONCanvasNode;
+
+			expect(getNodeRole(node)).toBe('agent');
+		});
+	});
+
+	it('should only run processors', () => {
+		expect(isProcessorNode(textNode('p', 'Anything', { aiRole: 'processor' }))).toBe(true);
+		expect(isProcessorNode(textNode('o', '# 📤 Output'))).toBe(false);
+	});
+
+	describe('getNodeRoles', () => {
+		it('should treat unmarked nodes a processor writes into as outputs', () => {
+			const data: JSONCanvasData = {
+				nodes: [
+					textNode('in', '# My Input'),
+					textNode('p', '# Processor\n\n**AI Processing Node**\n\nRespond'),
+					textNode('out', '# AI Response'),
+					textNode('inputRole', 'Explicit input', { aiRole: 'input' }),
+				],
+				edges: [
+					{ id: 'e1', fromNode: 'in', toNode: 'p' },
+					{ id: 'e2', fromNode: 'p', toNode: 'out' },
+					{ id: 'e3', fromNode: 'p', toNode: 'inputRole' },
+				],
+			};
+
+			const roles = getNodeRoles(data);
+
+			expect(roles.get('in')).toBe('input');
+			expect(roles.get('p')).toBe('processor');
+			expect(roles.get('out')).toBe('output');
+			expect(roles.get('inputRole')).toBe('input');
+		});
+	});
+});
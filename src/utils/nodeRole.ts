@@ -0,0 +1,88 @@
+import type { JSONCanvasData, JSONCanvasNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import type { NodeRole, WorkflowNodeProperties } from '../types/workflow';
+
+/**
+ * Every role a node can store in its `aiRole` property
+ */
+export const NODE_ROLES: NodeRole[] = ['processor', 'output', 'agent', 'input'];
+
+/**
+ * Marker that identifies a hand-written text node as an AI processor
+ */
+export const AI_PROCESSING_MARKER = '**AI Processing Node**';
+
+/**
+ * Headings written by older versions of CanvasService, before roles were stored on nodes
+ */
+const LEGACY_HEADINGS: [string, NodeRole][] = [
+	['# ⚙️ AI Processor', 'processor'],
+	['# 🤖 AI Agent', 'agent'],
+	['# 📤 Output', 'output']
+];
+
+/**
+ * Reads the role stored in the node's `aiRole` property, ignoring unknown values
+ */
+const getStoredRole = (node: JSONCanvasNode): NodeRole | undefined => {
+	const role = (node as JSONCanvasNode & WorkflowNodeProperties).aiRole;
+	return role && NODE_ROLES.includes(role) ? role : undefined;
+};
+
+/**
+ * Detects the role of a node without an `aiRole` property from its markdown
+ */
+const getLegacyRole = (node: JSONCanvasNode): NodeRole | undefined => {
+	if (node.type !== 'text') return undefined;
+
+	const text = (node as JSONCanvasTextNode).text;
+	if (text.includes(AI_PROCESSING_MARKER)) return 'processor';
+
+	const legacy = LEGACY_HEADINGS.find(([heading]) => text.startsWith(heading));
+	return legacy?.[1];
+};
+
+/**
+ * Gets the role of a canvas node.
+ * The `aiRole` property wins; older nodes are recognised by their markdown,
+ * and anything else is an input.
+ *
+ * @param {JSONCanvasNode} node - The node to check
+ * @returns {NodeRole} The role of the node
+ */
+export const getNodeRole = (node: JSONCanvasNode): NodeRole => {
+	return getStoredRole(node) ?? getLegacyRole(node) ?? 'input';
+};
+
+/**
+ * Checks whether a canvas node is an AI processing node
+ *
+ * @param {JSONCanvasNode} node - The node to check
+ * @returns {boolean} True if the node should be run as a processor
+ */
+export const isProcessorNode = (node: JSONCanvasNode): boolean => {
+	return getNodeRole(node) === 'processor';
+};
+
+/**
+ * Gets the role of every node on a canvas.
+ * Older canvases only mark their processors, so an unmarked node
+ * that a processor writes into is treated as an output.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @returns {Map<string, NodeRole>} Roles keyed by node ID
+ */
+export const getNodeRoles = (data: JSONCanvasData): Map<string, NodeRole> => {
+	const nodes = data.nodes || [];
+	const roles = new Map(nodes.map(node => [node.id, getNodeRole(node)] as [string, NodeRole]));
+	const unmarked = new Set(nodes
+		.filter(node => !getStoredRole(node) && !getLegacyRole(node))
+		.map(node => node.id));
+
+	for (const edge of data.edges || []) {
+		if (roles.get(edge.fromNode) === 'processor' && unmarked.has(edge.toNode)) {
+			roles.set(edge.toNode, 'output');
+		}
+	}
+
+	return roles;
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { extractCanvasText, extractSubpath, stripFrontmatter } from './noteContent';
+
+const note = [
+	'# Journal',
+	'',
+	'Intro paragraph.',
+	'',
+	'## Tasks',
+	'',
+	'- Buy milk ^milk',
+	'- Call Ana',
+	'',
+	'### Later',
+	'',
+	'Plan the trip.',
+	'',
+	'## Notes',
+	'',
+	'First line of a thought',
+	'that continues here ^thought',
+	'',
+	'Unrelated paragraph.',
+].join('\n');
+
+describe('noteContent', () => {
+	describe('stripFrontmatter', () => {
+		it('should remove the front matter block', () => {
+			expect(stripFrontmatter('---\ntags: [daily]\n---\n# Title\n\nBody')).toBe('# Title\n\nBody');
+		});
+
+		it('should keep notes without front matter unchanged', () => {
+			expect(stripFrontmatter('# Title\n\n---\n\nBody')).toBe('# Title\n\n---\n\nBody');
+		});
+	});
+
+	describe('extractSubpath', () => {
+		it('should return a heading with its subsections', () => {
+			expect(extractSubpath(note, '#Tasks')).toBe('## Tasks\n\n- Buy milk ^milk\n- Call Ana\n\n### Later\n\nPlan the trip.');
+		});
+
+		it('should follow nested headings', () => {
+			expect(extractSubpath(note, '#Tasks#Later')).toBe('### Later\n\nPlan the trip.');
+		});
+
+		it('should return the list item of a block reference', () => {
+			expect(extractSubpath(note, '#^milk')).toBe('- Buy milk');
+		});
+
+		it('should return the whole paragraph of a block reference', () => {
+			expect(extractSubpath(note, '#^thought')).toBe('First line of a thought\nthat continues here');
+		});
+
+		it('should return null for missing headings and blocks', () => {
+			expect(extractSubpath(note, '#Missing')).toBeNull();
+			expect(extractSubpath(note, '#^missing')).toBeNull();
+		});
+	});
+
+	describe('extractCanvasText', () => {
+		it('should join text nodes and list embedded files', () => {
+			const canvas = JSON.stringify({
+				nodes: [
+					{ id: 'a', type: 'text', text: 'Idea', x: 0, y: 0, width: 100, height: 100 },
+					{ id: 'b', type: 'file', file: 'Notes/Plan.md', x: 0, y: 0, width: 100, height: 100 },
+					{ id: 'c', type: 'group', x: 0, y: 0, width: 100, height: 100 },
+				],
+			});
+
+			expect(extractCanvasText(canvas)).toBe('Idea\n\n[[Notes/Plan.md]]');
+		});
+
+		it('should return an empty string for invalid canvases', () => {
+			expect(extractCanvasText('not json')).toBe('');
+		});
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * Helpers for turning the files that canvas file nodes point at into prompt input
+ */
+
+import type { JSONCanvasData, JSONCanvasFileNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+
+/**
+ * Extensions of files whose content can be sent to the model as plain text
+ */
+export const TEXT_FILE_EXTENSIONS = ['md', 'txt', 'csv', 'json', 'yaml', 'yml', 'xml', 'html', 'css', 'js', 'ts', 'py'];
+
+/**
+ * Removes the YAML front matter block at the start of a note
+ *
+ * @param {string} text - Content of the note
+ * @returns {string} The note without its front matter
+ */
+export const stripFrontmatter = (text: string): string => {
+	const match = text.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/);
+	return match ? text.slice(match[0].length) : text;
+};
+
+/**
+ * Finds the line range of the section under a heading, from the heading line
+ * up to the next heading of the same or a higher level
+ *
+ * @param {string[]} lines - Lines of the note
+ * @param {string} heading - Heading text, without the leading `#`s
+ * @returns {{ start: number; end: number } | null} Index of the heading line and the index after the section, or null if the heading does not exist
+ */
+export const findHeadingSection = (lines: string[], heading: string): { start: number; end: number } | null => {
+	const wanted = heading.trim().toLowerCase();
+	const start = lines.findIndex(line => {
+		const match = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		return match !== null && match[2].toLowerCase() === wanted;
+	});
+	if (start === -1) return null;
+
+	const level = lines[start].match(/^#+/)![0].length;
+	const end = lines.findIndex((line, index) => {
+		const match = line.match(/^(#{1,6})\s/);
+		return index > start && match !== null && match[1].length <= level;
+	});
+
+	return { start, end: end === -1 ? lines.length : end };
+};
+
+/**
+ * Finds the section under a heading, including the heading line
+ */
+const extractHeading = (lines: string[], heading: string): string[] | null => {
+	const section = findHeadingSection(lines, heading);
+	return section ? lines.slice(section.start, section.end) : null;
+};
+
+/**
+ * Finds the paragraph or list item marked with a `^block` ID, without the marker
+ */
+const extractBlock = (lines: string[], blockId: string): string[] | null => {
+	const marker = new RegExp(`\\s\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+	const index = lines.findIndex(line => marker.test(line));
+	if (index === -1) return null;
+
+	// List items are blocks of their own; paragraphs extend to the surrounding blank lines
+	if (/^\s*([-*+]|\d+\.)\s/.test(lines[index])) {
+		return [lines[index].replace(marker, '')];
+	}
+
+	let start = index;
+	while (start > 0 && lines[start - 1].trim() !== '') start--;
+
+	return [...lines.slice(start, index), lines[index].replace(marker, '')];
+};
+
+/**
+ * Extracts the part of a note a link subpath points at:
+ * `#Heading`, nested headings like `#Heading#Subheading`, or `#^block-id`
+ *
+ * @param {string} text - Content of the note
+ * @param {string} subpath - The subpath, including the leading `#`
+ * @returns {string | null} The referenced section, or null if it does not exist
+ * @example
+ * extractSubpath(note, '#Tasks'); // the Tasks heading and everything under it
+ */
+export const extractSubpath = (text: string, subpath: string): string | null => {
+	let lines: string[] | null = text.split('\n');
+	const parts = subpath.split('#').filter(part => part.trim());
+
+	for (const part of parts) {
+		if (!lines) break;
+		lines = part.startsWith('^') ? extractBlock(lines, part.slice(1)) : extractHeading(lines, part);
+	}
+
+	return lines ? lines.join('\n').trim() : null;
+};
+
+/**
+ * Extracts the readable text of a `.canvas` file: the text of its text nodes
+ * and the names of the files it embeds, in file order
+ *
+ * @param {string} json - Content of the canvas file
+ * @returns {string} The canvas text, or an empty string if the file is not valid JSON
+ */
+export const extractCanvasText = (json: string): string => {
+	let data: JSONCanvasData;
+	try {
+		data = JSON.parse(json) as JSONCanvasData;
+	} catch {
+		return '';
+	}
+
+	return (data.nodes || [])
+		.map(node => {
+			if (node.type === 'text') return (node as JSONCanvasTextNode).text;
+			if (node.type === 'file') return `[[${(node as JSONCanvasFileNode).file}]]`;
+			return '';
+		})
+		.filter(text => text.trim())
+		.join('\n\n');
+};
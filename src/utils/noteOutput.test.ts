@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { applyNoteOutput, getNoteOutputTarget, getOverwrittenText } from './noteOutput';
+import type { JSONCanvasFileNode } from '../types/jsoncanvas';
+import type { NoteOutputTarget } from './noteOutput';
+import type { WorkflowNodeProperties } from '../types/workflow';
+
+const note = [
+	'---',
+	'tags: [daily]',
+	'---',
+	'# Today',
+	'',
+	'## Log',
+	'',
+	'Woke up early.',
+	'',
+	'## Reflection',
+	'',
+	'Old thoughts.',
+	'',
+	'## Tomorrow',
+	'',
+	'- Rest',
+	''
+].join('\n');
+
+const fileNode = (props: Partial<JSONCanvasFileNode & WorkflowNodeProperties> = {}): JSONCanvasFileNode & WorkflowNodeProperties => ({
+	id: 'note',
+	type: 'file',
+	file: 'Daily/2026-10-19.md',
+	x: 0,
+	y: 0,
+	width: 400,
+	height: 400,
+	...props
+});
+
+const target = (mode: NoteOutputTarget['mode'], headings: string[] = []): NoteOutputTarget => ({ mode, headings });
+
+describe('noteOutput', () => {
+	describe('getNoteOutputTarget', () => {
+		it('should append to notes without a mode or heading link', () => {
+			expect(getNoteOutputTarget(fileNode())).toEqual(target('append'));
+		});
+
+		it('should replace the linked section by default', () => {
+			expect(getNoteOutputTarget(fileNode({ subpath: '#Today#Reflection' })))
+				.toEqual(target('section', ['Today', 'Reflection']));
+		});
+
+		it('should prefer the mode stored on the node', () => {
+			expect(getNoteOutputTarget(fileNode({ subpath: '#Reflection', noteOutputMode: 'prepend' })).mode)
+				.toBe('prepend');
+		});
+
+		it('should reject the section mode without a heading link', () => {
+			expect(() => getNoteOutputTarget(fileNode({ subpath: '#^block', noteOutputMode: 'section' })))
+				.toThrow('to a heading');
+		});
+	});
+
+	describe('applyNoteOutput', () => {
+		it('should append after the existing content', () => {
+			expect(applyNoteOutput('# Note\n\nBody\n\n', 'Result', target('append'))).toBe('# Note\n\nBody\n\nResult\n');
+		});
+
+		it('should prepend below the front matter', () => {
+			expect(applyNoteOutput('---\na: 1\n---\nBody', 'Result', target('prepend'))).toBe('---\na: 1\n---\nResult\n\nBody');
+		});
+
+		it('should replace the body and keep the front matter', () => {
+			expect(applyNoteOutput(note, 'Result', target('replace'))).toBe('---\ntags: [daily]\n---\nResult\n');
+		});
+
+		it('should replace only the content under the heading', () => {
+			const updated = applyNoteOutput(note, 'New thoughts.', target('section', ['Reflection']));
+
+			expect(updated).toContain('## Reflection\n\nNew thoughts.\n\n## Tomorrow');
+			expect(updated).toContain('Woke up early.');
+			expect(updated).not.toContain('Old thoughts.');
+		});
+
+		it('should add a missing heading at the end of the note', () => {
+			expect(applyNoteOutput('# Note\n', 'Result', target('section', ['Summary']))).toBe('# Note\n\n## Summary\n\nResult\n');
+		});
+	});
+
+	describe('getOverwrittenText', () => {
+		it('should return the section that would be replaced', () => {
+			expect(getOverwrittenText(note, target('section', ['Reflection']))).toBe('Old thoughts.');
+		});
+
+		it('should return nothing for modes that only add content', () => {
+			expect(getOverwrittenText(note, target('append'))).toBe('');
+			expect(getOverwrittenText(note, target('prepend'))).toBe('');
+		});
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Helpers for writing processor results into the notes that canvas file nodes point at
+ */
+
+import type { JSONCanvasFileNode } from '../types/jsoncanvas';
+import type { NoteOutputMode, WorkflowNodeProperties } from '../types/workflow';
+import { findHeadingSection, stripFrontmatter } from './noteContent';
+
+/**
+ * Where in a note a result is written
+ */
+export interface NoteOutputTarget {
+	/** How the result is combined with the existing content */
+	mode: NoteOutputMode;
+	/** Headings of the section to replace, outermost first, for the section mode */
+	headings: string[];
+}
+
+/**
+ * Reads the output mode of a file node.
+ * Nodes without a mode replace the section they link to, or append to the note.
+ *
+ * @param {JSONCanvasFileNode & WorkflowNodeProperties} node - The file node connected as an output
+ * @returns {NoteOutputTarget} The mode and the headings of the linked section
+ * @throws {Error} If the section mode is used without a link to a heading
+ */
+export const getNoteOutputTarget = (node: JSONCanvasFileNode & WorkflowNodeProperties): NoteOutputTarget => {
+	const parts = (node.subpath ?? '').split('#').filter(part => part.trim());
+	const headings = parts.some(part => part.startsWith('^')) ? [] : parts;
+	const mode = node.noteOutputMode ?? (headings.length > 0 ? 'section' : 'append');
+
+	if (mode === 'section' && headings.length === 0) {
+		throw new Error(`Link ${node.file} to a heading, e.g. ${node.file}#Reflection, to replace a section`);
+	}
+
+	return { mode, headings };
+};
+
+/**
+ * Finds the lines under the nested headings of a target section, without the heading line itself
+ */
+const findSection = (lines: string[], headings: string[]): { start: number; end: number } | null => {
+	let range = { start: 0, end: lines.length };
+
+	for (const heading of headings) {
+		const section = findHeadingSection(lines.slice(range.start, range.end), heading);
+		if (!section) return null;
+		range = { start: range.start + section.start, end: range.start + section.end };
+	}
+
+	return { start: range.start + 1, end: range.end };
+};
+
+/**
+ * Splits a note into its front matter block and the rest
+ */
+const splitFrontmatter = (content: string): { frontmatter: string; body: string } => {
+	const body = stripFrontmatter(content);
+	return { frontmatter: content.slice(0, content.length - body.length), body };
+};
+
+/**
+ * Writes a result into the content of a note.
+ * The section mode adds the heading at the end of the note if it does not exist yet.
+ *
+ * @param {string} content - Current content of the note
+ * @param {string} result - The processor result
+ * @param {NoteOutputTarget} target - Where to write the result
+ * @returns {string} The new content of the note
+ * @example
+ * applyNoteOutput(note, 'Went well.', { mode: 'section', headings: ['Reflection'] });
+ */
+export const applyNoteOutput = (content: string, result: string, target: NoteOutputTarget): string => {
+	const text = result.trim();
+
+	switch (target.mode) {
+		case 'replace':
+			return `${splitFrontmatter(content).frontmatter}${text}\n`;
+
+		case 'prepend': {
+			const { frontmatter, body } = splitFrontmatter(content);
+			const rest = body.trimStart();
+			return rest ? `${frontmatter}${text}\n\n${rest}` : `${frontmatter}${text}\n`;
+		}
+
+		case 'section': {
+			const lines = content.split('\n');
+			const section = findSection(lines, target.headings);
+
+			if (!section) {
+				const heading = `## ${target.headings[target.headings.length - 1]}`;
+				return applyNoteOutput(content, `${heading}\n\n${text}`, { mode: 'append', headings: [] });
+			}
+
+			return [...lines.slice(0, section.start), '', text, '', ...lines.slice(section.end)].join('\n');
+		}
+
+		case 'append':
+		default: {
+			const existing = content.trimEnd();
+			return existing ? `${existing}\n\n${text}\n` : `${text}\n`;
+		}
+	}
+};
+
+/**
+ * Gets the existing text that writing a result would remove:
+ * the body of the note for the replace mode, or the target section for the section mode
+ *
+ * @param {string} content - Current content of the note
+ * @param {NoteOutputTarget} target - Where the result would be written
+ * @returns {string} The text that would be overwritten, or an empty string if nothing would be
+ */
+export const getOverwrittenText = (content: string, target: NoteOutputTarget): string => {
+	if (target.mode === 'replace') {
+		return splitFrontmatter(content).body.trim();
+	}
+
+	if (target.mode === 'section') {
+		const lines = content.split('\n');
+		const section = findSection(lines, target.headings);
+		return section ? lines.slice(section.start, section.end).join('\n').trim() : '';
+	}
+
+	return '';
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatPerspectives, getPerspectiveInstruction, PERSPECTIVE_INSTRUCTION } from './perspectives';
+
+describe('perspectives', () => {
+	describe('formatPerspectives', () => {
+		it('should fold each perspective into a callout titled with its agent', () => {
+			expect(formatPerspectives([
+				{ title: 'Coach', content: 'Keep going.' },
+				{ title: 'Psychologist', content: 'You sound tired.\n\nRest first.' }
+			])).toBe(
+				'> [!quote]- Perspective: Coach\n> Keep going.\n\n' +
+				'> [!quote]- Perspective: Psychologist\n> You sound tired.\n>\n> Rest first.'
+			);
+		});
+
+		it('should return nothing without perspectives', () => {
+			expect(formatPerspectives([])).toBe('');
+		});
+	});
+
+	describe('getPerspectiveInstruction', () => {
+		it('should ask for perspectives on the inputs', () => {
+			expect(getPerspectiveInstruction('Summarize', [{ title: 'Journal', content: 'Slept badly' }])).toBe(PERSPECTIVE_INSTRUCTION);
+		});
+
+		it('should ask for perspectives on the task when the agents are the only inputs', () => {
+			const instruction = getPerspectiveInstruction('Plan a trip to Lisbon\n', [{ title: 'Previous result', content: ' ' }]);
+
+			expect(instruction).not.toBe(PERSPECTIVE_INSTRUCTION);
+			expect(instruction).toContain('the task below');
+			expect(instruction.endsWith('Task:\nPlan a trip to Lisbon')).toBe(true);
+		});
+	});
+});
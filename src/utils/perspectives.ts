@@ -0,0 +1,47 @@
+/**
+ * Helpers for processors fed by several agents, which each give their
+ * own perspective before the processor combines them
+ */
+
+import type { TemplateInput } from './promptTemplate';
+
+/**
+ * Instruction each agent answers with its own perspective on the processor's inputs
+ */
+export const PERSPECTIVE_INSTRUCTION = 'Give your own perspective on the input below, true to your role. ' +
+	'It will be combined with the perspectives of other agents, so focus on what you in particular notice.';
+
+/**
+ * Instruction each agent answers when the processor has no inputs besides its agents,
+ * followed by the processor's own instruction
+ */
+const TASK_PERSPECTIVE_INSTRUCTION = 'Give your own perspective on the task below, true to your role. ' +
+	'It will be combined with the perspectives of other agents, so focus on what you in particular notice.';
+
+/**
+ * Gets the instruction the agents of a processor answer with their perspectives:
+ * on the processor's inputs, or on its task when the agents are its only inputs
+ *
+ * @param {string} task - The processor's instruction, rendered
+ * @param {TemplateInput[]} inputs - The processor's inputs, without its agents
+ * @returns {string} The instruction sent to every agent
+ */
+export const getPerspectiveInstruction = (task: string, inputs: TemplateInput[]): string => {
+	if (inputs.some(input => input.content.trim())) return PERSPECTIVE_INSTRUCTION;
+	return `${TASK_PERSPECTIVE_INSTRUCTION}\n\nTask:\n${task.trim()}`;
+};
+
+/**
+ * Renders the perspectives of a processor's agents as folded callouts, one per agent
+ *
+ * @param {TemplateInput[]} perspectives - Each agent's perspective, titled with the agent's name
+ * @returns {string} The callouts, or an empty string if there are none yet
+ */
+export const formatPerspectives = (perspectives: TemplateInput[]): string => {
+	return perspectives
+		.map(({ title, content }) => {
+			const quoted = content.trim().split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+			return `> [!quote]- Perspective: ${title}\n${quoted}`;
+		})
+		.join('\n\n');
+};
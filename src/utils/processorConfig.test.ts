@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { parseAgentSettings, parseProcessorMode, parseProcessorSchema, parseProcessorSettings } from './processorConfig';
+
+describe('processorConfig', () => {
+	describe('parseProcessorSettings', () => {
+		it('should extract settings and keep instruction lines', () => {
+			const result = parseProcessorSettings([
+				'model: qwen2.5-7b-instruct',
+				'temperature: 0.2',
+				'max_tokens: 2000',
+				'Summarize the input in 3 bullet points.',
+			]);
+
+			expect(result.instructionLines).toEqual(['Summarize the input in 3 bullet points.']);
+			expect(result.settings).toEqual({
+				model: 'qwen2.5-7b-instruct',
+				temperature: 0.2,
+				maxTokens: 2000,
+			});
+		});
+
+		it('should accept settings in any case and spacing', () => {
+			const result = parseProcessorSettings(['  Max_Tokens :  1500 ', 'TEMPERATURE:1']);
+
+			expect(result.settings).toEqual({ maxTokens: 1500, temperature: 1 });
+		});
+
+		it('should return no settings when none are declared', () => {
+			const result = parseProcessorSettings(['Translate to English', 'Keep it short']);
+
+			expect(result.instructionLines).toHaveLength(2);
+			expect(result.settings).toEqual({});
+		});
+
+		it('should not treat other key-value lines as settings', () => {
+			const result = parseProcessorSettings(['Format: bullet list']);
+
+			expect(result.instructionLines).toEqual(['Format: bullet list']);
+		});
+
+		it('should keep instruction lines that only start like a setting', () => {
+			const lines = ['Model: describe the business model of each company', 'Temperature: summarize the readings', 'max_tokens: as few as possible'];
+			const result = parseProcessorSettings(lines);
+
+			expect(result.instructionLines).toEqual(lines);
+			expect(result.settings).toEqual({});
+		});
+
+		it('should reject out-of-range temperatures', () => {
+			expect(() => parseProcessorSettings(['temperature: 3'])).toThrow('Invalid temperature "3"');
+			expect(() => parseProcessorSettings(['temperature: -0.5'])).toThrow('Invalid temperature "-0.5"');
+		});
+
+		it('should reject invalid max_tokens', () => {
+			expect(() => parseProcessorSettings(['max_tokens: 1.5'])).toThrow('Invalid max_tokens "1.5"');
+			expect(() => parseProcessorSettings(['max_tokens: -1'])).toThrow('Invalid max_tokens "-1"');
+		});
+	});
+
+	describe('parseAgentSettings', () => {
+		it('should read the settings lines above the system prompt', () => {
+			const text = '# 🤖 AI Agent\n\n> **Critic**\n\n**Role:** critic\n\n**Model:** qwen2.5-7b\n\n**Max Tokens:** 400\n\n' +
+				'**System Prompt:**\n**Temperature:** is not a setting here';
+
+			expect(parseAgentSettings(text)).toEqual({ model: 'qwen2.5-7b', maxTokens: 400 });
+		});
+
+		it('should reject invalid values', () => {
+			expect(() => parseAgentSettings('**Temperature:** hot')).toThrow('Invalid temperature "hot"');
+		});
+	});
+
+	describe('parseProcessorSchema', () => {
+		it('should extract the schema block and keep the other lines', () => {
+			const result = parseProcessorSchema([
+				'List the tasks.',
+				'```schema',
+				'{ "type": "array",',
+				'"items": { "type": "string" } }',
+				'```',
+				'Be brief.',
+			]);
+
+			expect(result.instructionLines).toEqual(['List the tasks.', 'Be brief.']);
+			expect(result.schema).toEqual({ type: 'array', items: { type: 'string' } });
+		});
+
+		it('should return no schema when none is declared', () => {
+			expect(parseProcessorSchema(['Summarize', '```js', 'code', '```']).schema).toBeUndefined();
+		});
+
+		it('should reject invalid schemas', () => {
+			expect(() => parseProcessorSchema(['```schema', '{ "type": }', '```'])).toThrow('Invalid schema');
+			expect(() => parseProcessorSchema(['```schema', '[]', '```'])).toThrow('expected a JSON object');
+			expect(() => parseProcessorSchema(['```schema', '{}'])).toThrow('not closed');
+		});
+	});
+
+	describe('parseProcessorMode', () => {
+		it('should extract map settings with defaults', () => {
+			expect(parseProcessorMode(['mode: map', 'Summarize each meeting'])).toEqual({
+				instructionLines: ['Summarize each meeting'],
+				map: { split: 'inputs', outputs: 'combined', concurrency: 2 }
+			});
+		});
+
+		it('should read the split, outputs and concurrency lines', () => {
+			const result = parseProcessorMode(['Mode: MAP', 'split: sections', 'outputs: separate', 'concurrency: 4']);
+
+			expect(result.map).toEqual({ split: 'sections', outputs: 'separate', concurrency: 4 });
+			expect(result.instructionLines).toEqual([]);
+		});
+
+		it('should leave lines with other values in the instruction', () => {
+			const result = parseProcessorMode(['Mode: formal', 'Split: evenly', 'concurrency: high']);
+
+			expect(result.map).toBeUndefined();
+			expect(result.instructionLines).toHaveLength(3);
+		});
+
+		it('should reject concurrency outside the allowed range', () => {
+			expect(() => parseProcessorMode(['concurrency: 0'])).toThrow('Invalid concurrency "0"');
+			expect(() => parseProcessorMode(['concurrency: 20'])).toThrow('between 1 and 8');
+		});
+
+		it('should extract reduce settings', () => {
+			expect(parseProcessorMode(['mode: reduce', 'chunk_tokens: 1500', 'Summarize'])).toEqual({
+				instructionLines: ['Summarize'],
+				reduce: { chunkTokens: 1500 }
+			});
+			expect(parseProcessorMode(['mode: reduce']).reduce).toEqual({ chunkTokens: 2500 });
+		});
+
+		it('should reject chunks too small to hold an instruction', () => {
+			expect(() => parseProcessorMode(['chunk_tokens: 100'])).toThrow('Invalid chunk_tokens "100"');
+		});
+	});
+});
@@ -0,0 +1,276 @@
+import type { MapOutputs, MapSettings, MapSplit, ProcessorSettings, ReduceSettings } from '../types/workflow';
+import type { JsonSchema } from './jsonSchema';
+
+/**
+ * Matches a `key: value` settings line in a processor's instructions
+ */
+const SETTING_LINE = /^\s*(model|temperature|max_tokens)\s*:\s*(.*?)\s*$/i;
+
+/**
+ * Values a settings line must look like to be read as one: a model ID without spaces, or a number.
+ * Numbers out of range are still read, so they fail instead of reaching the model.
+ */
+const SETTING_VALUES: Record<string, RegExp> = {
+	model: /^\S+$/,
+	temperature: /^-?(?:\d+\.?\d*|\.\d+)$/,
+	max_tokens: /^-?(?:\d+\.?\d*|\.\d+)$/
+};
+
+/**
+ * Matches the opening fence of a schema block
+ */
+const SCHEMA_FENCE = /^\s*```\s*schema\s*$/i;
+
+/**
+ * Matches a line declaring the processor mode or a map or reduce setting
+ */
+const MODE_LINE = /^\s*(mode|split|outputs|concurrency|chunk_tokens)\s*:\s*(.*?)\s*$/i;
+
+/**
+ * Values the mode lines accept; `concurrency:` and `chunk_tokens:` accept any whole number
+ */
+const MODE_OPTIONS: Record<string, string[]> = {
+	mode: ['single', 'map', 'reduce'],
+	split: ['inputs', 'items', 'sections'],
+	outputs: ['combined', 'separate']
+};
+
+/**
+ * Items a map processor runs at the same time unless it declares `concurrency:`
+ */
+export const DEFAULT_MAP_CONCURRENCY = 2;
+
+/**
+ * Highest `concurrency:` a map processor can declare
+ */
+export const MAX_MAP_CONCURRENCY = 8;
+
+/**
+ * Tokens a reduce processor fits into each request unless it declares `chunk_tokens:`,
+ * leaving room for the answer in a 4k context window
+ */
+export const DEFAULT_CHUNK_TOKENS = 2500;
+
+/**
+ * Smallest `chunk_tokens:` a reduce processor can declare
+ */
+export const MIN_CHUNK_TOKENS = 500;
+
+/**
+ * Result of separating settings lines from instruction lines
+ */
+export interface ParsedProcessorLines {
+	/** Lines that belong to the instruction */
+	instructionLines: string[];
+	/** Settings declared in the lines */
+	settings: ProcessorSettings;
+}
+
+/**
+ * Stores the value of a `model:`, `temperature:` or `max_tokens:` setting
+ *
+ * @throws {Error} If the value is out of range
+ */
+const applySetting = (settings: ProcessorSettings, key: string, value: string): void => {
+	switch (key) {
+		case 'model':
+			if (value) settings.model = value;
+			break;
+		case 'temperature': {
+			const temperature = Number(value);
+			if (value === '' || isNaN(temperature) || temperature < 0 || temperature > 2) {
+				throw new Error(`Invalid temperature "${value}": expected a number between 0 and 2`);
+			}
+			settings.temperature = temperature;
+			break;
+		}
+		case 'max_tokens': {
+			const maxTokens = Number(value);
+			if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+				throw new Error(`Invalid max_tokens "${value}": expected a positive whole number`);
+			}
+			settings.maxTokens = maxTokens;
+			break;
+		}
+	}
+};
+
+/**
+ * Separates `model:`, `temperature:` and `max_tokens:` lines from a processor's instruction lines.
+ * Lines whose value is not a model ID or a number belong to the instruction,
+ * e.g. `Model: describe the business model`.
+ *
+ * @param {string[]} lines - Lines of the processor's instruction section
+ * @returns {ParsedProcessorLines} The remaining instruction lines and the parsed settings
+ * @throws {Error} If a numeric setting is out of range
+ * @example
+ * parseProcessorSettings(['model: qwen2.5-7b', 'max_tokens: 2000', 'Summarize the input']);
+ * // { instructionLines: ['Summarize the input'], settings: { model: 'qwen2.5-7b', maxTokens: 2000 } }
+ */
+export const parseProcessorSettings = (lines: string[]): ParsedProcessorLines => {
+	const instructionLines: string[] = [];
+	const settings: ProcessorSettings = {};
+
+	for (const line of lines) {
+		const match = line.match(SETTING_LINE);
+		const key = match?.[1].toLowerCase() ?? '';
+
+		if (!match || !SETTING_VALUES[key].test(match[2])) {
+			instructionLines.push(line);
+			continue;
+		}
+
+		applySetting(settings, key, match[2]);
+	}
+
+	return { instructionLines, settings };
+};
+
+/**
+ * Reads the model settings of an agent node, written as `**Model:**`, `**Temperature:**`
+ * and `**Max Tokens:**` lines by `formatAgentNodeText`
+ *
+ * @param {string} text - Markdown content of the agent node
+ * @returns {ProcessorSettings} The settings the agent declares
+ * @throws {Error} If a setting has an invalid value
+ * @example
+ * parseAgentSettings('**Role:** critic\n\n**Temperature:** 0.2'); // { temperature: 0.2 }
+ */
+export const parseAgentSettings = (text: string): ProcessorSettings => {
+	// Settings come before the system prompt, which may contain lines of any kind
+	const promptIndex = text.indexOf('**System Prompt:**');
+	const fields = promptIndex >= 0 ? text.slice(0, promptIndex) : text;
+
+	// The labels leave no doubt, so every value is checked
+	const settings: ProcessorSettings = {};
+	for (const line of fields.split('\n')) {
+		const match = line.match(/^\s*\*\*(Model|Temperature|Max Tokens):\*\*\s*(.*?)\s*$/i);
+		if (match) {
+			applySetting(settings, match[1].toLowerCase().replace(' ', '_'), match[2]);
+		}
+	}
+
+	return settings;
+};
+
+/**
+ * Result of separating a schema block from instruction lines
+ */
+export interface ParsedProcessorSchema {
+	/** Lines that belong to the instruction */
+	instructionLines: string[];
+	/** Schema the processor's reply must match, if the lines declare one */
+	schema?: JsonSchema;
+}
+
+/**
+ * Separates a fenced ` ```schema ` block, holding the JSON schema of the
+ * processor's reply, from a processor's instruction lines
+ *
+ * @param {string[]} lines - Lines of the processor's instruction section
+ * @returns {ParsedProcessorSchema} The remaining instruction lines and the parsed schema
+ * @throws {Error} If the block is not closed or does not contain a JSON object
+ * @example
+ * parseProcessorSchema(['List the tasks', '```schema', '{"type": "array"}', '```']);
+ * // { instructionLines: ['List the tasks'], schema: { type: 'array' } }
+ */
+export const parseProcessorSchema = (lines: string[]): ParsedProcessorSchema => {
+	const start = lines.findIndex(line => SCHEMA_FENCE.test(line));
+	if (start === -1) return { instructionLines: lines };
+
+	const end = lines.findIndex((line, index) => index > start && line.trim().startsWith('```'));
+	if (end === -1) {
+		throw new Error('Invalid schema: the ```schema block is not closed');
+	}
+
+	let schema: unknown;
+	try {
+		schema = JSON.parse(lines.slice(start + 1, end).join('\n'));
+	} catch (error) {
+		throw new Error(`Invalid schema: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (schema === null || typeof schema !== 'object' || Array.isArray(schema)) {
+		throw new Error('Invalid schema: expected a JSON object');
+	}
+
+	return {
+		instructionLines: [...lines.slice(0, start), ...lines.slice(end + 1)],
+		schema: schema as JsonSchema
+	};
+};
+
+/**
+ * Result of separating mode lines from instruction lines
+ */
+export interface ParsedProcessorMode {
+	/** Lines that belong to the instruction */
+	instructionLines: string[];
+	/** Map settings, if the lines declare `mode: map` */
+	map?: MapSettings;
+	/** Reduce settings, if the lines declare `mode: reduce` */
+	reduce?: ReduceSettings;
+}
+
+/**
+ * Separates the `mode: map` or `mode: reduce` line and the lines that configure it
+ * from a processor's instruction lines: `split:`, `outputs:` and `concurrency:`
+ * for map processors, `chunk_tokens:` for reduce processors.
+ * Lines with other values, like `Mode: formal`, are left in the instruction.
+ *
+ * @param {string[]} lines - Lines of the processor's instruction section
+ * @returns {ParsedProcessorMode} The remaining instruction lines and the settings of the declared mode
+ * @throws {Error} If the concurrency is not between 1 and `MAX_MAP_CONCURRENCY`, or the chunk size below `MIN_CHUNK_TOKENS`
+ * @example
+ * parseProcessorMode(['mode: map', 'split: sections', 'Summarize the meeting']);
+ * // { instructionLines: ['Summarize the meeting'], map: { split: 'sections', outputs: 'combined', concurrency: 2 } }
+ */
+export const parseProcessorMode = (lines: string[]): ParsedProcessorMode => {
+	const instructionLines: string[] = [];
+	const map: MapSettings = { split: 'inputs', outputs: 'combined', concurrency: DEFAULT_MAP_CONCURRENCY };
+	const reduce: ReduceSettings = { chunkTokens: DEFAULT_CHUNK_TOKENS };
+	let mode = 'single';
+
+	for (const line of lines) {
+		const match = line.match(MODE_LINE);
+		const key = match?.[1].toLowerCase() ?? '';
+		const value = match?.[2].toLowerCase() ?? '';
+		const isKnown = MODE_OPTIONS[key] ? MODE_OPTIONS[key].includes(value) : /^\d+$/.test(value);
+
+		if (!match || !isKnown) {
+			instructionLines.push(line);
+			continue;
+		}
+
+		switch (key) {
+			case 'mode':
+				mode = value;
+				break;
+			case 'split':
+				map.split = value as MapSplit;
+				break;
+			case 'outputs':
+				map.outputs = value as MapOutputs;
+				break;
+			case 'concurrency': {
+				const concurrency = Number(value);
+				if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_MAP_CONCURRENCY) {
+					throw new Error(`Invalid concurrency "${match[2]}": expected a whole number between 1 and ${MAX_MAP_CONCURRENCY}`);
+				}
+				map.concurrency = concurrency;
+				break;
+			}
+			case 'chunk_tokens': {
+				const chunkTokens = Number(value);
+				if (chunkTokens < MIN_CHUNK_TOKENS) {
+					throw new Error(`Invalid chunk_tokens "${match[2]}": expected at least ${MIN_CHUNK_TOKENS}`);
+				}
+				reduce.chunkTokens = chunkTokens;
+				break;
+			}
+		}
+	}
+
+	if (mode === 'map') return { instructionLines, map };
+	if (mode === 'reduce') return { instructionLines, reduce };
+	return { instructionLines };
+};
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasFileNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import type { TemplateContext } from './promptTemplate';
+import { getInputTitle, getPartialNames, getTemplateReferences, parseVariablesNode, renderTemplate } from './promptTemplate';
+
+const context = (overrides: Partial<TemplateContext> = {}): TemplateContext => ({
+	inputs: [
+		{ title: 'Plan', content: 'Write the report' },
+		{ title: 'Journal', content: 'Slept badly' }
+	],
+	variables: { date: '2026-10-19', topic: 'work' },
+	partials: {},
+	...overrides
+});
+
+const textNode = (text: string): JSONCanvasTextNode => ({
+	id: 'n',
+	type: 'text',
+	text,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100
+});
+
+describe('promptTemplate', () => {
+	describe('getTemplateReferences', () => {
+		it('should classify every kind of tag', () => {
+			expect(getTemplateReferences('{{ input.My Plan }} {{inputs}} {{date}} {{> tone}}')).toEqual([
+				{ kind: 'input', name: 'My Plan', tag: '{{ input.My Plan }}' },
+				{ kind: 'inputs', name: 'inputs', tag: '{{inputs}}' },
+				{ kind: 'variable', name: 'date', tag: '{{date}}' },
+				{ kind: 'partial', name: 'tone', tag: '{{> tone}}' }
+			]);
+		});
+	});
+
+	describe('renderTemplate', () => {
+		it('should place inputs by title and leave the others unused', () => {
+			const rendered = renderTemplate('Plan for {{date}}: {{input.plan}}', context());
+
+			expect(rendered.text).toBe('Plan for 2026-10-19: Write the report');
+			expect(rendered.unusedInputs.map(input => input.title)).toEqual(['Journal']);
+		});
+
+		it('should place fields of structured inputs', () => {
+			const inputs = [{ title: 'Extract Tasks', content: '{"tasks": [{"title": "Call Ana"}], "count": 1}' }];
+			const rendered = renderTemplate('{{input.extract tasks.tasks[0].title}} of {{input.Extract Tasks.count}}', context({ inputs }));
+
+			expect(rendered.text).toBe('Call Ana of 1');
+			expect(rendered.unusedInputs).toEqual([]);
+		});
+
+		it('should reject fields that do not exist', () => {
+			const inputs = [{ title: 'Tasks', content: '{"tasks": []}' }];
+
+			expect(() => renderTemplate('{{input.Tasks.done}}', context({ inputs }))).toThrow('{{input.Tasks.done}}');
+		});
+
+		it('should place all inputs with {{inputs}}', () => {
+			const rendered = renderTemplate('{{inputs}}', context());
+
+			expect(rendered.text).toBe('Write the report\n\n---\n\nSlept badly');
+			expect(rendered.unusedInputs).toEqual([]);
+		});
+
+		it('should expand nested partials', () => {
+			const partials = { tone: 'Be brief about {{topic}}. {{> sign}}', sign: 'Thanks.' };
+
+			expect(renderTemplate('{{> tone}}', context({ partials })).text).toBe('Be brief about work. Thanks.');
+		});
+
+		it('should list every missing value in one error', () => {
+			expect(() => renderTemplate('{{input.Notes}} {{mood}} {{> tone}}', context()))
+				.toThrow('Unknown template values: {{> tone}}, {{input.Notes}}, {{mood}}. Inputs: Plan, Journal.');
+		});
+
+		it('should reject partials that include themselves', () => {
+			expect(() => renderTemplate('{{> loop}}', context({ partials: { loop: 'again {{> loop}}' } })))
+				.toThrow('nested too deeply');
+		});
+
+		it('should not treat object built-ins as variables or partials', () => {
+			expect(() => renderTemplate('{{constructor}} {{toString}} {{> constructor}}', context()))
+				.toThrow('Unknown template values: {{> constructor}}, {{constructor}}, {{toString}}.');
+		});
+
+		it('should place variables and partials named like object built-ins', () => {
+			const variables = { constructor: 'Ana', toString: 'Bo' };
+			const partials = { constructor: 'Hi {{constructor}} and {{toString}}' };
+
+			expect(renderTemplate('{{> constructor}}', context({ variables, partials })).text).toBe('Hi Ana and Bo');
+		});
+
+		it('should not render tags inside input content', () => {
+			const inputs = [{ title: 'Raw', content: 'Literal {{date}}' }];
+
+			expect(renderTemplate('{{input.Raw}}', context({ inputs })).text).toBe('Literal {{date}}');
+		});
+	});
+
+	describe('getPartialNames', () => {
+		it('should list each partial once', () => {
+			expect(getPartialNames('{{> a}} {{b}} {{>a}} {{> c}}')).toEqual(['a', 'c']);
+		});
+	});
+
+	describe('parseVariablesNode', () => {
+		it('should read name: value lines under a Variables heading', () => {
+			expect(parseVariablesNode('# 📋 Variables\n\n- topic: gardening\nauthor: Sam\nNot a variable'))
+				.toEqual({ topic: 'gardening', author: 'Sam' });
+		});
+
+		it('should ignore other nodes', () => {
+			expect(parseVariablesNode('# Notes\n\ntopic: gardening')).toBeNull();
+		});
+	});
+
+	describe('getInputTitle', () => {
+		it('should use the first heading of text nodes without emoji', () => {
+			expect(getInputTitle(textNode('# 📝 Weekly Plan\n\nBody'))).toBe('Weekly Plan');
+		});
+
+		it('should keep leading characters that are not emoji', () => {
+			expect(getInputTitle(textNode('# 「会議」メモ'))).toBe('「会議」メモ');
+			expect(getInputTitle(textNode('# → Next steps'))).toBe('→ Next steps');
+			expect(getInputTitle(textNode('# ∑ Totals'))).toBe('∑ Totals');
+		});
+
+		it('should use the processor title of processors', () => {
+			expect(getInputTitle(textNode('# ⚙️ AI Processor\n\n> **Summary**\n\n**AI Processing Node**'))).toBe('Summary');
+		});
+
+		it('should use the file name of file nodes', () => {
+			const node: JSONCanvasFileNode = { id: 'f', type: 'file', file: 'Daily/2026-10-19.md', x: 0, y: 0, width: 100, height: 100 };
+
+			expect(getInputTitle(node)).toBe('2026-10-19');
+		});
+	});
+});
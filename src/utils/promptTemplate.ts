@@ -0,0 +1,256 @@
+/**
+ * Template language for processor instructions:
+ * `{{name}}` for variables, `{{input.<title>}}` for a specific input,
+ * `{{input.<title>.<field>}}` for a field of a structured input,
+ * `{{inputs}}` for all inputs and `{{> name}}` for prompt partials
+ */
+
+import type { JSONCanvasFileNode, JSONCanvasNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import { getProcessorTitle } from './nodeContent';
+import { isProcessorNode } from './nodeRole';
+import { getJsonField, parseJsonReply } from './structuredOutput';
+
+/**
+ * Matches a `{{ ... }}` tag; the first group is `>` for partials
+ */
+const TEMPLATE_TAG = /\{\{\s*(>?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Prefix of tags that place a single input
+ */
+const INPUT_PREFIX = 'input.';
+
+/**
+ * Name of the tag that places all inputs
+ */
+const ALL_INPUTS = 'inputs';
+
+/**
+ * Heading that marks the text node holding the canvas variables
+ */
+const VARIABLES_HEADING = 'variables';
+
+/**
+ * Deepest nesting of partials, so a partial including itself fails instead of looping
+ */
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Removes the emoji that generated headings start with, which nobody types in a template
+ */
+const stripLeadingEmoji = (text: string): string => {
+	return text.replace(/^[\p{Extended_Pictographic}\uFE0F\u200D\s]+/u, '').trim();
+};
+
+/**
+ * A tag found in a template
+ */
+export interface TemplateReference {
+	/** What the tag refers to */
+	kind: 'input' | 'inputs' | 'variable' | 'partial';
+	/** Input title, variable name or partial name */
+	name: string;
+	/** The tag as written, for error messages */
+	tag: string;
+}
+
+/**
+ * An input of a processor, with the title templates refer to it by
+ */
+export interface TemplateInput {
+	title: string;
+	content: string;
+}
+
+/**
+ * Values available while rendering a template
+ */
+export interface TemplateContext {
+	/** Inputs of the processor, in connection order */
+	inputs: TemplateInput[];
+	/** Variable values by name */
+	variables: Record<string, string>;
+	/** Partial templates by name */
+	partials: Record<string, string>;
+}
+
+/**
+ * A rendered template
+ */
+export interface RenderedTemplate {
+	/** The template with every tag replaced */
+	text: string;
+	/** Inputs the template did not place, to be appended to the prompt */
+	unusedInputs: TemplateInput[];
+}
+
+/**
+ * Lists the tags of a template, without those of the partials it includes
+ *
+ * @param {string} template - The template text
+ * @returns {TemplateReference[]} The tags in order of appearance
+ */
+export const getTemplateReferences = (template: string): TemplateReference[] => {
+	const references: TemplateReference[] = [];
+	const pattern = new RegExp(TEMPLATE_TAG.source, 'g');
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(template)) !== null) {
+		const [tag, partial, name] = match;
+		if (partial) references.push({ kind: 'partial', name, tag });
+		else if (name === ALL_INPUTS) references.push({ kind: 'inputs', name, tag });
+		else if (name.startsWith(INPUT_PREFIX)) references.push({ kind: 'input', name: name.slice(INPUT_PREFIX.length).trim(), tag });
+		else references.push({ kind: 'variable', name, tag });
+	}
+
+	return references;
+};
+
+/**
+ * Finds the input a `{{input.<title>}}` tag refers to, ignoring case.
+ * Anything after the title, like `.tasks[0].title`, reads a field of the input's JSON result.
+ *
+ * @returns The input and the text to place, or undefined if the input or field does not exist
+ */
+const resolveInput = (inputs: TemplateInput[], reference: string): { input: TemplateInput; text: string } | undefined => {
+	const wanted = reference.toLowerCase();
+	const exact = inputs.find(input => input.title.toLowerCase() === wanted);
+	if (exact) return { input: exact, text: exact.content };
+
+	// Prefer the longest title, so "Tasks.Done.count" reads "count" of an input titled "Tasks.Done"
+	const candidates = inputs
+		.filter(input => input.title && /^[.[]/.test(wanted.slice(input.title.length)) && wanted.startsWith(input.title.toLowerCase()))
+		.sort((a, b) => b.title.length - a.title.length);
+
+	for (const input of candidates) {
+		let data: unknown;
+		try {
+			data = parseJsonReply(input.content);
+		} catch {
+			continue;
+		}
+
+		const field = getJsonField(data, reference.slice(input.title.length));
+		if (field !== undefined) {
+			return { input, text: typeof field === 'string' ? field : JSON.stringify(field, null, 2) };
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Replaces the partial tags of a template with the partials, recursively
+ */
+const expandPartials = (template: string, partials: Record<string, string>, missing: Set<string>, depth = 0): string => {
+	return template.replace(TEMPLATE_TAG, (tag, partial: string, name: string) => {
+		if (!partial) return tag;
+
+		if (!Object.prototype.hasOwnProperty.call(partials, name)) {
+			missing.add(tag);
+			return tag;
+		}
+		if (depth >= MAX_PARTIAL_DEPTH) {
+			throw new Error(`Prompt partial "${name}" is nested too deeply; check that it does not include itself`);
+		}
+
+		return expandPartials(partials[name].trim(), partials, missing, depth + 1);
+	});
+};
+
+/**
+ * Renders a template, checking every tag before anything is replaced
+ *
+ * @param {string} template - The template text
+ * @param {TemplateContext} context - Inputs, variables and partials
+ * @returns {RenderedTemplate} The rendered text and the inputs it did not place
+ * @throws {Error} Listing every tag without a value, or if partials include each other endlessly
+ * @example
+ * renderTemplate('Compare {{input.Plan}} with {{date}}', context);
+ */
+export const renderTemplate = (template: string, context: TemplateContext): RenderedTemplate => {
+	const missing = new Set<string>();
+	const expanded = expandPartials(template, context.partials, missing);
+	const used = new Set<TemplateInput>();
+
+	for (const reference of getTemplateReferences(expanded)) {
+		if (reference.kind === 'input') {
+			const resolved = resolveInput(context.inputs, reference.name);
+			if (resolved) used.add(resolved.input);
+			else missing.add(reference.tag);
+		} else if (reference.kind === 'inputs') {
+			context.inputs.forEach(input => used.add(input));
+		} else if (reference.kind === 'variable' && !Object.prototype.hasOwnProperty.call(context.variables, reference.name)) {
+			missing.add(reference.tag);
+		}
+	}
+
+	if (missing.size > 0) {
+		const titles = context.inputs.map(input => input.title).filter(title => title);
+		const hint = titles.length > 0 ? ` Inputs: ${titles.join(', ')}.` : '';
+		throw new Error(`Unknown template values: ${Array.from(missing).join(', ')}.${hint}`);
+	}
+
+	const text = expanded.replace(TEMPLATE_TAG, (_tag, _partial: string, name: string) => {
+		if (name === ALL_INPUTS) return context.inputs.map(input => input.content).join('\n\n---\n\n');
+		if (name.startsWith(INPUT_PREFIX)) return resolveInput(context.inputs, name.slice(INPUT_PREFIX.length).trim())!.text;
+		return context.variables[name];
+	});
+
+	return { text, unusedInputs: context.inputs.filter(input => !used.has(input)) };
+};
+
+/**
+ * Lists the partials a template includes directly
+ *
+ * @param {string} template - The template text
+ * @returns {string[]} Names of the partials, without duplicates
+ */
+export const getPartialNames = (template: string): string[] => {
+	const names = getTemplateReferences(template)
+		.filter(reference => reference.kind === 'partial')
+		.map(reference => reference.name);
+	return Array.from(new Set(names));
+};
+
+/**
+ * Reads the variables of a text node headed `# Variables`,
+ * written as one `name: value` line each, optionally as list items
+ *
+ * @param {string} text - Markdown content of the node
+ * @returns {Record<string, string> | null} The variables, or null if the node is not a variables node
+ * @example
+ * parseVariablesNode('# Variables\n- topic: gardening'); // { topic: 'gardening' }
+ */
+export const parseVariablesNode = (text: string): Record<string, string> | null => {
+	const lines = text.split('\n');
+	const headingIndex = lines.findIndex(line => line.trim());
+	const heading = lines[headingIndex]?.match(/^#+\s*(.*)$/)?.[1];
+	if (heading === undefined || stripLeadingEmoji(heading).toLowerCase() !== VARIABLES_HEADING) return null;
+
+	const variables: Record<string, string> = {};
+	for (const line of lines.slice(headingIndex + 1)) {
+		const match = line.match(/^\s*(?:[-*+]\s+)?([A-Za-z_][\w.-]*)\s*:\s*(.*)$/);
+		if (match) variables[match[1]] = match[2].trim();
+	}
+	return variables;
+};
+
+/**
+ * Gets the title a template refers to an input by:
+ * the processor's title, a text node's first heading, or a file node's file name
+ *
+ * @param {JSONCanvasNode} node - The input node
+ * @returns {string} The title, or an empty string if the node has none
+ */
+export const getInputTitle = (node: JSONCanvasNode): string => {
+	if (node.type === 'file') {
+		const name = (node as JSONCanvasFileNode).file.split('/').pop() ?? '';
+		return name.replace(/\.[^.]+$/, '');
+	}
+	if (node.type !== 'text') return '';
+	if (isProcessorNode(node)) return getProcessorTitle(node);
+
+	const heading = (node as JSONCanvasTextNode).text.split('\n').find(line => /^#+\s/.test(line));
+	return heading ? stripLeadingEmoji(heading.replace(/^#+\s*/, '')) : '';
+};
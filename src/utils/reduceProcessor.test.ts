@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { chunkTexts, estimateTokens, formatIntermediateResults, splitToFit } from './reduceProcessor';
+
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ');
+
+describe('reduceProcessor', () => {
+	describe('estimateTokens', () => {
+		it('should count about four characters per token', () => {
+			expect(estimateTokens('')).toBe(0);
+			expect(estimateTokens('abcdefgh')).toBe(2);
+			expect(estimateTokens('abcdefghi')).toBe(3);
+		});
+	});
+
+	describe('splitToFit', () => {
+		it('should keep text that fits', () => {
+			expect(splitToFit('short', 10)).toEqual(['short']);
+		});
+
+		it('should split at paragraphs before lines and words', () => {
+			const paragraphs = [words(10, 'aaa'), words(10, 'bbb'), words(10, 'ccc')];
+			const pieces = splitToFit(paragraphs.join('\n\n'), 15);
+
+			expect(pieces).toEqual(paragraphs);
+		});
+
+		it('should split a single long line between words', () => {
+			const pieces = splitToFit(words(100), 20);
+
+			expect(pieces.every(piece => estimateTokens(piece) <= 20)).toBe(true);
+			expect(pieces.join(' ')).toBe(words(100));
+		});
+
+		it('should cut text without separators', () => {
+			expect(splitToFit('x'.repeat(100), 10)).toEqual(['x'.repeat(40), 'x'.repeat(40), 'x'.repeat(20)]);
+		});
+	});
+
+	describe('chunkTexts', () => {
+		it('should pack small texts together', () => {
+			expect(chunkTexts(['one', 'two', 'three'], 100)).toEqual([['one', 'two', 'three']]);
+		});
+
+		it('should keep every chunk within the budget', () => {
+			const texts = [words(30), words(5), words(80), words(2)];
+			const chunks = chunkTexts(texts, 50);
+
+			expect(chunks.length).toBeGreaterThan(1);
+			for (const chunk of chunks) {
+				expect(estimateTokens(chunk.join('\n\n---\n\n'))).toBeLessThanOrEqual(50);
+			}
+		});
+	});
+
+	describe('formatIntermediateResults', () => {
+		it('should fold each level into a callout', () => {
+			expect(formatIntermediateResults([['First\n\nSecond line'], ['Merged']])).toBe(
+				'> [!note]- Level 1: 1 partial summary\n> ### Part 1\n>\n> First\n>\n> Second line\n\n' +
+				'> [!note]- Level 2: 1 partial summary\n> ### Part 1\n>\n> Merged'
+			);
+		});
+
+		it('should return nothing when no chunks were needed', () => {
+			expect(formatIntermediateResults([])).toBe('');
+		});
+	});
+});
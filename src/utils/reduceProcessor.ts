@@ -0,0 +1,124 @@
+/**
+ * Helpers for reduce processors, which split inputs too large for one request
+ * into chunks and combine their summaries level by level
+ */
+
+/**
+ * Rough number of characters per token, close enough for English and code with common tokenizers
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Separators tried in order when text has to be split, from paragraphs down to words
+ */
+const SEPARATORS = ['\n\n', '\n', ' '];
+
+/**
+ * Separator between the inputs of a request, as joined by the processing service
+ */
+const INPUT_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Estimates the number of tokens of a text without a tokenizer
+ *
+ * @param {string} text - The text
+ * @returns {number} The estimated token count
+ */
+export const estimateTokens = (text: string): number => {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Joins consecutive parts as long as the joined text stays within the budget
+ */
+const packParts = (parts: string[], budget: number, separator: string): string[] => {
+	const packed: string[] = [];
+
+	for (const part of parts) {
+		const last = packed[packed.length - 1];
+		if (last !== undefined && estimateTokens(`${last}${separator}${part}`) <= budget) {
+			packed[packed.length - 1] = `${last}${separator}${part}`;
+		} else {
+			packed.push(part);
+		}
+	}
+
+	return packed;
+};
+
+/**
+ * Splits text at the separator, splitting parts that are still too large at the next separator
+ */
+const splitAt = (text: string, budget: number, separatorIndex: number): string[] => {
+	if (estimateTokens(text) <= budget) return [text];
+
+	if (separatorIndex >= SEPARATORS.length) {
+		const size = budget * CHARS_PER_TOKEN;
+		return Array.from({ length: Math.ceil(text.length / size) }, (_, index) => text.slice(index * size, (index + 1) * size));
+	}
+
+	const separator = SEPARATORS[separatorIndex];
+	const parts = text.split(separator).flatMap(part => splitAt(part, budget, separatorIndex + 1));
+	return packParts(parts, budget, separator);
+};
+
+/**
+ * Splits a text into pieces that each fit the token budget,
+ * at paragraph breaks where possible, then at line breaks, then between words
+ *
+ * @param {string} text - The text to split
+ * @param {number} budget - Highest estimated token count of a piece
+ * @returns {string[]} The pieces, in order
+ */
+export const splitToFit = (text: string, budget: number): string[] => {
+	return splitAt(text, budget, 0);
+};
+
+/**
+ * Groups texts into chunks that each fit the token budget once joined,
+ * splitting texts that are too large on their own
+ *
+ * @param {string[]} texts - The texts, in order
+ * @param {number} budget - Highest estimated token count of a chunk
+ * @returns {string[][]} The chunks, each a list of texts for one request
+ * @example
+ * chunkTexts(notes, 2000); // [[note1, note2], [part 1 of note3], [part 2 of note3]]
+ */
+export const chunkTexts = (texts: string[], budget: number): string[][] => {
+	const chunks: string[][] = [];
+	let size = 0;
+
+	for (const piece of texts.flatMap(text => splitToFit(text, budget))) {
+		const tokens = estimateTokens(piece);
+		const current = chunks[chunks.length - 1];
+
+		if (current && size + estimateTokens(INPUT_SEPARATOR) + tokens <= budget) {
+			current.push(piece);
+			size += estimateTokens(INPUT_SEPARATOR) + tokens;
+		} else {
+			chunks.push([piece]);
+			size = tokens;
+		}
+	}
+
+	return chunks;
+};
+
+/**
+ * Renders the intermediate summaries of a reduce run as folded callouts, one per level
+ *
+ * @param {string[][]} levels - The summaries of each level, from the first level up
+ * @returns {string} The callouts, or an empty string if the inputs fit into one request
+ */
+export const formatIntermediateResults = (levels: string[][]): string => {
+	return levels
+		.map((summaries, index) => {
+			const body = summaries
+				.map((summary, part) => `### Part ${part + 1}\n\n${summary.trim()}`)
+				.join('\n\n');
+			const quoted = body.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+			const count = `${summaries.length} partial ${summaries.length === 1 ? 'summary' : 'summaries'}`;
+			return `> [!note]- Level ${index + 1}: ${count}\n${quoted}`;
+		})
+		.join('\n\n');
+};
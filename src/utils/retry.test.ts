@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpError, ProviderResponseError } from '../providers/http';
+import { classifyLLMError, getRetryDelay, withRetry, RetryPolicy } from './retry';
+
+const policy: RetryPolicy = { maxRetries: 2, timeoutMs: 1000, baseDelayMs: 1, maxDelayMs: 5 };
+
+const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+describe('retry', () => {
+	describe('classifyLLMError', () => {
+		it('should treat busy servers and network failures as transient', () => {
+			expect(classifyLLMError(new HttpError('failed', 503, ''))).toBe('transient');
+			expect(classifyLLMError(new HttpError('failed', 429, ''))).toBe('transient');
+			expect(classifyLLMError(new TypeError('Failed to fetch'))).toBe('transient');
+		});
+
+		it('should treat unreadable responses as transient', () => {
+			expect(classifyLLMError(new ProviderResponseError('Ollama sent a stream line that is not JSON: <html>', 'Ollama', ''))).toBe('transient');
+		});
+
+		it('should detect context length errors from the response body', () => {
+			const error = new HttpError('failed', 400, '{"error":"This model\'s maximum context length is 4096 tokens"}');
+
+			expect(classifyLLMError(error)).toBe('context-length');
+		});
+
+		it('should treat client errors as fatal', () => {
+			expect(classifyLLMError(new HttpError('failed', 404, 'model not found'))).toBe('fatal');
+			expect(classifyLLMError(new Error('Invalid response'))).toBe('fatal');
+		});
+
+		it('should recognize cancelled requests', () => {
+			expect(classifyLLMError(abortError())).toBe('cancelled');
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		it('should double the delay and respect the cap', () => {
+			const backoff: RetryPolicy = { ...policy, baseDelayMs: 500, maxDelayMs: 3000 };
+
+			expect([0, 1, 2, 3].map(retry => getRetryDelay(retry, backoff))).toEqual([500, 1000, 2000, 3000]);
+		});
+	});
+
+	describe('withRetry', () => {
+		it('should retry transient failures until one succeeds', async () => {
+			const operation = vi.fn()
+				.mockRejectedValueOnce(new HttpError('failed', 503, ''))
+				.mockResolvedValueOnce('answer');
+			const onRetry = vi.fn();
+
+			await expect(withRetry(operation, policy, { onRetry })).resolves.toBe('answer');
+			expect(operation).toHaveBeenCalledTimes(2);
+			expect(onRetry).toHaveBeenCalledWith(expect.any(HttpError), 1, 1);
+		});
+
+		it('should give up after the configured number of retries', async () => {
+			const operation = vi.fn().mockRejectedValue(new HttpError('failed', 502, ''));
+
+			await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(HttpError);
+			expect(operation).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not retry context length errors', async () => {
+			const operation = vi.fn().mockRejectedValue(new HttpError('failed', 400, 'prompt is too long'));
+
+			await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(HttpError);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stop retrying when canRetry returns false', async () => {
+			const operation = vi.fn().mockRejectedValue(new HttpError('failed', 500, ''));
+
+			await expect(withRetry(operation, policy, { canRetry: () => false })).rejects.toBeInstanceOf(HttpError);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it('should abort an attempt that exceeds the timeout', async () => {
+			const operation = vi.fn(({ signal }: { signal: AbortSignal }) => new Promise<string>((_, reject) => {
+				signal.addEventListener('abort', () => reject(abortError()));
+			}));
+
+			await expect(withRetry(operation, { ...policy, maxRetries: 0, timeoutMs: 10 }))
+				.rejects.toMatchObject({ name: 'TimeoutError' });
+		});
+
+		it('should not retry when the caller cancels', async () => {
+			const controller = new AbortController();
+			const operation = vi.fn(({ signal }: { signal: AbortSignal }) => new Promise<string>((_, reject) => {
+				signal.addEventListener('abort', () => reject(abortError()));
+				controller.abort();
+			}));
+
+			await expect(withRetry(operation, policy, { signal: controller.signal }))
+				.rejects.toMatchObject({ name: 'AbortError' });
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+	});
+});
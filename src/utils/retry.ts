@@ -0,0 +1,213 @@
+import { HttpError, ProviderResponseError, isAbortError } from '../providers/http';
+
+/**
+ * How a failed LLM request should be handled
+ * - transient: the server was busy, still loading a model, did not answer in time or sent an unreadable response; worth retrying
+ * - context-length: the prompt does not fit in the model's context window; retrying cannot help
+ * - cancelled: the user cancelled the request
+ * - fatal: any other error, such as a wrong URL or model name
+ */
+export type LLMErrorKind = 'transient' | 'context-length' | 'cancelled' | 'fatal';
+
+/**
+ * Timeout and retry settings for LLM requests
+ */
+export interface RetryPolicy {
+	/** How many times a transient failure is retried */
+	maxRetries: number;
+	/** How long to wait for the server to respond, or to send the next token, in milliseconds */
+	timeoutMs: number;
+	/** Delay before the first retry; doubled for every further retry */
+	baseDelayMs: number;
+	/** Upper bound for the delay between retries */
+	maxDelayMs: number;
+}
+
+/**
+ * A single attempt of a request made through `withRetry`
+ */
+export interface RetryAttempt {
+	/** Zero-based number of the attempt */
+	attempt: number;
+	/** Aborted when the attempt times out or the caller cancels */
+	signal: AbortSignal;
+	/** Restarts the timeout, e.g. whenever a streamed token arrives */
+	keepAlive: () => void;
+}
+
+/**
+ * Options for `withRetry`
+ */
+export interface RetryOptions {
+	/** Cancels the request and any pending retry */
+	signal?: AbortSignal;
+	/** Return false to stop retrying, e.g. once part of a streamed response was shown */
+	canRetry?: () => boolean;
+	/** Called before waiting for a retry */
+	onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Status codes of responses that are worth retrying
+ */
+export const RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Messages servers use when the prompt exceeds the model's context window
+ */
+const CONTEXT_LENGTH_PATTERN = /context[ _-]?(length|window|size)|maximum context|too many tokens|n_ctx|prompt is too long/i;
+
+/**
+ * Name of the error thrown when an attempt times out
+ */
+const TIMEOUT_ERROR = 'TimeoutError';
+
+/**
+ * Classifies an error thrown by an LLM request
+ *
+ * @param {unknown} error - The caught error
+ * @returns {LLMErrorKind} How the error should be handled
+ */
+export const classifyLLMError = (error: unknown): LLMErrorKind => {
+	if (isAbortError(error)) return 'cancelled';
+
+	const message = error instanceof Error ? error.message : String(error);
+	const body = error instanceof HttpError ? error.body : '';
+	if (CONTEXT_LENGTH_PATTERN.test(`${message} ${body}`)) return 'context-length';
+
+	if (error instanceof HttpError) {
+		return RETRYABLE_STATUS_CODES.includes(error.status) ? 'transient' : 'fatal';
+	}
+
+	// Truncated streams and proxy error pages usually pass
+	if (error instanceof ProviderResponseError) return 'transient';
+
+	// fetch rejects with a TypeError when the server cannot be reached at all
+	if (error instanceof TypeError || (error as { name?: string } | null)?.name === TIMEOUT_ERROR) {
+		return 'transient';
+	}
+
+	return 'fatal';
+};
+
+/**
+ * Computes the exponential backoff delay before a retry
+ *
+ * @param {number} retry - Zero-based number of the retry
+ * @param {RetryPolicy} policy - The retry policy
+ * @returns {number} Delay in milliseconds
+ */
+export const getRetryDelay = (retry: number, policy: RetryPolicy): number => {
+	return Math.min(policy.baseDelayMs * Math.pow(2, retry), policy.maxDelayMs);
+};
+
+/**
+ * Creates the error thrown for an aborted request, matching the one fetch throws
+ */
+const createAbortError = (): Error => {
+	const error = new Error('The request was cancelled');
+	error.name = 'AbortError';
+	return error;
+};
+
+/**
+ * Waits before a retry, stopping early if the signal is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(createAbortError());
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(createAbortError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+};
+
+/**
+ * Runs one attempt with a timeout that aborts it when the server stays silent too long
+ */
+const runAttempt = async <T>(
+	operation: (attempt: RetryAttempt) => Promise<T>,
+	attempt: number,
+	timeoutMs: number,
+	signal?: AbortSignal
+): Promise<T> => {
+	const controller = new AbortController();
+	let timedOut = false;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const keepAlive = () => {
+		clearTimeout(timer);
+		timer = setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, timeoutMs);
+	};
+
+	const onAbort = () => controller.abort();
+	signal?.addEventListener('abort', onAbort, { once: true });
+	keepAlive();
+
+	try {
+		return await operation({ attempt, signal: controller.signal, keepAlive });
+	} catch (error) {
+		if (timedOut && !signal?.aborted) {
+			const timeout = new Error(`The server did not respond within ${Math.round(timeoutMs / 1000)} seconds`);
+			timeout.name = TIMEOUT_ERROR;
+			throw timeout;
+		}
+		throw error;
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener('abort', onAbort);
+	}
+};
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff.
+ * Every attempt gets its own timeout; cancelled, context-length and other
+ * errors are thrown straight away.
+ *
+ * @param {(attempt: RetryAttempt) => Promise<T>} operation - Makes the request using the attempt's signal
+ * @param {RetryPolicy} policy - Timeout and retry settings
+ * @param {RetryOptions} [options] - Cancellation signal and retry hooks
+ * @returns {Promise<T>} The result of the first successful attempt
+ * @throws The error of the last attempt
+ * @example
+ * const content = await withRetry(
+ *   ({ signal }) => provider.chat(messages, { ...options, signal }),
+ *   policy
+ * );
+ */
+export const withRetry = async <T>(
+	operation: (attempt: RetryAttempt) => Promise<T>,
+	policy: RetryPolicy,
+	options: RetryOptions = {}
+): Promise<T> => {
+	const { signal, canRetry, onRetry } = options;
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await runAttempt(operation, attempt, policy.timeoutMs, signal);
+		} catch (error) {
+			const retryable = classifyLLMError(error) === 'transient'
+				&& attempt < policy.maxRetries
+				&& (canRetry?.() ?? true);
+			if (!retryable) throw error;
+
+			const delayMs = getRetryDelay(attempt, policy);
+			onRetry?.(error, attempt + 1, delayMs);
+			await sleep(delayMs, signal);
+		}
+	}
+};
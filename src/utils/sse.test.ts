@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseSSEEvents, extractDeltaContent } from './sse';
+
+describe('sse', () => {
+	describe('parseSSEEvents', () => {
+		it('should split complete events and keep the remainder', () => {
+			const result = parseSSEEvents('data: {"a":1}\n\ndata: {"b":2}\n\ndata: {"c"');
+
+			expect(result.events).toEqual(['{"a":1}', '{"b":2}']);
+			expect(result.rest).toBe('data: {"c"');
+		});
+
+		it('should handle CRLF line endings', () => {
+			const result = parseSSEEvents('data: one\r\n\r\ndata: two\r\n\r\n');
+
+			expect(result.events).toEqual(['one', 'two']);
+			expect(result.rest).toBe('');
+		});
+
+		it('should ignore comments and other fields', () => {
+			const result = parseSSEEvents(': keep-alive\n\nevent: message\ndata: payload\n\n');
+
+			expect(result.events).toEqual(['payload']);
+		});
+
+		it('should join multi-line data fields', () => {
+			const result = parseSSEEvents('data: first\ndata: second\n\n');
+
+			expect(result.events).toEqual(['first\nsecond']);
+		});
+	});
+
+	describe('extractDeltaContent', () => {
+		it('should return the delta content of a chunk', () => {
+			const data = JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] });
+
+			expect(extractDeltaContent(data)).toBe('Hello');
+		});
+
+		it('should return an empty string for role-only chunks', () => {
+			const data = JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] });
+
+			expect(extractDeltaContent(data)).toBe('');
+		});
+
+		it('should return an empty string for invalid JSON', () => {
+			expect(extractDeltaContent('[DONE]')).toBe('');
+		});
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * Helpers for reading OpenAI-compatible server-sent event (SSE) streams
+ */
+
+/**
+ * Payload that marks the end of an OpenAI-compatible stream
+ */
+export const SSE_DONE = '[DONE]';
+
+/**
+ * Result of splitting a buffer into complete SSE events
+ */
+export interface SSEParseResult {
+	/** The `data:` payloads of every complete event in the buffer */
+	events: string[];
+	/** Trailing text that does not form a complete event yet */
+	rest: string;
+}
+
+/**
+ * Splits buffered stream text into complete SSE `data:` payloads.
+ * Events are separated by a blank line; anything after the last separator
+ * is returned as `rest` so it can be prepended to the next chunk.
+ *
+ * @param {string} buffer - Text received so far
+ * @returns {SSEParseResult} Complete event payloads and the unparsed remainder
+ * @example
+ * const { events, rest } = parseSSEEvents('data: {"a":1}\n\ndata: {"b"');
+ * // events: ['{"a":1}'], rest: 'data: {"b"'
+ */
+export const parseSSEEvents = (buffer: string): SSEParseResult => {
+	const normalized = buffer.replace(/\r\n?/g, '\n');
+	const blocks = normalized.split('\n\n');
+	const rest = blocks.pop() ?? '';
+
+	const events = blocks
+		.map(block => block
+			.split('\n')
+			.filter(line => line.startsWith('data:'))
+			.map(line => line.slice(5).replace(/^ /, ''))
+			.join('\n'))
+		.filter(data => data.length > 0);
+
+	return { events, rest };
+};
+
+/**
+ * Extracts the text token from a streamed chat completion chunk
+ *
+ * @param {string} data - JSON payload of one SSE event
+ * @returns {string} The content delta, or an empty string if the chunk carries none
+ */
+export const extractDeltaContent = (data: string): string => {
+	try {
+		const chunk = JSON.parse(data);
+		return chunk.choices?.[0]?.delta?.content ?? '';
+	} catch {
+		return '';
+	}
+};
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData, JSONCanvasTextNode, JSONCanvasEdge } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+import { findStaleOutputs, findStaleProcessors, getInputHash, getInputHashAfterRun } from './staleness';
+
+type Node = JSONCanvasTextNode & WorkflowNodeProperties;
+
+const textNode = (id: string, text: string): Node => ({
+	id,
+	type: 'text',
+	text,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100,
+});
+
+const processor = (id: string) => textNode(id, `# ${id}\n\n**AI Processing Node**\n\nDo something`);
+const edge = (fromNode: string, toNode: string): JSONCanvasEdge => ({
+	id: `${fromNode}-${toNode}`,
+	fromNode,
+	toNode,
+});
+
+const getNode = (data: JSONCanvasData, id: string) => data.nodes!.find(node => node.id === id) as Node;
+
+/**
+ * Records a run of the given processors, one minute apart, like AIProcessingService does
+ */
+const recordRuns = async (data: JSONCanvasData, ids: string[], start = Date.UTC(2024, 0, 15)) => {
+	for (const [index, id] of ids.entries()) {
+		const runAt = new Date(start + index * 60000).toISOString();
+		getNode(data, id).inputHash = await getInputHash(data, id);
+		getNode(data, id).lastRunAt = runAt;
+		for (const outputEdge of data.edges!.filter(e => e.fromNode === id)) {
+			const target = getNode(data, outputEdge.toNode);
+			if (!target.text.includes('AI Processing Node')) target.lastRunAt = runAt;
+		}
+	}
+};
+
+/**
+ * in → a → out-a, and a → b → out-b
+ */
+const createPipeline = (): JSONCanvasData => ({
+	nodes: [textNode('in', 'Input'), processor('a'), textNode('out-a', '# A'), processor('b'), textNode('out-b', '# B')],
+	edges: [edge('in', 'a'), edge('a', 'out-a'), edge('a', 'b'), edge('b', 'out-b')],
+});
+
+describe('staleness', () => {
+	describe('getInputHash', () => {
+		it('should ignore the text of processor inputs', async () => {
+			const data = createPipeline();
+			const hash = await getInputHash(data, 'b');
+
+			getNode(data, 'a').text += '\nChanged';
+
+			expect(await getInputHash(data, 'b')).toBe(hash);
+		});
+
+		it('should change when a linked note, its section or its version changes', async () => {
+			const note = { id: 'note', type: 'file' as const, file: 'Daily/2024-01-15.md', x: 0, y: 0, width: 100, height: 100 };
+			const data: JSONCanvasData = { nodes: [note, processor('a')], edges: [edge('note', 'a')] };
+			const versions = new Map([['Daily/2024-01-15.md', 1], ['Daily/2024-01-16.md', 1]]);
+			const getVersion = (path: string) => versions.get(path);
+			const hash = await getInputHash(data, 'a', getVersion);
+
+			versions.set('Daily/2024-01-15.md', 2);
+			const edited = await getInputHash(data, 'a', getVersion);
+			expect(edited).not.toBe(hash);
+
+			Object.assign(note, { subpath: '#Tasks' });
+			const section = await getInputHash(data, 'a', getVersion);
+			expect(section).not.toBe(edited);
+
+			Object.assign(note, { file: 'Daily/2024-01-16.md' });
+			expect(await getInputHash(data, 'a', getVersion)).not.toBe(section);
+		});
+	});
+
+	describe('getInputHashAfterRun', () => {
+		const note = (id: string, file: string) => ({ id, type: 'file' as const, file, x: 0, y: 0, width: 100, height: 100 });
+		// The journal is both input and output of a; the plan is only an input
+		const createLoggedRun = (): JSONCanvasData => ({
+			nodes: [note('journal', 'Journal.md'), note('plan', 'Plan.md'), processor('a')],
+			edges: [edge('journal', 'a'), edge('plan', 'a'), edge('a', 'journal')]
+		});
+
+		it('should keep a processor fresh after it writes a note it reads', async () => {
+			const data = createLoggedRun();
+			const before = new Map([['Journal.md', 1], ['Plan.md', 1]]);
+			const versions = new Map(before);
+			const getVersion = (path: string) => versions.get(path);
+
+			// The run appends its result to the journal
+			versions.set('Journal.md', 2);
+			Object.assign(getNode(data, 'a'), {
+				inputHash: await getInputHashAfterRun(data, 'a', path => before.get(path), getVersion),
+				lastRunAt: '2024-01-15T00:00:00.000Z'
+			});
+
+			expect(await findStaleProcessors(data, getVersion)).toEqual(new Set());
+		});
+
+		it('should still notice inputs edited while the processor ran', async () => {
+			const data = createLoggedRun();
+			const before = new Map([['Journal.md', 1], ['Plan.md', 1]]);
+			const versions = new Map([['Journal.md', 2], ['Plan.md', 2]]);
+			const getVersion = (path: string) => versions.get(path);
+
+			Object.assign(getNode(data, 'a'), {
+				inputHash: await getInputHashAfterRun(data, 'a', path => before.get(path), getVersion),
+				lastRunAt: '2024-01-15T00:00:00.000Z'
+			});
+
+			expect(await findStaleProcessors(data, getVersion)).toEqual(new Set(['a']));
+		});
+	});
+
+	describe('findStaleProcessors', () => {
+		it('should treat processors that never ran as stale', async () => {
+			expect(await findStaleProcessors(createPipeline())).toEqual(new Set(['a', 'b']));
+		});
+
+		it('should report nothing after a full run', async () => {
+			const data = createPipeline();
+			await recordRuns(data, ['a', 'b']);
+
+			expect(await findStaleProcessors(data)).toEqual(new Set());
+		});
+
+		it('should mark the downstream subgraph of a changed input as stale', async () => {
+			const data = createPipeline();
+			await recordRuns(data, ['a', 'b']);
+
+			getNode(data, 'in').text = 'Edited input';
+
+			expect(await findStaleProcessors(data)).toEqual(new Set(['a', 'b']));
+		});
+
+		it('should only mark the edited processor and its dependents', async () => {
+			const data = createPipeline();
+			await recordRuns(data, ['a', 'b']);
+
+			getNode(data, 'b').text += '\nBe brief';
+
+			expect(await findStaleProcessors(data)).toEqual(new Set(['b']));
+		});
+
+		it('should mark processors whose upstream ran after them', async () => {
+			const data = createPipeline();
+			await recordRuns(data, ['a', 'b']);
+			await recordRuns(data, ['a'], Date.UTC(2024, 0, 16));
+
+			expect(await findStaleProcessors(data)).toEqual(new Set(['b']));
+		});
+	});
+
+	describe('findStaleOutputs', () => {
+		it('should return the written outputs of stale processors', async () => {
+			const data = createPipeline();
+			await recordRuns(data, ['a', 'b']);
+
+			expect(findStaleOutputs(data, new Set(['b']))).toEqual(new Set(['out-b']));
+		});
+
+		it('should skip outputs that were never written', () => {
+			expect(findStaleOutputs(createPipeline(), new Set(['a', 'b']))).toEqual(new Set());
+		});
+	});
+});
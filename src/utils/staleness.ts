@@ -0,0 +1,144 @@
+/**
+ * Detection of processors whose results no longer match their inputs
+ */
+
+import type { JSONCanvasData, JSONCanvasFileNode, JSONCanvasNode, JSONCanvasTextNode } from '../types/jsoncanvas';
+import type { WorkflowNodeProperties } from '../types/workflow';
+import { buildWorkflowGraph, getWorkflowEdges, sortProcessors } from './workflowGraph';
+import { isProcessorNode } from './nodeRole';
+import { sha256 } from './cacheKey';
+
+type WorkflowNode = JSONCanvasNode & WorkflowNodeProperties;
+
+/**
+ * Gets a value that changes whenever a note changes, such as its modification time,
+ * or undefined if the note does not exist
+ */
+export type NoteVersionReader = (path: string) => number | undefined;
+
+/**
+ * Hashes what a processor depends on directly: its own markdown and every input
+ * node that is not itself a processor, in edge order. Text nodes contribute their text,
+ * file nodes the note and section they point at and the note's version.
+ * The hash is stored on the processor when it runs, so later edits can be detected.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} processorId - ID of the processor node
+ * @param {NoteVersionReader} [getNoteVersion] - Reads the version of a linked note; without it only the link counts
+ * @returns {Promise<string>} The input hash
+ */
+export const getInputHash = async (
+	data: JSONCanvasData,
+	processorId: string,
+	getNoteVersion: NoteVersionReader = () => undefined
+): Promise<string> => {
+	const nodes = data.nodes || [];
+	const getText = (node: JSONCanvasNode | undefined) => node?.type === 'text' ? (node as JSONCanvasTextNode).text : '';
+	const getInput = (node: JSONCanvasNode) => {
+		if (node.type !== 'file') return getText(node);
+
+		const { file, subpath } = node as JSONCanvasFileNode;
+		return { file, subpath: subpath ?? '', version: getNoteVersion(file) ?? null };
+	};
+
+	const inputTexts = getWorkflowEdges(data)
+		.filter(edge => edge.toNode === processorId)
+		.map(edge => nodes.find(node => node.id === edge.fromNode))
+		.filter((node): node is JSONCanvasNode => node !== undefined && !isProcessorNode(node))
+		.map(getInput);
+
+	return sha256(JSON.stringify([getText(nodes.find(node => node.id === processorId)), inputTexts]));
+};
+
+/**
+ * Hashes a processor's inputs once its run wrote its results. Notes the processor writes into
+ * count at their new version and every other note at the version it had when the run started,
+ * so a note that is both input and output does not make the processor stale at once,
+ * while notes edited by someone else during the run still do.
+ *
+ * @param {JSONCanvasData} data - The canvas data the run started from
+ * @param {string} processorId - ID of the processor node
+ * @param {NoteVersionReader} getVersionBefore - Reads the version a note had when the run started
+ * @param {NoteVersionReader} getNoteVersion - Reads the current version of a note
+ * @returns {Promise<string>} The input hash to record for the run
+ */
+export const getInputHashAfterRun = (
+	data: JSONCanvasData,
+	processorId: string,
+	getVersionBefore: NoteVersionReader,
+	getNoteVersion: NoteVersionReader
+): Promise<string> => {
+	const nodes = new Map((data.nodes || []).map(node => [node.id, node] as [string, JSONCanvasNode]));
+	const written = new Set(getWorkflowEdges(data)
+		.filter(edge => edge.fromNode === processorId)
+		.map(edge => nodes.get(edge.toNode))
+		.filter((node): node is JSONCanvasFileNode => node?.type === 'file')
+		.map(node => node.file));
+
+	return getInputHash(data, processorId, path => written.has(path) ? getNoteVersion(path) : getVersionBefore(path));
+};
+
+/**
+ * Finds the processors whose last result no longer matches their inputs.
+ * A processor is stale when it never ran, when its own text, one of its
+ * input nodes or a note they link to changed since it ran, or when a processor it depends on is
+ * stale or ran after it. Staleness therefore spreads to the whole downstream subgraph.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {NoteVersionReader} [getNoteVersion] - Reads the version of a linked note, as passed to `getInputHash`
+ * @returns {Promise<Set<string>>} IDs of the stale processors; empty if the processors form a cycle
+ */
+export const findStaleProcessors = async (
+	data: JSONCanvasData,
+	getNoteVersion?: NoteVersionReader
+): Promise<Set<string>> => {
+	const graph = buildWorkflowGraph(data);
+	const stale = new Set<string>();
+
+	let order: string[];
+	try {
+		order = sortProcessors(graph);
+	} catch {
+		return stale;
+	}
+
+	const nodes = new Map((data.nodes || []).map(node => [node.id, node as WorkflowNode] as [string, WorkflowNode]));
+
+	for (const processorId of order) {
+		const node = nodes.get(processorId);
+		const lastRunAt = node?.lastRunAt;
+		const dependencies = Array.from(graph.dependencies.get(processorId) || []);
+
+		const changed = !node?.inputHash || !lastRunAt
+			|| dependencies.some(id => stale.has(id) || (nodes.get(id)?.lastRunAt ?? '') > lastRunAt)
+			|| await getInputHash(data, processorId, getNoteVersion) !== node.inputHash;
+
+		if (changed) {
+			stale.add(processorId);
+		}
+	}
+
+	return stale;
+};
+
+/**
+ * Finds the output nodes that were written by a stale processor
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {Set<string>} staleProcessors - Result of `findStaleProcessors`
+ * @returns {Set<string>} IDs of the output nodes whose content is out of date
+ */
+export const findStaleOutputs = (data: JSONCanvasData, staleProcessors: Set<string>): Set<string> => {
+	const nodes = new Map((data.nodes || []).map(node => [node.id, node as WorkflowNode] as [string, WorkflowNode]));
+	const outputs = new Set<string>();
+
+	for (const edge of getWorkflowEdges(data)) {
+		const target = nodes.get(edge.toNode);
+		// Outputs that were never written have nothing out of date
+		if (staleProcessors.has(edge.fromNode) && target?.lastRunAt && !isProcessorNode(target)) {
+			outputs.add(target.id);
+		}
+	}
+
+	return outputs;
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { formatStructuredOutput, getJsonField, parseJsonReply } from './structuredOutput';
+
+describe('structuredOutput', () => {
+	describe('parseJsonReply', () => {
+		it('should parse plain and fenced replies', () => {
+			expect(parseJsonReply(' {"a": 1} ')).toEqual({ a: 1 });
+			expect(parseJsonReply('```json\n["x"]\n```')).toEqual(['x']);
+		});
+
+		it('should reject replies that are not JSON', () => {
+			expect(() => parseJsonReply('Here are your tasks')).toThrow('Reply is not valid JSON');
+		});
+	});
+
+	describe('getJsonField', () => {
+		const value = { tasks: [{ title: 'Call Ana' }], count: 0 };
+
+		it('should read nested fields and array items', () => {
+			expect(getJsonField(value, 'tasks[0].title')).toBe('Call Ana');
+			expect(getJsonField(value, 'tasks.0.title')).toBe('Call Ana');
+			expect(getJsonField(value, 'count')).toBe(0);
+		});
+
+		it('should return undefined for missing fields', () => {
+			expect(getJsonField(value, 'tasks[1].title')).toBeUndefined();
+			expect(getJsonField(value, 'count.value')).toBeUndefined();
+			expect(getJsonField(value, 'toString')).toBeUndefined();
+		});
+	});
+
+	describe('formatStructuredOutput', () => {
+		it('should render arrays of objects as tables', () => {
+			expect(formatStructuredOutput([{ title: 'A | B', tags: ['x', 'y'] }, { title: 'C', due: 'today' }])).toBe(
+				'| title | tags | due |\n| --- | --- | --- |\n| A \\| B | x, y |  |\n| C |  | today |'
+			);
+		});
+
+		it('should render other arrays as lists', () => {
+			expect(formatStructuredOutput(['work', 'health'])).toBe('- work\n- health');
+			expect(formatStructuredOutput([])).toBe('_No items_');
+		});
+
+		it('should list object fields and render nested values below their name', () => {
+			expect(formatStructuredOutput({ mood: 'calm', score: 7, tags: ['rest'], energy: null })).toBe(
+				'- **mood:** calm\n- **score:** 7\n\n**tags**\n\n- rest\n\n- **energy:** '
+			);
+		});
+	});
+});
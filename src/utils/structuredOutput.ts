@@ -0,0 +1,109 @@
+/**
+ * Helpers for the JSON results of processors that declare a schema:
+ * parsing replies, reading fields and rendering results as markdown
+ */
+
+/**
+ * Parses a model reply as JSON, accepting replies wrapped in a code fence
+ *
+ * @param {string} reply - The model's reply
+ * @returns {unknown} The parsed value
+ * @throws {Error} If the reply is not valid JSON
+ */
+export const parseJsonReply = (reply: string): unknown => {
+	const text = reply.trim();
+	const fenced = text.match(/^```[\w-]*\s*\n([\s\S]*?)\n?```$/);
+
+	try {
+		return JSON.parse(fenced ? fenced[1] : text);
+	} catch (error) {
+		throw new Error(`Reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+};
+
+/**
+ * Reads a field of a JSON value by path
+ *
+ * @param {unknown} value - The JSON value
+ * @param {string} path - Dot-separated property names and array indexes, e.g. `tasks[0].title` or `tasks.0.title`
+ * @returns {unknown} The field, or undefined if the path does not exist
+ */
+export const getJsonField = (value: unknown, path: string): unknown => {
+	const keys = path.split(/[.[\]]/).filter(key => key);
+
+	return keys.reduce<unknown>((current, key) => {
+		if (current === null || typeof current !== 'object') return undefined;
+		return Object.prototype.hasOwnProperty.call(current, key)
+			? (current as Record<string, unknown>)[key]
+			: undefined;
+	}, value);
+};
+
+/**
+ * Checks whether a value is a plain JSON object
+ */
+const isObject = (value: unknown): value is Record<string, unknown> => {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+/**
+ * Renders a value for a table cell or list item on a single line
+ */
+const formatInline = (value: unknown): string => {
+	if (value === null || value === undefined) return '';
+	if (Array.isArray(value) && value.every(item => !isObject(item) && !Array.isArray(item))) {
+		return value.map(item => formatInline(item)).join(', ');
+	}
+	const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+};
+
+/**
+ * Renders an array of objects as a markdown table with a column per property
+ */
+const formatTable = (rows: Record<string, unknown>[]): string => {
+	const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+	return [
+		`| ${columns.join(' | ')} |`,
+		`| ${columns.map(() => '---').join(' | ')} |`,
+		...rows.map(row => `| ${columns.map(column => formatInline(row[column])).join(' | ')} |`)
+	].join('\n');
+};
+
+/**
+ * Renders a structured result as markdown for output nodes and notes:
+ * arrays of objects become tables, other arrays become lists,
+ * and objects list their fields, rendering nested arrays and objects below their name
+ *
+ * @param {unknown} value - The parsed result
+ * @returns {string} The markdown
+ * @example
+ * formatStructuredOutput({ tasks: [{ title: 'Call Ana', due: 'today' }] });
+ * // '**tasks**\n\n| title | due |\n| --- | --- |\n| Call Ana | today |'
+ */
+export const formatStructuredOutput = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		if (value.length === 0) return '_No items_';
+		if (value.every(isObject)) return formatTable(value);
+		return value.map(item => `- ${formatInline(item)}`).join('\n');
+	}
+
+	if (!isObject(value)) return formatInline(value);
+
+	const blocks: string[] = [];
+	let fields: string[] = [];
+
+	for (const [name, field] of Object.entries(value)) {
+		if (Array.isArray(field) || isObject(field)) {
+			if (fields.length > 0) blocks.push(fields.join('\n'));
+			fields = [];
+			blocks.push(`**${name}**\n\n${formatStructuredOutput(field)}`);
+		} else {
+			fields.push(`- **${name}:** ${formatInline(field)}`);
+		}
+	}
+	if (fields.length > 0) blocks.push(fields.join('\n'));
+
+	return blocks.join('\n\n');
+};
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData, JSONCanvasTextNode, JSONCanvasFileNode, JSONCanvasGroupNode, JSONCanvasEdge } from '../types/jsoncanvas';
+import {
+	buildWorkflowGraph,
+	findProcessorsReadingFiles,
+	getWorkflowEdges,
+	isOnSkippedBranch,
+	selectGroupProcessors,
+	selectProcessors,
+	sortProcessors
+} from './workflowGraph';
+
+const textNode = (id: string, text: string): JSONCanvasTextNode => ({
+	id,
+	type: 'text',
+	text,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100,
+});
+
+const fileNode = (id: string, file: string): JSONCanvasFileNode => ({
+	id,
+	type: 'file',
+	file,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100,
+});
+
+const processor = (id: string) => textNode(id, `# ${id}\n\n**AI Processing Node**\n\nDo something`);
+const output = (id: string) => textNode(id, `# ${id}\n\n*Waiting for AI processing...*`);
+const edge = (fromNode: string, toNode: string): JSONCanvasEdge => ({
+	id: `${fromNode}-${toNode}`,
+	fromNode,
+	toNode,
+});
+
+describe('workflowGraph', () => {
+	describe('buildWorkflowGraph', () => {
+		it('should include processors created from the context menu', () => {
+			const data: JSONCanvasData = {
+				nodes: [textNode('in', 'Input'), textNode('menu', '# ⚙️ AI Processor\n\n> **New**\n\n**Instructions:**\nDo it')],
+				edges: [edge('in', 'menu')],
+			};
+
+			expect(buildWorkflowGraph(data).processorIds).toEqual(['menu']);
+		});
+
+		it('should link processors through an intermediate output node', () => {
+			const data: JSONCanvasData = {
+				nodes: [textNode('in', 'Input'), processor('a'), output('out-a'), processor('b'), output('out-b')],
+				edges: [edge('in', 'a'), edge('a', 'out-a'), edge('out-a', 'b'), edge('b', 'out-b')],
+			};
+
+			const graph = buildWorkflowGraph(data);
+
+			expect(graph.processorIds).toEqual(['a', 'b']);
+			expect(Array.from(graph.dependencies.get('a')!)).toEqual([]);
+			expect(Array.from(graph.dependencies.get('b')!)).toEqual(['a']);
+		});
+
+		it('should link directly connected processors', () => {
+			const data: JSONCanvasData = {
+				nodes: [processor('a'), processor('b')],
+				edges: [edge('a', 'b')],
+			};
+
+			const graph = buildWorkflowGraph(data);
+
+			expect(Array.from(graph.dependencies.get('b')!)).toEqual(['a']);
+		});
+
+		it('should handle canvases without nodes or edges', () => {
+			const graph = buildWorkflowGraph({});
+
+			expect(graph.processorIds).toEqual([]);
+		});
+	});
+
+	describe('sortProcessors', () => {
+		it('should run upstream processors first even when they appear later in the file', () => {
+			const data: JSONCanvasData = {
+				nodes: [processor('b'), output('out-a'), processor('a'), textNode('in', 'Input')],
+				edges: [edge('in', 'a'), edge('a', 'out-a'), edge('out-a', 'b')],
+			};
+
+			expect(sortProcessors(buildWorkflowGraph(data))).toEqual(['a', 'b']);
+		});
+
+		it('should keep file order for independent processors', () => {
+			const data: JSONCanvasData = {
+				nodes: [textNode('in', 'Input'), processor('x'), processor('y'), processor('z')],
+				edges: [edge('in', 'x'), edge('in', 'y'), edge('in', 'z')],
+			};
+
+			expect(sortProcessors(buildWorkflowGraph(data))).toEqual(['x', 'y', 'z']);
+		});
+
+		it('should order a diamond-shaped pipeline', () => {
+			const data: JSONCanvasData = {
+				nodes: [processor('merge'), processor('left'), processor('right'), processor('start')],
+				edges: [edge('start', 'left'), edge('start', 'right'), edge('left', 'merge'), edge('right', 'merge')],
+			};
+
+			const order = sortProcessors(buildWorkflowGraph(data));
+
+			expect(order[0]).toBe('start');
+			expect(order[3]).toBe('merge');
+		});
+
+		it('should throw a descriptive error for cycles', () => {
+			const data: JSONCanvasData = {
+				nodes: [processor('a'), output('out-a'), processor('b'), output('out-b')],
+				edges: [edge('a', 'out-a'), edge('out-a', 'b'), edge('b', 'out-b'), edge('out-b', 'a')],
+			};
+
+			expect(() => sortProcessors(buildWorkflowGraph(data))).toThrow(
+				'Workflow contains a cycle between processors: b → a → b'
+			);
+		});
+	});
+
+	describe('selectProcessors', () => {
+		// a → b → c, and d independent of all of them
+		const graph = buildWorkflowGraph({
+			nodes: [processor('a'), processor('b'), processor('c'), processor('d')],
+			edges: [edge('a', 'b'), edge('b', 'c')],
+		});
+
+		it('should select only the chosen processor', () => {
+			expect(Array.from(selectProcessors(graph, 'b', 'single'))).toEqual(['b']);
+		});
+
+		it('should add every processor upstream of the chosen one', () => {
+			expect(Array.from(selectProcessors(graph, 'c', 'upstream')).sort()).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should add every processor downstream of the chosen one', () => {
+			expect(Array.from(selectProcessors(graph, 'b', 'downstream')).sort()).toEqual(['b', 'c']);
+		});
+
+		it('should reject nodes that are not processors', () => {
+			expect(() => selectProcessors(graph, 'missing', 'single')).toThrow('Node missing is not an AI processor');
+		});
+	});
+
+	describe('group edges', () => {
+		const at = <T extends { x: number; y: number }>(node: T, x: number, y: number): T => ({ ...node, x, y });
+		const group = (id: string, x: number, width: number): JSONCanvasGroupNode => ({
+			id, type: 'group', x, y: 0, width, height: 500,
+		});
+
+		// in → [stage: a → b] → [late: c] → out
+		const data: JSONCanvasData = {
+			nodes: [
+				textNode('in', 'Input'),
+				group('stage', 200, 500), at(processor('a'), 250, 50), at(processor('b'), 450, 50),
+				group('late', 800, 300), at(processor('c'), 850, 50),
+				at(output('out'), 1200, 0),
+			],
+			edges: [edge('in', 'stage'), edge('a', 'b'), edge('stage', 'late'), edge('late', 'out')],
+		};
+
+		it('should connect group inputs to entry processors and group outputs from exit processors', () => {
+			const edges = getWorkflowEdges(data).map(e => `${e.fromNode}→${e.toNode}`);
+
+			expect(edges).toEqual(['in→a', 'a→b', 'b→c', 'c→out']);
+		});
+
+		it('should order processors across groups', () => {
+			expect(sortProcessors(buildWorkflowGraph(data))).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should connect every node of a group without processors', () => {
+			// [notes: n1, n2] → a → [outputs: o1]
+			const notes: JSONCanvasData = {
+				nodes: [
+					group('notes', 0, 300), at(fileNode('n1', 'One.md'), 50, 50), at(fileNode('n2', 'Two.md'), 50, 200),
+					at(processor('a'), 400, 0),
+					group('outputs', 600, 300), at(output('o1'), 650, 50),
+				],
+				edges: [edge('notes', 'a'), edge('a', 'outputs')],
+			};
+
+			expect(getWorkflowEdges(notes).map(e => `${e.fromNode}→${e.toNode}`)).toEqual(['n1→a', 'n2→a', 'a→o1']);
+		});
+
+		it('should select the processors inside a group', () => {
+			expect(Array.from(selectGroupProcessors(data, 'stage'))).toEqual(['a', 'b']);
+			expect(() => selectGroupProcessors({ nodes: [group('empty', 0, 100)] }, 'empty'))
+				.toThrow('Group empty contains no AI processors');
+		});
+
+		it('should leave canvases without groups unchanged', () => {
+			const plain: JSONCanvasData = { nodes: [processor('a')], edges: [edge('in', 'a')] };
+
+			expect(getWorkflowEdges(plain)).toBe(plain.edges);
+		});
+	});
+
+	describe('findProcessorsReadingFiles', () => {
+		// note → a → out-a → b, other → c
+		const data: JSONCanvasData = {
+			nodes: [
+				fileNode('note', 'Daily/2024-01-15.md'), processor('a'), output('out-a'), processor('b'),
+				fileNode('other', 'Projects/Plan.md'), processor('c'),
+			],
+			edges: [edge('note', 'a'), edge('a', 'out-a'), edge('out-a', 'b'), edge('other', 'c')],
+		};
+
+		it('should select the readers of a changed note and everything downstream', () => {
+			const affected = findProcessorsReadingFiles(data, new Set(['Daily/2024-01-15.md']));
+
+			expect(Array.from(affected).sort()).toEqual(['a', 'b']);
+		});
+
+		it('should select nothing for notes the canvas does not read', () => {
+			expect(findProcessorsReadingFiles(data, new Set(['Inbox.md'])).size).toBe(0);
+		});
+	});
+
+	describe('isOnSkippedBranch', () => {
+		// in → triage → coach, triage → out-psych → psych, coach → merge, psych → merge
+		const data: JSONCanvasData = {
+			nodes: [
+				textNode('in', 'Journal'), processor('triage'), processor('coach'), output('out-psych'),
+				processor('psych'), processor('merge'),
+			],
+			edges: [
+				edge('in', 'triage'), edge('triage', 'coach'), edge('triage', 'out-psych'), edge('out-psych', 'psych'),
+				edge('in', 'psych'), edge('coach', 'merge'), edge('psych', 'merge'),
+			],
+		};
+
+		it('should skip processors that only read through skipped edges', () => {
+			expect(isOnSkippedBranch(data, 'coach', new Set(['triage-coach']), new Set())).toBe(true);
+			expect(isOnSkippedBranch(data, 'psych', new Set(['triage-out-psych']), new Set())).toBe(true);
+		});
+
+		it('should run processors that one taken branch still reaches', () => {
+			expect(isOnSkippedBranch(data, 'merge', new Set(), new Set(['psych']))).toBe(false);
+			expect(isOnSkippedBranch(data, 'merge', new Set(), new Set(['coach', 'psych']))).toBe(true);
+		});
+
+		it('should never skip processors that read no other processor', () => {
+			expect(isOnSkippedBranch(data, 'triage', new Set(['triage-coach']), new Set(['coach']))).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,322 @@
+import type { JSONCanvasData, JSONCanvasEdge, JSONCanvasFileNode } from '../types/jsoncanvas';
+import type { WorkflowGraph, WorkflowRunMode } from '../types/workflow';
+import { isProcessorNode } from './nodeRole';
+import { getGroupMembers, getGroups } from './canvasGroups';
+
+/**
+ * Builds the dependency graph between processors on a canvas.
+ * A processor depends on another processor when it is connected to it directly,
+ * or when one of its inputs is an output node written by that processor.
+ * Edges attached to groups are resolved with `getWorkflowEdges`.
+ * Edges labelled `loop` lead back to earlier processors and are left out, so the graph stays acyclic.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @returns {WorkflowGraph} The processors and their dependencies
+ */
+export const buildWorkflowGraph = (data: JSONCanvasData): WorkflowGraph => {
+	return buildGraph(data, getWorkflowEdges(data));
+};
+
+/**
+ * Checks whether an edge is labelled as a loop back to an earlier processor, e.g. `loop until: approved`
+ *
+ * @param {JSONCanvasEdge} edge - The edge
+ * @returns {boolean} Whether the edge is a loop edge
+ */
+export const isLoopEdge = (edge: JSONCanvasEdge): boolean => {
+	return /^loop\b/i.test(edge.label?.trim() ?? '');
+};
+
+/**
+ * Resolves the edges attached to group nodes into edges between the nodes inside them.
+ * An edge into a group feeds every entry processor of the group, i.e. every processor
+ * inside that does not read from another processor inside. An edge out of a group
+ * carries the result of every exit processor, i.e. every processor inside that no
+ * other processor inside reads from. Nested groups resolve the same way.
+ * Edges attached to a group without processors, such as a group of input notes,
+ * connect every node inside it instead.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @returns {JSONCanvasEdge[]} The canvas edges, with group edges replaced
+ * @example
+ * // in → [group: a → b] → out  becomes  in → a and b → out
+ * const edges = getWorkflowEdges(data);
+ */
+export const getWorkflowEdges = (data: JSONCanvasData): JSONCanvasEdge[] => {
+	const edges = data.edges || [];
+	const groups = getGroups(data);
+	if (groups.length === 0) return edges;
+
+	const groupIds = new Set(groups.map(group => group.id));
+	const members = new Map(groups.map(group => [group.id, getGroupMembers(data, group.id)] as [string, Set<string>]));
+	let resolved = edges.filter(edge => !groupIds.has(edge.fromNode) && !groupIds.has(edge.toNode));
+
+	// Edges between nested groups change which processors are entries and exits,
+	// so resolve again until the result no longer changes
+	for (let pass = 0; pass <= groups.length; pass++) {
+		const graph = buildGraph(data, resolved);
+		const entries = new Map<string, string[]>();
+		const exits = new Map<string, string[]>();
+
+		members.forEach((inside, groupId) => {
+			const processors = graph.processorIds.filter(id => inside.has(id));
+			if (processors.length === 0) {
+				const nodes = Array.from(inside).filter(id => !groupIds.has(id));
+				entries.set(groupId, nodes);
+				exits.set(groupId, nodes);
+				return;
+			}
+
+			entries.set(groupId, processors.filter(id =>
+				!Array.from(graph.dependencies.get(id) || []).some(dependency => inside.has(dependency))));
+			exits.set(groupId, processors.filter(id =>
+				!processors.some(other => graph.dependencies.get(other)?.has(id))));
+		});
+
+		const next = resolveGroupEdges(edges, entries, exits);
+		const unchanged = next.map(edge => edge.id).join('|') === resolved.map(edge => edge.id).join('|');
+		resolved = next;
+		if (unchanged) break;
+	}
+
+	return resolved;
+};
+
+/**
+ * Replaces every edge attached to a group with edges from the group's exit
+ * processors or to its entry processors
+ */
+const resolveGroupEdges = (
+	edges: JSONCanvasEdge[],
+	entries: Map<string, string[]>,
+	exits: Map<string, string[]>
+): JSONCanvasEdge[] => {
+	const resolved: JSONCanvasEdge[] = [];
+
+	for (const edge of edges) {
+		if (!entries.has(edge.fromNode) && !entries.has(edge.toNode)) {
+			resolved.push(edge);
+			continue;
+		}
+
+		for (const fromNode of exits.get(edge.fromNode) ?? [edge.fromNode]) {
+			for (const toNode of entries.get(edge.toNode) ?? [edge.toNode]) {
+				resolved.push({ ...edge, id: `${edge.id}:${fromNode}:${toNode}`, fromNode, toNode });
+			}
+		}
+	}
+
+	return resolved;
+};
+
+/**
+ * Builds the dependency graph from the given edges
+ */
+const buildGraph = (data: JSONCanvasData, edges: JSONCanvasEdge[]): WorkflowGraph => {
+	const nodes = data.nodes || [];
+
+	const processorIds = nodes.filter(isProcessorNode).map(node => node.id);
+	const processorSet = new Set(processorIds);
+	const dependencies = new Map<string, Set<string>>();
+
+	for (const processorId of processorIds) {
+		const upstream = new Set<string>();
+
+		for (const edge of edges) {
+			if (edge.toNode !== processorId || edge.fromNode === processorId || isLoopEdge(edge)) continue;
+
+			if (processorSet.has(edge.fromNode)) {
+				upstream.add(edge.fromNode);
+				continue;
+			}
+
+			// The input is a regular node - depend on every processor that writes into it
+			for (const feedingEdge of edges) {
+				if (feedingEdge.toNode === edge.fromNode && processorSet.has(feedingEdge.fromNode) && !isLoopEdge(feedingEdge)) {
+					upstream.add(feedingEdge.fromNode);
+				}
+			}
+		}
+
+		upstream.delete(processorId);
+		dependencies.set(processorId, upstream);
+	}
+
+	return { processorIds, dependencies };
+};
+
+/**
+ * Orders processors so that every processor runs after the processors it depends on.
+ * Processors without a dependency between them keep their canvas file order.
+ *
+ * @param {WorkflowGraph} graph - The workflow graph
+ * @returns {string[]} Processor IDs in execution order
+ * @throws {Error} If the processors form a cycle
+ */
+export const sortProcessors = (graph: WorkflowGraph): string[] => {
+	const remaining = new Map<string, Set<string>>();
+	for (const id of graph.processorIds) {
+		remaining.set(id, new Set(graph.dependencies.get(id) || []));
+	}
+
+	const order: string[] = [];
+
+	while (remaining.size > 0) {
+		// Pick the first processor (in file order) whose dependencies have all run
+		const next = graph.processorIds.find(id => remaining.get(id)?.size === 0);
+
+		if (!next) {
+			const cycle = findCycle(remaining);
+			throw new Error(`Workflow contains a cycle between processors: ${cycle.join(' → ')}. ` +
+				'Label the edge that leads back with `loop` to repeat these processors.');
+		}
+
+		order.push(next);
+		remaining.delete(next);
+		remaining.forEach(deps => deps.delete(next));
+	}
+
+	return order;
+};
+
+/**
+ * Selects the processors a run starting from one processor includes
+ *
+ * @param {WorkflowGraph} graph - The workflow graph
+ * @param {string} processorId - The processor the run starts from
+ * @param {WorkflowRunMode} mode - Whether to add the processors upstream or downstream of it
+ * @returns {Set<string>} IDs of the processors to run, including `processorId`
+ * @throws {Error} If `processorId` is not a processor of the graph
+ */
+export const selectProcessors = (graph: WorkflowGraph, processorId: string, mode: WorkflowRunMode): Set<string> => {
+	if (!graph.processorIds.includes(processorId)) {
+		throw new Error(`Node ${processorId} is not an AI processor`);
+	}
+
+	const selected = new Set([processorId]);
+	if (mode === 'single') return selected;
+
+	// Follow dependencies upstream, or the reverse direction downstream
+	const neighbours = (id: string): string[] => mode === 'upstream'
+		? Array.from(graph.dependencies.get(id) || [])
+		: graph.processorIds.filter(other => graph.dependencies.get(other)?.has(id));
+
+	const queue = [processorId];
+	while (queue.length > 0) {
+		for (const next of neighbours(queue.shift()!)) {
+			if (!selected.has(next)) {
+				selected.add(next);
+				queue.push(next);
+			}
+		}
+	}
+
+	return selected;
+};
+
+/**
+ * Finds the processors affected by changes to notes: every processor that reads
+ * a file node pointing at one of the notes, and every processor downstream of them
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {Set<string>} paths - Vault paths of the changed notes
+ * @returns {Set<string>} IDs of the processors to re-run
+ */
+export const findProcessorsReadingFiles = (data: JSONCanvasData, paths: Set<string>): Set<string> => {
+	const graph = buildWorkflowGraph(data);
+	const edges = getWorkflowEdges(data);
+	const fileNodeIds = new Set((data.nodes || [])
+		.filter(node => node.type === 'file' && paths.has((node as JSONCanvasFileNode).file))
+		.map(node => node.id));
+
+	const affected = new Set<string>();
+	for (const processorId of graph.processorIds) {
+		const readsFile = edges.some(edge => edge.toNode === processorId && fileNodeIds.has(edge.fromNode));
+		if (readsFile && !affected.has(processorId)) {
+			selectProcessors(graph, processorId, 'downstream').forEach(id => affected.add(id));
+		}
+	}
+
+	return affected;
+};
+
+/**
+ * Checks whether a processor is on a branch that was not taken: it reads from other
+ * processors, and every one of those reads goes through an edge whose condition did
+ * not match or comes from a processor that was itself on such a branch.
+ * Processors that read from several branches run as soon as one of them is taken.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} processorId - ID of the processor
+ * @param {Set<string>} skippedEdges - IDs of the workflow edges whose condition did not match
+ * @param {Set<string>} skippedProcessors - IDs of the processors already found on branches not taken
+ * @returns {boolean} Whether the processor should be skipped
+ */
+export const isOnSkippedBranch = (
+	data: JSONCanvasData,
+	processorId: string,
+	skippedEdges: Set<string>,
+	skippedProcessors: Set<string>
+): boolean => {
+	// Loop edges carry nothing until the loop repeats, so they never keep a processor running
+	const edges = getWorkflowEdges(data).filter(edge => !isLoopEdge(edge));
+	const processorSet = new Set((data.nodes || []).filter(isProcessorNode).map(node => node.id));
+	// Whether each read from an upstream processor still carries its result
+	const reads: boolean[] = [];
+
+	for (const edge of edges) {
+		if (edge.toNode !== processorId || edge.fromNode === processorId) continue;
+
+		if (processorSet.has(edge.fromNode)) {
+			reads.push(!skippedEdges.has(edge.id) && !skippedProcessors.has(edge.fromNode));
+			continue;
+		}
+
+		// The input is a regular node - the read goes through the edge that writes into it
+		for (const feedingEdge of edges) {
+			if (feedingEdge.toNode === edge.fromNode && processorSet.has(feedingEdge.fromNode)) {
+				reads.push(!skippedEdges.has(feedingEdge.id) && !skippedProcessors.has(feedingEdge.fromNode));
+			}
+		}
+	}
+
+	return reads.length > 0 && !reads.some(carries => carries);
+};
+
+/**
+ * Gets the processors inside a group, including those of nested groups
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {string} groupId - ID of the group node
+ * @returns {Set<string>} IDs of the processors to run for the group
+ * @throws {Error} If the group contains no processors
+ */
+export const selectGroupProcessors = (data: JSONCanvasData, groupId: string): Set<string> => {
+	const members = getGroupMembers(data, groupId);
+	const processors = (data.nodes || []).filter(node => members.has(node.id) && isProcessorNode(node));
+
+	if (processors.length === 0) {
+		throw new Error(`Group ${groupId} contains no AI processors`);
+	}
+
+	return new Set(processors.map(node => node.id));
+};
+
+/**
+ * Finds one cycle among processors that could not be ordered.
+ * Every entry in `remaining` has at least one unresolved dependency,
+ * so following dependencies is guaranteed to revisit a node.
+ */
+const findCycle = (remaining: Map<string, Set<string>>): string[] => {
+	const path: string[] = [];
+	let current = remaining.keys().next().value as string;
+
+	while (!path.includes(current)) {
+		path.push(current);
+		current = remaining.get(current)!.values().next().value as string;
+	}
+
+	// Dependencies point upstream, so reverse to show the direction data flows in
+	const cycle = path.slice(path.indexOf(current)).reverse();
+	return [...cycle, cycle[0]];
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONCanvasData, JSONCanvasEdge, JSONCanvasTextNode } from '../types/jsoncanvas';
+import { buildWorkflowGraph, sortProcessors } from './workflowGraph';
+import { addLoopDependencies, formatIterationHistory, getWorkflowLoops, parseLoopLabel } from './workflowLoops';
+
+const processor = (id: string): JSONCanvasTextNode => ({
+	id,
+	type: 'text',
+	text: `# ${id}\n\n**AI Processing Node**\n\nDo something`,
+	x: 0,
+	y: 0,
+	width: 100,
+	height: 100,
+});
+
+const edge = (fromNode: string, toNode: string, label?: string): JSONCanvasEdge => ({
+	id: `${fromNode}-${toNode}`,
+	fromNode,
+	toNode,
+	label,
+});
+
+describe('workflowLoops', () => {
+	describe('parseLoopLabel', () => {
+		it('should read the stop condition and limit', () => {
+			expect(parseLoopLabel('loop until: approved, max: 5')).toEqual({
+				until: { kind: 'equals', value: 'approved' },
+				maxIterations: 5
+			});
+			expect(parseLoopLabel('Loop until contains "LGTM" max 2')).toEqual({
+				until: { kind: 'contains', value: 'LGTM', negate: false },
+				maxIterations: 2
+			});
+		});
+
+		it('should default to three iterations without a condition', () => {
+			expect(parseLoopLabel('loop')).toEqual({ maxIterations: 3 });
+		});
+
+		it('should reject limits out of range and unknown settings', () => {
+			expect(() => parseLoopLabel('loop max: 50')).toThrow('between 1 and 10');
+			expect(() => parseLoopLabel('loop forever')).toThrow('expected e.g.');
+		});
+	});
+
+	describe('getWorkflowLoops', () => {
+		// brief → writer → editor → critic, critic loops back to writer, writer → count, critic → publish
+		const data: JSONCanvasData = {
+			nodes: ['brief', 'writer', 'editor', 'critic', 'count', 'publish'].map(processor),
+			edges: [
+				edge('brief', 'writer'), edge('writer', 'editor'), edge('editor', 'critic'),
+				edge('critic', 'writer', 'loop until: approved'), edge('writer', 'count'), edge('critic', 'publish'),
+			],
+		};
+		const graph = buildWorkflowGraph(data);
+
+		it('should keep loop edges out of the dependency graph', () => {
+			expect(() => sortProcessors(graph)).not.toThrow();
+			expect(Array.from(graph.dependencies.get('writer')!)).toEqual(['brief']);
+		});
+
+		it('should find the body between the two ends of the loop', () => {
+			const [loop] = getWorkflowLoops(data, graph);
+
+			expect(loop).toMatchObject({ from: 'critic', to: 'writer', body: ['writer', 'editor', 'critic'], maxIterations: 3 });
+		});
+
+		it('should order readers of the loop after it', () => {
+			const order = sortProcessors(addLoopDependencies(graph, getWorkflowLoops(data, graph)));
+
+			expect(order.indexOf('count')).toBeGreaterThan(order.indexOf('critic'));
+		});
+
+		it('should reject loop edges that do not lead back', () => {
+			const forward: JSONCanvasData = { ...data, edges: [...data.edges!, edge('brief', 'publish', 'loop')] };
+
+			expect(() => getWorkflowLoops(forward, buildWorkflowGraph(forward))).toThrow('must lead back');
+		});
+	});
+
+	describe('formatIterationHistory', () => {
+		it('should fold each earlier iteration into a callout', () => {
+			expect(formatIterationHistory(['Draft one', 'Draft\n\ntwo'])).toBe(
+				'> [!note]- Iteration 1\n> Draft one\n\n> [!note]- Iteration 2\n> Draft\n>\n> two'
+			);
+		});
+	});
+});
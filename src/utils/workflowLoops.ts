@@ -0,0 +1,147 @@
+/**
+ * Loops that send a processor's result back to an earlier processor,
+ * e.g. a critic returning a draft to its writer until the draft is approved
+ */
+
+import type { JSONCanvasData } from '../types/jsoncanvas';
+import type { WorkflowGraph, WorkflowLoop } from '../types/workflow';
+import { getWorkflowEdges, isLoopEdge, selectProcessors, sortProcessors } from './workflowGraph';
+import { parseEdgeCondition } from './edgeConditions';
+import { getProcessorTitle } from './nodeContent';
+
+/**
+ * Number of times a loop body runs when the label sets no `max:`
+ */
+const DEFAULT_MAX_ITERATIONS = 3;
+
+/**
+ * Highest `max:` a loop may declare, so a loop that never converges stays cheap
+ */
+const MAX_LOOP_ITERATIONS = 10;
+
+/**
+ * Matches the iteration limit at the end of a loop label, e.g. `, max: 5`
+ */
+const MAX_PART = /(?:^|[\s,;])max\s*:?\s*(\d+)\s*$/i;
+
+/**
+ * Parses the stop condition and iteration limit of a loop label.
+ * The stop condition takes the same expressions as `if:` edge conditions.
+ *
+ * @param {string} label - The label of a loop edge
+ * @returns {Pick<WorkflowLoop, 'until' | 'maxIterations'>} The loop settings
+ * @throws {Error} If the label is not a valid loop label or the limit is out of range
+ * @example
+ * parseLoopLabel('loop until: approved, max: 5'); // { until: { kind: 'equals', value: 'approved' }, maxIterations: 5 }
+ */
+export const parseLoopLabel = (label: string): Pick<WorkflowLoop, 'until' | 'maxIterations'> => {
+	let rest = label.trim().replace(/^loop\b/i, '').trim();
+	let maxIterations = DEFAULT_MAX_ITERATIONS;
+
+	const max = rest.match(MAX_PART);
+	if (max) {
+		maxIterations = Number(max[1]);
+		rest = rest.slice(0, max.index).replace(/[\s,;]+$/, '');
+	}
+
+	if (maxIterations < 1 || maxIterations > MAX_LOOP_ITERATIONS) {
+		throw new Error(`Invalid loop label "${label}": max must be between 1 and ${MAX_LOOP_ITERATIONS}`);
+	}
+	if (!rest) return { maxIterations };
+
+	const until = rest.match(/^until\s*:?\s*(.+)$/i);
+	if (!until) {
+		throw new Error(`Invalid loop label "${label}": expected e.g. "loop until: approved, max: 3"`);
+	}
+
+	return { until: parseEdgeCondition(`if: ${until[1]}`) ?? undefined, maxIterations };
+};
+
+/**
+ * Finds the loops of a canvas: edges labelled `loop` from a processor back to a processor it reads from.
+ * The processors between the two, both included, form the loop body.
+ *
+ * @param {JSONCanvasData} data - The canvas data
+ * @param {WorkflowGraph} graph - The workflow graph, from `buildWorkflowGraph`
+ * @returns {WorkflowLoop[]} The loops, in edge order
+ * @throws {Error} If a loop edge has an invalid label, does not connect two processors or does not lead back,
+ * or if a processor ends more than one loop
+ */
+export const getWorkflowLoops = (data: JSONCanvasData, graph: WorkflowGraph): WorkflowLoop[] => {
+	const nodes = data.nodes || [];
+	const title = (id: string) => {
+		const node = nodes.find(candidate => candidate.id === id);
+		return node ? getProcessorTitle(node) : id;
+	};
+	const edges = getWorkflowEdges(data).filter(isLoopEdge);
+	if (edges.length === 0) return [];
+
+	const order = sortProcessors(graph);
+
+	const loops = edges.map(edge => {
+		if (!graph.processorIds.includes(edge.fromNode) || !graph.processorIds.includes(edge.toNode)) {
+			throw new Error(`The loop edge "${edge.label}" must connect two processors`);
+		}
+
+		const downstream = selectProcessors(graph, edge.toNode, 'downstream');
+		if (!downstream.has(edge.fromNode)) {
+			throw new Error(`The loop edge from ${title(edge.fromNode)} must lead back to a processor it reads from, not to ${title(edge.toNode)}`);
+		}
+
+		const upstream = selectProcessors(graph, edge.fromNode, 'upstream');
+
+		return {
+			edgeId: edge.id,
+			from: edge.fromNode,
+			to: edge.toNode,
+			body: order.filter(id => downstream.has(id) && upstream.has(id)),
+			...parseLoopLabel(edge.label ?? '')
+		};
+	});
+
+	loops.forEach((loop, index) => {
+		if (loops.findIndex(other => other.from === loop.from) !== index) {
+			throw new Error(`${title(loop.from)} can only end one loop`);
+		}
+	});
+
+	return loops;
+};
+
+/**
+ * Makes every processor that reads from a loop, but is not part of it, depend on the
+ * processor that ends the loop, so it only runs once the loop is over
+ *
+ * @param {WorkflowGraph} graph - The workflow graph
+ * @param {WorkflowLoop[]} loops - The loops of the graph
+ * @returns {WorkflowGraph} A copy of the graph to order processors by
+ */
+export const addLoopDependencies = (graph: WorkflowGraph, loops: WorkflowLoop[]): WorkflowGraph => {
+	const dependencies = new Map<string, Set<string>>();
+	graph.dependencies.forEach((upstream, id) => dependencies.set(id, new Set(upstream)));
+
+	for (const loop of loops) {
+		selectProcessors(graph, loop.to, 'downstream').forEach(id => {
+			if (!loop.body.includes(id)) {
+				dependencies.get(id)?.add(loop.from);
+			}
+		});
+	}
+
+	return { processorIds: graph.processorIds, dependencies };
+};
+
+/**
+ * Renders the results of earlier loop iterations as folded callouts, one per iteration
+ *
+ * @param {string[]} results - The results of each earlier iteration, from the first on
+ * @returns {string} The callouts, or an empty string if there were no earlier iterations
+ */
+export const formatIterationHistory = (results: string[]): string => {
+	return results
+		.map((result, index) => {
+			const quoted = result.trim().split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+			return `> [!note]- Iteration ${index + 1}\n${quoted}`;
+		})
+		.join('\n\n');
+};
@@ -4,7 +4,7 @@
  * Extends ItemView to integrate with Obsidian's view system
  */
 
-import { ItemView, TFile, WorkspaceLeaf } from 'obsidian';
+import { ItemView, MarkdownRenderer, TFile, WorkspaceLeaf } from 'obsidian';
 import { createRoot, Root } from 'react-dom/client';
 import { createElement } from 'react';
 import type { Node, Edge } from '@xyflow/react';
@@ -12,6 +12,9 @@ import type DailyAIAssistantPlugin from '../main';
 import { FlowCanvasConverter } from '../services/FlowCanvasConverter';
 import type { JSONCanvasData } from '../types/jsoncanvas';
 import { FlowCanvas } from '../components/flow/FlowCanvas';
+import type { WorkflowRunMode } from '../types/workflow';
+import { runWorkflow } from '../commands';
+import { findStaleOutputs, findStaleProcessors } from '../utils/staleness';
 
 /**
  * View type identifier for Flow Canvas
@@ -32,8 +35,11 @@ export class FlowCanvasView extends ItemView {
 	private root: Root | null = null;
 	private nodes: Node[] = [];
 	private edges: Edge[] = [];
+	private canvasExtras: Omit<JSONCanvasData, 'nodes' | 'edges'> = {};
+	private staleNodeIds: Set<string> = new Set();
 	private reactContainer: HTMLElement | null = null;
 	private saveTimeout: NodeJS.Timeout | null = null;
+	private running = false;
 	private readonly SAVE_DEBOUNCE_MS = 1000; // Save 1 second after last change
 
 	constructor(leaf: WorkspaceLeaf, plugin: DailyAIAssistantPlugin) {
@@ -84,6 +90,9 @@ export class FlowCanvasView extends ItemView {
 			await this.loadCanvas(this.file);
 		}
 
+		// Keep saves away from the file while a workflow writes its outputs into it
+		this.register(this.plugin.runManager.onChange(() => this.onRunsChange()));
+
 		// Create and mount React root
 		this.mountReactApp();
 	}
@@ -121,6 +130,7 @@ export class FlowCanvasView extends ItemView {
 	 */
 	async loadCanvas(file: TFile): Promise<void> {
 		this.file = file;
+		this.running = this.isRunning();
 
 		try {
 			// Read the canvas data using CanvasService
@@ -131,10 +141,17 @@ export class FlowCanvasView extends ItemView {
 				nodes: jsonCanvas.nodes
 			});
 
+			// Keep top-level properties React Flow has no place for
+			const extras: Partial<JSONCanvasData> = { ...jsonCanvas };
+			delete extras.nodes;
+			delete extras.edges;
+			this.canvasExtras = extras;
+
 			// Convert to React Flow format
 			const flowData = FlowCanvasConverter.fromJSONCanvas(jsonCanvas);
 			this.nodes = flowData.nodes;
 			this.edges = flowData.edges;
+			await this.updateStaleNodes(jsonCanvas);
 
 			console.log('[Flow Canvas] Converted to Flow format:', {
 				nodeCount: this.nodes.length,
@@ -165,18 +182,72 @@ export class FlowCanvasView extends ItemView {
 			return;
 		}
 
+		// The nodes shown predate the run, so saving them would overwrite its outputs
+		if (this.isRunning()) {
+			console.log('[Flow Canvas] Save skipped while a workflow runs on this canvas');
+			return;
+		}
+
 		try {
 			// Convert current state back to JSON Canvas format
-			const jsonCanvas = FlowCanvasConverter.toJSONCanvas(this.nodes, this.edges);
+			const jsonCanvas: JSONCanvasData = {
+				...this.canvasExtras,
+				...FlowCanvasConverter.toJSONCanvas(this.nodes, this.edges),
+			};
 
 			// Save using CanvasService
 			await this.plugin.canvasService.writeCanvas(this.file, jsonCanvas);
 			console.log('[Flow Canvas] Canvas saved successfully');
+
+			// Edits can make outputs stale, so refresh their badges
+			if (await this.updateStaleNodes(jsonCanvas) && this.root) {
+				this.mountReactApp();
+			}
 		} catch (error) {
 			console.error('[Flow Canvas] Error saving canvas:', error);
 		}
 	}
 
+	/**
+	 * Recomputes which output nodes are stale
+	 *
+	 * @returns Whether the set of stale nodes changed
+	 */
+	private async updateStaleNodes(data: JSONCanvasData): Promise<boolean> {
+		const stale = findStaleOutputs(data, await findStaleProcessors(data, path => this.plugin.canvasService.getNoteVersion(path)));
+		const changed = stale.size !== this.staleNodeIds.size
+			|| Array.from(stale).some(id => !this.staleNodeIds.has(id));
+
+		this.staleNodeIds = stale;
+		return changed;
+	}
+
+	/**
+	 * Whether a workflow run on this canvas is in progress
+	 */
+	private isRunning(): boolean {
+		return this.file !== null && this.plugin.runManager.getRuns(this.file.path).length > 0;
+	}
+
+	/**
+	 * Drops the pending save when a run starts on this canvas,
+	 * and reloads the canvas with the run's outputs once the last run ends
+	 */
+	private async onRunsChange(): Promise<void> {
+		const running = this.isRunning();
+		if (running === this.running) return;
+		this.running = running;
+
+		if (running) {
+			if (this.saveTimeout) {
+				clearTimeout(this.saveTimeout);
+				this.saveTimeout = null;
+			}
+		} else if (this.file) {
+			await this.loadCanvas(this.file);
+		}
+	}
+
 	/**
 	 * Debounced save - waits for changes to settle before saving
 	 */
@@ -234,6 +305,45 @@ export class FlowCanvasView extends ItemView {
 		}
 	}
 
+	/**
+	 * Runs a processor node, alone or with the processors related to it.
+	 * The canvas reloads to show the outputs once the run ends.
+	 */
+	async runProcessor(nodeId: string, mode: WorkflowRunMode): Promise<void> {
+		if (!this.file) {
+			console.warn('[Flow Canvas] No file to run the processor in');
+			return;
+		}
+
+		// Cancel the debounced save; the processor must see the latest edits
+		if (this.saveTimeout) {
+			clearTimeout(this.saveTimeout);
+			this.saveTimeout = null;
+		}
+		await this.saveCanvas();
+
+		await runWorkflow(this.plugin, this.file, { target: { processorId: nodeId, mode } });
+	}
+
+	/**
+	 * Cancels the workflow runs of this canvas
+	 */
+	cancelRuns(): void {
+		if (this.file) {
+			this.plugin.runManager.cancel(this.file.path);
+		}
+	}
+
+	/**
+	 * Renders markdown into an element of a node card with Obsidian's renderer
+	 */
+	renderMarkdown(markdown: string, el: HTMLElement): void {
+		el.empty();
+		MarkdownRenderer.render(this.app, markdown, el, this.file?.path ?? '', this).catch((error) => {
+			console.error('[Flow Canvas] Error rendering markdown:', error);
+		});
+	}
+
 	/**
 	 * Mounts the React application
 	 */
@@ -263,6 +373,10 @@ export class FlowCanvasView extends ItemView {
 			onSwitchToCanvas: () => {
 				this.switchToCanvasView();
 			},
+			onRunProcessor: (nodeId: string, mode: WorkflowRunMode) => this.runProcessor(nodeId, mode),
+			onCancelRuns: () => this.cancelRuns(),
+			onRenderMarkdown: (markdown: string, el: HTMLElement) => this.renderMarkdown(markdown, el),
+			staleNodeIds: this.staleNodeIds,
 			readOnly: false,
 		});
 
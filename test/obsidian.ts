@@ -0,0 +1,4 @@
+// Obsidian provides its API at runtime only; the package ships types without code.
+// This module only makes `obsidian` resolvable in tests, which mock what they use
+// with vi.mock('obsidian', ...)
+export {};
@@ -8,7 +8,8 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@': './src'
+      '@': './src',
+      obsidian: new URL('./test/obsidian.ts', import.meta.url).pathname
     }
   }
 });
\ No newline at end of file